@@ -4,11 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { PresenceProvider } from "@/hooks/usePresence";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import Index from "./pages/Index";
 import Friends from "./pages/Friends";
 import Groups from "./pages/Groups";
 import Clubs from "./pages/Clubs";
+import Tag from "./pages/Tag";
+import Saved from "./pages/Saved";
+import Moderation from "./pages/Moderation";
 import Profile from "./pages/Profile";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
@@ -19,40 +23,62 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <AuthProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/" element={
-              <ProtectedRoute>
-                <Index />
-              </ProtectedRoute>
-            } />
-            <Route path="/profile" element={
-              <ProtectedRoute>
-                <Profile />
-              </ProtectedRoute>
-            } />
-            <Route path="/friends" element={
-              <ProtectedRoute>
-                <Friends />
-              </ProtectedRoute>
-            } />
-            <Route path="/groups" element={
-              <ProtectedRoute>
-                <Groups />
-              </ProtectedRoute>
-            } />
-            <Route path="/clubs" element={
-              <ProtectedRoute>
-                <Clubs />
-              </ProtectedRoute>
-            } />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <PresenceProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/" element={
+                <ProtectedRoute>
+                  <Index />
+                </ProtectedRoute>
+              } />
+              <Route path="/profile" element={
+                <ProtectedRoute>
+                  <Profile />
+                </ProtectedRoute>
+              } />
+              <Route path="/friends" element={
+                <ProtectedRoute>
+                  <Friends />
+                </ProtectedRoute>
+              } />
+              <Route path="/groups" element={
+                <ProtectedRoute>
+                  <Groups />
+                </ProtectedRoute>
+              } />
+              <Route path="/clubs" element={
+                <ProtectedRoute>
+                  <Clubs />
+                </ProtectedRoute>
+              } />
+              <Route path="/clubs/:clubId" element={
+                <ProtectedRoute>
+                  <Clubs />
+                </ProtectedRoute>
+              } />
+              <Route path="/tags/:tag" element={
+                <ProtectedRoute>
+                  <Tag />
+                </ProtectedRoute>
+              } />
+              <Route path="/saved" element={
+                <ProtectedRoute>
+                  <Saved />
+                </ProtectedRoute>
+              } />
+              <Route path="/moderation" element={
+                <ProtectedRoute>
+                  <Moderation />
+                </ProtectedRoute>
+              } />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </PresenceProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
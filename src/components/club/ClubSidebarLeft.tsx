@@ -1,98 +1,189 @@
 import { useMemo, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronRight, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Plus, Search } from "lucide-react";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import type { Club, ClubMember } from "@/hooks/useClubs";
 
-const myClubs = [
-  { id: 'photo', name: 'Photography Club', emoji: '📷', unread: 2 },
-  { id: 'coding', name: 'Coding Club', emoji: '💻', unread: 8 },
-  { id: 'drama', name: 'Drama Society', emoji: '🎭', unread: 1 },
-];
+interface ClubSidebarLeftProps {
+  clubs: Club[];
+  discoverClubs: Club[];
+  selectedClubId: string | null;
+  members: ClubMember[];
+  loading?: boolean;
+  onSelectClub: (clubId: string) => void;
+  onJoinClub: (club: Club) => Promise<void>;
+  onCreateClub: () => void;
+}
+
+const clubInitials = (name: string) =>
+  name
+    .split(' ')
+    .map(word => word[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+export function ClubSidebarLeft({
+  clubs,
+  discoverClubs,
+  selectedClubId,
+  members,
+  loading,
+  onSelectClub,
+  onJoinClub,
+  onCreateClub
+}: ClubSidebarLeftProps) {
+  const [query, setQuery] = useState("");
+  const [joiningClubId, setJoiningClubId] = useState<string | null>(null);
+
+  const matches = (club: Club) => club.name.toLowerCase().includes(query.trim().toLowerCase());
+  const filteredClubs = clubs.filter(matches);
+  const filteredDiscover = discoverClubs.filter(matches);
+  const selectedClub = clubs.find(c => c.id === selectedClubId) || discoverClubs.find(c => c.id === selectedClubId);
 
-const groupsByClub: Record<string, Array<{ name: string; icon: string; members: string[]; admin?: string }>> = {
-  photo: [
-    { name: 'Main Chat', icon: '📸', members: ['Piyush Hire', 'Nikshay Balki', 'Alex Doe', 'Lia Kim', 'Sam Wu'] },
-    { name: 'Art Directors', icon: '🎨', members: ['Sarah Chen', 'Mike Brown', 'Priya S'], admin: 'Sarah Chen' },
-    { name: 'Social Media Team', icon: '📱', members: ['Ava Patel', 'Diego R', 'Zara K', 'Noah L', 'Mina J', 'Kaito N'], admin: 'Sarah Chen' },
-  ],
-  coding: [
-    { name: 'Hackathon', icon: '⚡', members: ['Ted', 'Ivy', 'Liam', 'Nora'] },
-  ],
-  drama: [
-    { name: 'Stage Crew', icon: '🎭', members: ['Ana', 'Ben', 'Cara'] },
-  ],
-};
+  // Group the roster by role for the members accordion
+  const membersByRole = useMemo(() => {
+    const grouped = new Map<string, ClubMember[]>();
+    members.forEach(member => {
+      const role = member.role || 'member';
+      grouped.set(role, [...(grouped.get(role) || []), member]);
+    });
+    return [...grouped.entries()];
+  }, [members]);
 
-export function ClubSidebarLeft() {
-  const [selected, setSelected] = useState<string | null>('photo');
-  const selectedGroups = useMemo(() => (selected ? groupsByClub[selected] ?? [] : []), [selected]);
+  const handleJoin = async (club: Club) => {
+    setJoiningClubId(club.id);
+    try {
+      await onJoinClub(club);
+    } catch (error) {
+      console.error('Failed to join club:', error);
+    } finally {
+      setJoiningClubId(null);
+    }
+  };
 
   return (
     <aside className="hidden lg:block w-[280px] flex-shrink-0">
-      <div className="mb-4">
+      <div className="mb-4 space-y-2">
+        <Button onClick={onCreateClub} className="w-full rounded-xl">
+          <Plus className="w-4 h-4 mr-2" />
+          Create Club
+        </Button>
         <label className="sr-only" htmlFor="club-search">Search clubs</label>
         <div className="relative">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" size={16} />
-          <Input id="club-search" placeholder="Search clubs..." className="pl-9 rounded-xl" />
+          <Input
+            id="club-search"
+            placeholder="Search clubs..."
+            className="pl-9 rounded-xl"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
         </div>
       </div>
 
       <div className="mb-4">
         <h2 className="text-sm font-semibold mb-2">My Clubs</h2>
         <div className="space-y-2">
-          {myClubs.map(c => (
-            <button
-              key={c.id}
-              onClick={() => setSelected(c.id)}
-              className={`w-full flex items-center gap-3 p-3 rounded-xl border transition-colors hover:bg-muted ${selected===c.id ? 'bg-muted' : ''}`}
-              aria-pressed={selected===c.id}
-            >
-              <div className="h-10 w-10 rounded-full bg-secondary flex items-center justify-center text-lg" aria-hidden>
-                <span>{c.emoji}</span>
-              </div>
-              <div className="flex-1 text-left">
-                <div className="text-sm font-semibold">{c.name}</div>
-              </div>
-              {c.unread > 0 && (
-                <Badge className="rounded-full" variant="secondary">{c.unread}</Badge>
-              )}
-            </button>
-          ))}
+          {loading ? (
+            [1, 2, 3].map(i => (
+              <div key={i} className="h-16 bg-muted rounded-xl animate-pulse" />
+            ))
+          ) : filteredClubs.length === 0 ? (
+            <p className="text-xs text-muted-foreground px-1">
+              {query ? 'No joined clubs match your search.' : "You haven't joined any clubs yet."}
+            </p>
+          ) : (
+            filteredClubs.map(c => (
+              <button
+                key={c.id}
+                onClick={() => onSelectClub(c.id)}
+                className={`w-full flex items-center gap-3 p-3 rounded-xl border transition-colors hover:bg-muted ${selectedClubId===c.id ? 'bg-muted' : ''}`}
+                aria-pressed={selectedClubId===c.id}
+              >
+                {c.profile_pic_url ? (
+                  <img src={c.profile_pic_url} alt="" className="h-10 w-10 rounded-full object-cover" />
+                ) : (
+                  <div className="h-10 w-10 rounded-full bg-secondary flex items-center justify-center text-sm font-semibold" aria-hidden>
+                    <span>{clubInitials(c.name)}</span>
+                  </div>
+                )}
+                <div className="flex-1 text-left min-w-0">
+                  <div className="text-sm font-semibold truncate">{c.name}</div>
+                  <div className="text-xs text-muted-foreground">{c.member_count} member{c.member_count !== 1 ? 's' : ''}</div>
+                </div>
+                {c.role && c.role !== 'member' && (
+                  <Badge className="rounded-full capitalize" variant="secondary">{c.role}</Badge>
+                )}
+              </button>
+            ))
+          )}
         </div>
       </div>
 
-      {selected && (
+      {filteredDiscover.length > 0 && (
+        <div className="mb-4">
+          <h2 className="text-sm font-semibold mb-2">Discover Clubs</h2>
+          <div className="space-y-2">
+            {filteredDiscover.map(c => (
+              <div
+                key={c.id}
+                className={`flex items-center gap-3 p-3 rounded-xl border ${selectedClubId===c.id ? 'bg-muted' : ''}`}
+              >
+                <button onClick={() => onSelectClub(c.id)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm font-semibold truncate">{c.name}</div>
+                  <div className="text-xs text-muted-foreground">{c.member_count} member{c.member_count !== 1 ? 's' : ''}</div>
+                </button>
+                {c.join_policy === 'invite_only' ? (
+                  <Badge className="rounded-full" variant="outline">Invite only</Badge>
+                ) : c.has_pending_application ? (
+                  <Badge className="rounded-full" variant="secondary">Pending</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleJoin(c)}
+                    disabled={joiningClubId === c.id}
+                  >
+                    {joiningClubId === c.id ? 'Joining...' : c.join_policy === 'application' ? 'Apply' : 'Join'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selectedClub && (
         <div className="mt-6">
-          <button className="w-full flex items-center justify-between p-3 rounded-lg border">
-            <span className="text-sm font-semibold">{myClubs.find(c=>c.id===selected)?.name}</span>
-            <ChevronDown size={16} />
-          </button>
+          <div className="w-full flex items-center justify-between p-3 rounded-lg border">
+            <span className="text-sm font-semibold">{selectedClub.name}</span>
+            <span className="text-xs text-muted-foreground">{selectedClub.member_count} members</span>
+          </div>
 
           <div className="mt-3">
-            <div className="text-xs font-semibold text-muted-foreground mb-2">Club Groups</div>
-            <Accordion type="single" collapsible className="w-full">
-              {selectedGroups.map((g, idx) => (
-                <AccordionItem key={idx} value={`item-${idx}`}>
+            <div className="text-xs font-semibold text-muted-foreground mb-2">Members</div>
+            <Accordion type="multiple" className="w-full">
+              {membersByRole.map(([role, roleMembers]) => (
+                <AccordionItem key={role} value={role}>
                   <AccordionTrigger className="py-2 px-2 rounded-lg hover:no-underline">
                     <div className="flex items-center gap-2 text-sm">
-                      <span>{g.icon}</span>
-                      <span className="font-medium">{myClubs.find(c=>c.id===selected)?.name}/{g.name}</span>
+                      <span className="font-medium capitalize">{role}</span>
+                      <span className="text-xs text-muted-foreground">({roleMembers.length})</span>
                     </div>
                   </AccordionTrigger>
-                  <AccordionContent className="pl-8 pr-2 pb-2">
-                    {g.admin && (
-                      <div className="text-xs text-muted-foreground mb-1">Admin: {g.admin}</div>
-                    )}
+                  <AccordionContent className="pl-4 pr-2 pb-2">
                     <ul className="space-y-1 text-xs">
-                      {g.members.slice(0,3).map((m) => (
-                        <li key={m} className="flex items-center gap-2">
+                      {roleMembers.slice(0, 5).map((m) => (
+                        <li key={m.id} className="flex items-center gap-2">
                           <span className="h-2.5 w-2.5 rounded-full bg-accent" aria-hidden />
-                          <span>{m}</span>
+                          <span>{m.profile?.full_name || m.profile?.username || 'Unknown'}</span>
                         </li>
                       ))}
-                      {g.members.length > 3 && (
-                        <li className="text-xs text-muted-foreground">[+{g.members.length - 3} more]</li>
+                      {roleMembers.length > 5 && (
+                        <li className="text-xs text-muted-foreground">[+{roleMembers.length - 5} more]</li>
                       )}
                     </ul>
                   </AccordionContent>
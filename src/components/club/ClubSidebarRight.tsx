@@ -1,23 +1,84 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import type { Club } from "@/hooks/useClubs";
 
-export function ClubSidebarRight() {
+interface ClubSidebarRightProps {
+  club: Club;
+  isMember: boolean;
+  onJoin: () => Promise<void>;
+  onWithdraw: () => Promise<void>;
+  onLeave: () => Promise<void>;
+}
+
+export function ClubSidebarRight({ club, isMember, onJoin, onWithdraw, onLeave }: ClubSidebarRightProps) {
   const [date, setDate] = useState<Date | undefined>(new Date());
+  const [updatingMembership, setUpdatingMembership] = useState(false);
+
+  const handleMembership = async () => {
+    setUpdatingMembership(true);
+    try {
+      if (isMember) {
+        await onLeave();
+      } else if (club.has_pending_application) {
+        await onWithdraw();
+      } else {
+        await onJoin();
+      }
+    } catch (error) {
+      console.error('Failed to update club membership:', error);
+    } finally {
+      setUpdatingMembership(false);
+    }
+  };
 
   return (
     <aside className="hidden xl:block w-[280px] flex-shrink-0 space-y-4">
       <Card className="rounded-xl overflow-hidden">
-        <div className="h-20 bg-muted" aria-hidden />
+        {club.banner_url ? (
+          <img src={club.banner_url} alt="" className="h-20 w-full object-cover" />
+        ) : (
+          <div className="h-20 bg-muted" aria-hidden />
+        )}
         <CardContent className="pt-0">
           <div className="-mt-8 mb-2 flex items-center">
-            <div className="h-14 w-14 rounded-full border-4 border-background bg-secondary flex items-center justify-center text-lg">📷</div>
-            <div className="ml-3">
-              <div className="text-sm font-semibold">Photography Club</div>
-              <div className="text-xs text-muted-foreground">Capturing moments, creating memories</div>
+            {club.profile_pic_url ? (
+              <img src={club.profile_pic_url} alt="" className="h-14 w-14 rounded-full border-4 border-background object-cover" />
+            ) : (
+              <div className="h-14 w-14 rounded-full border-4 border-background bg-secondary flex items-center justify-center text-lg">
+                {club.name.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <div className="ml-3 min-w-0">
+              <div className="text-sm font-semibold truncate">{club.name}</div>
+              {club.description && (
+                <div className="text-xs text-muted-foreground line-clamp-2">{club.description}</div>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-accent font-medium">
+              👥 {club.member_count} member{club.member_count !== 1 ? 's' : ''}
+              {club.role && <span className="text-muted-foreground capitalize"> • {club.role}</span>}
             </div>
+            {!isMember && club.join_policy === 'invite_only' ? (
+              <span className="text-xs text-muted-foreground">Invite only</span>
+            ) : club.role !== 'president' && (
+              <Button
+                size="sm"
+                variant={isMember || club.has_pending_application ? "outline" : "default"}
+                onClick={handleMembership}
+                disabled={updatingMembership}
+              >
+                {isMember
+                  ? 'Leave'
+                  : club.has_pending_application
+                    ? 'Withdraw'
+                    : club.join_policy === 'application' ? 'Apply' : 'Join'}
+              </Button>
+            )}
           </div>
-          <div className="text-xs text-accent font-medium">👥 142 members</div>
         </CardContent>
       </Card>
 
@@ -4,8 +4,24 @@ import { PostCard, type Post } from "@/components/feed/PostCard";
 import { ResourceFilters } from "./resources/ResourceFilters";
 import { EventsGrid } from "./events/EventsGrid";
 import { WorkflowCanvas } from "./workflow/WorkflowCanvas";
+import { ApplicationQueue } from "./applications/ApplicationQueue";
+import { AttendanceHistory } from "./attendance/AttendanceHistory";
+import { MemberRoster } from "./members/MemberRoster";
+import { isClubOfficer, type Club, type ClubJoinPolicy, type ClubMember, type ClubRole } from "@/hooks/useClubs";
+
+interface ClubTabsProps {
+  club: Club;
+  posts: Post[];
+  members: ClubMember[];
+  currentUserId?: string;
+  onUpdateClub: (clubId: string, updates: { join_policy: ClubJoinPolicy; application_questions: string[] }) => Promise<void>;
+  onSetMemberRole: (userId: string, role: ClubRole) => Promise<void>;
+  onAddMember: (userId: string) => Promise<void>;
+}
+
+export function ClubTabs({ club, posts, members, currentUserId, onUpdateClub, onSetMemberRole, onAddMember }: ClubTabsProps) {
+  const isOfficer = isClubOfficer(club.role);
 
-export function ClubTabs({ posts }: { posts: Post[] }) {
   return (
     <Tabs defaultValue="feed" className="w-full">
       <div className="sticky top-16 z-10 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b">
@@ -15,6 +31,15 @@ export function ClubTabs({ posts }: { posts: Post[] }) {
           <TabsTrigger value="events" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">Events</TabsTrigger>
           <TabsTrigger value="course" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">Course</TabsTrigger>
           <TabsTrigger value="workflow" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">Workflow</TabsTrigger>
+          {club.role && (
+            <TabsTrigger value="members" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">Members</TabsTrigger>
+          )}
+          {isOfficer && (
+            <TabsTrigger value="applications" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">Applications</TabsTrigger>
+          )}
+          {isOfficer && (
+            <TabsTrigger value="attendance" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground">Attendance</TabsTrigger>
+          )}
         </TabsList>
       </div>
 
@@ -29,7 +54,13 @@ export function ClubTabs({ posts }: { posts: Post[] }) {
           </div>
         </div>
         <div className="mt-4 space-y-4">
-          {posts.map(p => (<PostCard key={p.id} post={p} />))}
+          {posts.length === 0 ? (
+            <div className="rounded-xl border p-6 text-center text-sm text-muted-foreground">
+              No posts in {club.name} yet.
+            </div>
+          ) : (
+            posts.map(p => (<PostCard key={p.id} post={p} />))
+          )}
         </div>
       </TabsContent>
 
@@ -52,7 +83,7 @@ export function ClubTabs({ posts }: { posts: Post[] }) {
       </TabsContent>
 
       <TabsContent value="events" className="mt-4">
-        <EventsGrid />
+        <EventsGrid club={club} />
       </TabsContent>
 
       <TabsContent value="course" className="mt-4">
@@ -62,6 +93,31 @@ export function ClubTabs({ posts }: { posts: Post[] }) {
       <TabsContent value="workflow" className="mt-4">
         <WorkflowCanvas />
       </TabsContent>
+
+      {club.role && (
+        <TabsContent value="members" className="mt-4">
+          <MemberRoster
+            members={members}
+            currentUserId={currentUserId}
+            currentRole={club.role}
+            onSetRole={onSetMemberRole}
+            onAddMember={onAddMember}
+          />
+        </TabsContent>
+      )}
+
+      {isOfficer && (
+        <TabsContent value="applications" className="mt-4">
+          {/* Keyed on updated_at so the settings form resets when the club changes */}
+          <ApplicationQueue key={`${club.id}-${club.updated_at}`} club={club} onUpdateClub={onUpdateClub} />
+        </TabsContent>
+      )}
+
+      {isOfficer && (
+        <TabsContent value="attendance" className="mt-4">
+          <AttendanceHistory club={club} />
+        </TabsContent>
+      )}
     </Tabs>
   );
 }
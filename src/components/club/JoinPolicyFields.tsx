@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ClipboardList, Globe, Lock, Plus, X } from "lucide-react";
+import type { ClubJoinPolicy } from "@/hooks/useClubs";
+
+const MAX_QUESTIONS = 5;
+
+const policies: { value: ClubJoinPolicy; label: string; description: string; Icon: typeof Globe }[] = [
+  { value: 'open', label: 'Open', description: 'Anyone can join instantly.', Icon: Globe },
+  { value: 'application', label: 'Application', description: 'Students apply and officers approve or reject.', Icon: ClipboardList },
+  { value: 'invite_only', label: 'Invite only', description: 'Only officers can add new members.', Icon: Lock },
+];
+
+interface JoinPolicyFieldsProps {
+  joinPolicy: ClubJoinPolicy;
+  questions: string[];
+  onJoinPolicyChange: (policy: ClubJoinPolicy) => void;
+  onQuestionsChange: (questions: string[]) => void;
+  disabled?: boolean;
+}
+
+export function JoinPolicyFields({
+  joinPolicy,
+  questions,
+  onJoinPolicyChange,
+  onQuestionsChange,
+  disabled
+}: JoinPolicyFieldsProps) {
+  const [newQuestion, setNewQuestion] = useState("");
+
+  const handleAddQuestion = () => {
+    if (!newQuestion.trim() || questions.length >= MAX_QUESTIONS) return;
+    onQuestionsChange([...questions, newQuestion.trim()]);
+    setNewQuestion("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium text-gray-700">Who can join?</Label>
+      <RadioGroup
+        value={joinPolicy}
+        onValueChange={(value: ClubJoinPolicy) => onJoinPolicyChange(value)}
+        className="space-y-2"
+        disabled={disabled}
+      >
+        {policies.map(({ value, label, description, Icon }) => (
+          <div key={value} className="flex items-start space-x-3 p-3 border rounded-lg hover:bg-gray-50 transition-colors">
+            <RadioGroupItem value={value} id={`join-policy-${value}`} className="mt-1" />
+            <div className="flex-1">
+              <div className="flex items-center space-x-2 mb-1">
+                <Icon className="w-4 h-4 text-gray-600" />
+                <Label htmlFor={`join-policy-${value}`} className="font-medium text-gray-900 cursor-pointer">
+                  {label}
+                </Label>
+              </div>
+              <p className="text-xs text-gray-500">{description}</p>
+            </div>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {joinPolicy === 'application' && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">
+            Application questions ({questions.length}/{MAX_QUESTIONS})
+          </Label>
+          {questions.map((question, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm bg-muted rounded-lg px-3 py-2">
+              <span className="flex-1">{index + 1}. {question}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => onQuestionsChange(questions.filter((_, i) => i !== index))}
+                disabled={disabled}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+          {questions.length < MAX_QUESTIONS && (
+            <div className="flex gap-2">
+              <Input
+                value={newQuestion}
+                onChange={(e) => setNewQuestion(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddQuestion();
+                  }
+                }}
+                placeholder="e.g. Why do you want to join?"
+                maxLength={200}
+                disabled={disabled}
+              />
+              <Button type="button" variant="outline" onClick={handleAddQuestion} disabled={disabled || !newQuestion.trim()}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
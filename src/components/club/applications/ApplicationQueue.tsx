@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Check, ClipboardList, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useClubApplications } from "@/hooks/useClubApplications";
+import { JoinPolicyFields } from "../JoinPolicyFields";
+import type { Club, ClubJoinPolicy } from "@/hooks/useClubs";
+
+interface ApplicationQueueProps {
+  club: Club;
+  onUpdateClub: (clubId: string, updates: { join_policy: ClubJoinPolicy; application_questions: string[] }) => Promise<void>;
+}
+
+export function ApplicationQueue({ club, onUpdateClub }: ApplicationQueueProps) {
+  const { applications, loading, reviewApplication } = useClubApplications(club.id);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [joinPolicy, setJoinPolicy] = useState<ClubJoinPolicy>(club.join_policy);
+  const [questions, setQuestions] = useState<string[]>(club.application_questions);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleReview = async (applicationId: string, decision: 'approved' | 'rejected') => {
+    setProcessingId(applicationId);
+    try {
+      await reviewApplication(applicationId, decision);
+      toast({ title: decision === 'approved' ? "Application approved" : "Application rejected" });
+    } catch (error) {
+      toast({
+        title: "Failed to review application",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    try {
+      await onUpdateClub(club.id, {
+        join_policy: joinPolicy,
+        application_questions: joinPolicy === 'application' ? questions : []
+      });
+      toast({ title: "Membership settings saved" });
+    } catch (error) {
+      toast({
+        title: "Failed to save settings",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold mb-3">Pending applications ({applications.length})</h3>
+        {loading ? (
+          <div className="text-sm text-muted-foreground text-center py-6">Loading applications...</div>
+        ) : applications.length === 0 ? (
+          <div className="rounded-xl border p-6 text-center text-sm text-muted-foreground">
+            <ClipboardList className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            No pending applications.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {applications.map(app => (
+              <Card key={app.id} className="rounded-xl">
+                <CardContent className="p-4">
+                  <div className="flex items-start gap-3">
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={app.applicant?.profile_pic_url || undefined} />
+                      <AvatarFallback>{app.applicant?.full_name?.[0] || 'U'}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-semibold">{app.applicant?.full_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[app.applicant?.branch, app.applicant?.year_of_study].filter(Boolean).join(' • ')}
+                        {' '}• applied {formatDistanceToNow(new Date(app.created_at), { addSuffix: true })}
+                      </div>
+                      {app.answers.length > 0 && (
+                        <dl className="mt-3 space-y-2">
+                          {app.answers.map((a, i) => (
+                            <div key={i}>
+                              <dt className="text-xs font-medium text-muted-foreground">{a.question}</dt>
+                              <dd className="text-sm whitespace-pre-wrap">{a.answer}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(app.id, 'rejected')}
+                      disabled={processingId === app.id}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleReview(app.id, 'approved')}
+                      disabled={processingId === app.id}
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-xl border p-4 space-y-4">
+        <h3 className="text-sm font-semibold">Membership settings</h3>
+        <JoinPolicyFields
+          joinPolicy={joinPolicy}
+          questions={questions}
+          onJoinPolicyChange={setJoinPolicy}
+          onQuestionsChange={setQuestions}
+          disabled={saving}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSaveSettings} disabled={saving}>
+            {saving ? 'Saving...' : 'Save settings'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
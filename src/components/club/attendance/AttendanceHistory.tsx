@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useClubAttendance } from "@/hooks/useEventCheckIn";
+import { downloadCsv } from "@/lib/csv";
+import type { Club } from "@/hooks/useClubs";
+
+const CSV_HEADERS = ['Event', 'Event date', 'Name', 'Username', 'Checked in at', 'Method'];
+
+export function AttendanceHistory({ club }: { club: Club }) {
+  const { events, loading, getAttendanceRecords } = useClubAttendance(club.id);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleExport = async (eventIds: string[], filename: string, key: string) => {
+    setExportingId(key);
+    try {
+      const records = await getAttendanceRecords(eventIds);
+      const eventsById = new Map(events.map(e => [e.id, e]));
+
+      downloadCsv(filename, CSV_HEADERS, records.map(r => {
+        const event = eventsById.get(r.event_id);
+        return [
+          event?.name,
+          event?.start_date ? format(new Date(event.start_date), 'yyyy-MM-dd HH:mm') : '',
+          r.profile?.full_name,
+          r.profile?.username,
+          format(new Date(r.checked_in_at), 'yyyy-MM-dd HH:mm:ss'),
+          r.method
+        ];
+      }));
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const slug = club.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  if (loading) {
+    return <div className="text-sm text-muted-foreground text-center py-6">Loading attendance...</div>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="rounded-xl border p-6 text-center text-sm text-muted-foreground">
+        Attendance will appear here once {club.name} hosts events.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleExport(events.map(e => e.id), `${slug}-attendance.csv`, 'all')}
+          disabled={exportingId !== null}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          {exportingId === 'all' ? 'Exporting...' : 'Export all'}
+        </Button>
+      </div>
+
+      <div className="rounded-xl border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Going</TableHead>
+              <TableHead className="text-right">Attended</TableHead>
+              <TableHead className="text-right">Turnout</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map(event => (
+              <TableRow key={event.id}>
+                <TableCell className="font-medium">
+                  {event.name}
+                  {event.cancelled_at && <span className="text-xs text-muted-foreground"> (cancelled)</span>}
+                </TableCell>
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {event.start_date ? format(new Date(event.start_date), 'MMM d, yyyy') : '—'}
+                </TableCell>
+                <TableCell className="text-right">{event.going_count}</TableCell>
+                <TableCell className="text-right">{event.attended_count}</TableCell>
+                <TableCell className="text-right">
+                  {event.going_count > 0 ? `${Math.round((event.attended_count / event.going_count) * 100)}%` : '—'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleExport([event.id], `${slug}-${format(new Date(event.start_date || Date.now()), 'yyyy-MM-dd')}-attendance.csv`, event.id)}
+                    disabled={exportingId !== null || event.attended_count === 0}
+                    aria-label={`Export attendance for ${event.name}`}
+                  >
+                    <Download className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
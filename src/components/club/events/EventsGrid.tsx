@@ -1,31 +1,166 @@
-import { Card, CardContent } from "@/components/ui/card";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import { EventCard } from "@/components/events/EventCard";
+import { CheckInScanner } from "@/components/events/CheckInScanner";
+import { CheckInCodeModal } from "@/components/modals/CheckInCodeModal";
+import { CreateEventModal } from "@/components/modals/CreateEventModal";
+import { EventOccurrencesModal } from "@/components/modals/EventOccurrencesModal";
+import { useToast } from "@/hooks/use-toast";
+import { useEvents, collapseSeries, isEventPast, type CampusEvent } from "@/hooks/useEvents";
+import { isClubOfficer, type Club } from "@/hooks/useClubs";
 
-const events = [
-  { title: 'Tech Week', updated: true },
-  { title: 'Workshop', updated: false },
-  { title: 'Demo Day', updated: false },
-  { title: 'Tutorial Series', updated: false },
-  { title: 'Study Session', updated: false },
-];
+export function EventsGrid({ club }: { club: Club }) {
+  const [openCreate, setOpenCreate] = useState(false);
+  const [codeEvent, setCodeEvent] = useState<CampusEvent | null>(null);
+  const [checkInEvent, setCheckInEvent] = useState<CampusEvent | null>(null);
+  const [seriesEvent, setSeriesEvent] = useState<CampusEvent | null>(null);
+  const {
+    events,
+    loading,
+    createEvent,
+    cancelEvent,
+    rescheduleEvent,
+    deleteEvent,
+    rsvp,
+    getCheckInCode
+  } = useEvents('club', club.id);
+  const { toast } = useToast();
+
+  const canManage = isClubOfficer(club.role);
+  const upcoming = events.filter(e => !isEventPast(e));
+  const past = events.filter(e => isEventPast(e)).reverse();
+
+  // A series shows up once, as its next date; the rest are in the dates dialog
+  const upcomingDatesOf = (seriesId: string | null) => upcoming.filter(e => e.series_id === seriesId);
+
+  const handleDelete = async (eventId: string) => {
+    try {
+      await deleteEvent(eventId);
+      toast({ title: "Event deleted" });
+    } catch (error) {
+      toast({
+        title: "Failed to delete event",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async (eventId: string) => {
+    try {
+      await cancelEvent(eventId);
+      toast({ title: "Event cancelled", description: "Attendees have been notified." });
+    } catch (error) {
+      toast({
+        title: "Failed to cancel event",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <Grid>
+        {[1, 2, 3].map(i => (
+          <div key={i} className="h-[260px] bg-muted rounded-2xl animate-pulse" />
+        ))}
+      </Grid>
+    );
+  }
 
-export function EventsGrid() {
   return (
     <div className="space-y-6">
-      <Section title="Main Events">
-        <Grid>
-          {events.slice(0,3).map(e => (
-            <EventCard key={e.title} title={e.title} updated={e.updated} />
-          ))}
-        </Grid>
-      </Section>
+      {canManage && (
+        <div className="flex justify-end">
+          <Button size="sm" className="rounded-xl" onClick={() => setOpenCreate(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Create Event
+          </Button>
+        </div>
+      )}
 
-      <Section title="Club Service">
-        <Grid>
-          {events.slice(3).map(e => (
-            <EventCard key={e.title} title={e.title} updated={e.updated} />
-          ))}
-        </Grid>
+      <Section title="Upcoming Events">
+        {upcoming.length === 0 ? (
+          <div className="rounded-xl border p-6 text-center text-sm text-muted-foreground">
+            No upcoming events in {club.name}.
+          </div>
+        ) : (
+          <Grid>
+            {collapseSeries(upcoming).map(e => (
+              <EventCard
+                key={e.id}
+                event={e}
+                canManage={canManage}
+                onRsvp={rsvp}
+                onCancel={handleCancel}
+                onDelete={handleDelete}
+                onShowCheckInCode={setCodeEvent}
+                onOpenCheckIn={setCheckInEvent}
+                moreDates={e.series_id ? upcomingDatesOf(e.series_id).length - 1 : 0}
+                onShowDates={setSeriesEvent}
+              />
+            ))}
+          </Grid>
+        )}
       </Section>
+
+      {past.length > 0 && (
+        <Section title="Past Events">
+          <Grid>
+            {past.map(e => (
+              <EventCard
+                key={e.id}
+                event={e}
+                canManage={canManage}
+                onRsvp={rsvp}
+                onCancel={handleCancel}
+                onDelete={handleDelete}
+                onShowCheckInCode={setCodeEvent}
+                onOpenCheckIn={setCheckInEvent}
+              />
+            ))}
+          </Grid>
+        </Section>
+      )}
+
+      <EventOccurrencesModal
+        event={seriesEvent}
+        occurrences={seriesEvent ? upcomingDatesOf(seriesEvent.series_id) : []}
+        open={!!seriesEvent}
+        onOpenChange={(open) => !open && setSeriesEvent(null)}
+        canManage={canManage}
+        onRsvp={rsvp}
+        onCancel={handleCancel}
+        onReschedule={rescheduleEvent}
+      />
+
+      <CheckInCodeModal
+        event={codeEvent}
+        open={!!codeEvent}
+        onOpenChange={(open) => !open && setCodeEvent(null)}
+        getCheckInCode={getCheckInCode}
+      />
+
+      <Dialog open={!!checkInEvent} onOpenChange={(open) => !open && setCheckInEvent(null)}>
+        <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-lg font-semibold text-gray-900">
+              Check-in: {checkInEvent?.name}
+            </DialogTitle>
+          </DialogHeader>
+          {checkInEvent && <CheckInScanner event={checkInEvent} />}
+        </DialogContent>
+      </Dialog>
+
+      <CreateEventModal
+        open={openCreate}
+        onOpenChange={setOpenCreate}
+        organizers={[{ type: 'club', id: club.id, name: club.name }]}
+        onCreateEvent={createEvent}
+      />
     </div>
   );
 }
@@ -50,15 +185,3 @@ function Grid({ children }: { children: React.ReactNode }) {
     </div>
   );
 }
-
-function EventCard({ title, updated }: { title: string; updated?: boolean }) {
-  return (
-    <Card className="rounded-2xl overflow-hidden transition-transform duration-200 hover:-translate-y-1">
-      <div className="h-[120px] w-full bg-muted" aria-label={`${title} image`} />
-      <CardContent className="p-4 text-center">
-        <div className="text-sm font-semibold">{title}</div>
-        {updated && <div className="text-xs text-muted-foreground">Updated</div>}
-      </CardContent>
-    </Card>
-  );
-}
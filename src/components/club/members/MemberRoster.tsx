@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSearch } from "@/hooks/useUserSearch";
+import { CLUB_ROLES, clubRoleRank, isClubOfficer, type ClubMember, type ClubRole } from "@/hooks/useClubs";
+
+interface MemberRosterProps {
+  members: ClubMember[];
+  currentUserId?: string;
+  currentRole?: ClubRole | null;
+  onSetRole: (userId: string, role: ClubRole) => Promise<void>;
+  onAddMember: (userId: string) => Promise<void>;
+}
+
+export function MemberRoster({ members, currentUserId, currentRole, onSetRole, onAddMember }: MemberRosterProps) {
+  const [query, setQuery] = useState("");
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const { users, loading: searching } = useUserSearch(query);
+  const { toast } = useToast();
+
+  const canManage = isClubOfficer(currentRole);
+  const actorRank = clubRoleRank(currentRole);
+  const memberIds = new Set(members.map(m => m.user_id));
+
+  // Roles an actor may grant: anything below their own, plus handing over the presidency
+  const grantableRoles = CLUB_ROLES.filter(role =>
+    clubRoleRank(role) < actorRank || (currentRole === 'president' && role === 'president')
+  );
+
+  const sortedMembers = [...members].sort((a, b) => clubRoleRank(b.role) - clubRoleRank(a.role));
+
+  const run = async (userId: string, action: () => Promise<void>, successTitle: string) => {
+    setBusyUserId(userId);
+    try {
+      await action();
+      toast({ title: successTitle });
+    } catch (error) {
+      toast({
+        title: "Something went wrong",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <div className="rounded-xl border p-4">
+          <h3 className="text-sm font-semibold mb-2">Add members</h3>
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search students by name or username..."
+          />
+          {query.trim().length >= 2 && (
+            <ul className="mt-2 space-y-1">
+              {searching ? (
+                <li className="text-xs text-muted-foreground py-2">Searching...</li>
+              ) : users.length === 0 ? (
+                <li className="text-xs text-muted-foreground py-2">No users found</li>
+              ) : (
+                users.map(u => (
+                  <li key={u.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-muted">
+                    <span className="text-sm">{u.full_name} <span className="text-muted-foreground">@{u.username}</span></span>
+                    {memberIds.has(u.id) ? (
+                      <span className="text-xs text-muted-foreground">Member</span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyUserId === u.id}
+                        onClick={() => run(u.id, () => onAddMember(u.id), `${u.full_name} added to the club`)}
+                      >
+                        <UserPlus className="h-3 w-3 mr-1" />
+                        Add
+                      </Button>
+                    )}
+                  </li>
+                ))
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {sortedMembers.map(member => {
+          const editable = canManage && member.user_id !== currentUserId && clubRoleRank(member.role) < actorRank;
+          return (
+            <div key={member.id} className="flex items-center gap-3 p-3 rounded-xl border">
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={member.profile?.profile_pic_url || undefined} />
+                <AvatarFallback>{member.profile?.full_name?.[0] || 'U'}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{member.profile?.full_name}</div>
+                <div className="text-xs text-muted-foreground">@{member.profile?.username}</div>
+              </div>
+              {editable ? (
+                <Select
+                  value={member.role}
+                  onValueChange={(role: ClubRole) =>
+                    run(member.user_id, () => onSetRole(member.user_id, role), `Role updated to ${role}`)
+                  }
+                  disabled={busyUserId === member.user_id}
+                >
+                  <SelectTrigger className="w-[120px] h-8 capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={member.role} className="capitalize">{member.role}</SelectItem>
+                    {grantableRoles.filter(role => role !== member.role).map(role => (
+                      <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
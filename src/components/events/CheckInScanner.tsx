@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Camera, CameraOff, CheckCircle2, AlertTriangle, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { useEventCheckIn, type CheckInResult } from "@/hooks/useEventCheckIn";
+import type { CampusEvent } from "@/hooks/useEvents";
+
+// Minimal typing for the Shape Detection API, which lib.dom doesn't ship yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Ignore repeat reads of the same code while it's still in front of the camera
+const RESCAN_COOLDOWN_MS = 3000;
+
+export function CheckInScanner({ event }: { event: CampusEvent }) {
+  const { attendance, expected, loading, checkInWithCode, manualCheckIn } = useEventCheckIn(event.id);
+  const [code, setCode] = useState("");
+  const [search, setSearch] = useState("");
+  const [lastResult, setLastResult] = useState<CheckInResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  const cameraSupported = !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+  const checkedIn = new Map(attendance.map(a => [a.user_id, a]));
+
+  const submitCode = async (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+
+    setBusy(true);
+    try {
+      setLastResult(await checkInWithCode(trimmed));
+    } catch (error) {
+      setLastResult({ success: false, error: error instanceof Error ? error.message : 'Check-in failed' });
+    } finally {
+      setBusy(false);
+      setCode("");
+    }
+  };
+
+  const handleManualCheckIn = async (userId: string) => {
+    setBusy(true);
+    try {
+      setLastResult(await manualCheckIn(userId));
+    } catch (error) {
+      setLastResult({ success: false, error: error instanceof Error ? error.message : 'Check-in failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Camera scanning loop
+  useEffect(() => {
+    if (!cameraOn) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          const [barcode] = await detector.detect(videoRef.current).catch(() => []);
+          if (!barcode) return;
+
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (last && last.code === barcode.rawValue && now - last.at < RESCAN_COOLDOWN_MS) return;
+
+          lastScanRef.current = { code: barcode.rawValue, at: now };
+          submitCode(barcode.rawValue);
+        }, 500);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        setCameraError('Could not access the camera. Check your browser permissions.');
+        setCameraOn(false);
+      }
+    };
+
+    setCameraError(null);
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn]);
+
+  const filteredExpected = expected.filter(a => {
+    const query = search.trim().toLowerCase();
+    if (!query) return true;
+    return a.profile?.full_name?.toLowerCase().includes(query) || a.profile?.username?.toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          <span className="font-semibold">{attendance.length}</span> checked in
+          <span className="text-muted-foreground"> / {event.going_count} going</span>
+        </div>
+        {cameraSupported && (
+          <Button size="sm" variant={cameraOn ? "outline" : "default"} onClick={() => setCameraOn(on => !on)}>
+            {cameraOn ? <CameraOff className="w-4 h-4 mr-1" /> : <Camera className="w-4 h-4 mr-1" />}
+            {cameraOn ? 'Stop camera' : 'Scan QR codes'}
+          </Button>
+        )}
+      </div>
+
+      {cameraOn && (
+        <video ref={videoRef} className="w-full rounded-xl bg-black aspect-video object-cover" muted playsInline />
+      )}
+      {cameraError && <p className="text-xs text-destructive">{cameraError}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitCode(code);
+        }}
+        className="flex gap-2"
+      >
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Enter or scan a check-in code"
+          className="font-mono text-xs"
+          disabled={busy}
+          autoFocus={!cameraSupported}
+        />
+        <Button type="submit" disabled={busy || !code.trim()}>Check in</Button>
+      </form>
+
+      {lastResult && (
+        <div
+          className={`flex items-center gap-2 rounded-xl border p-3 text-sm ${
+            lastResult.success
+              ? 'border-green-200 bg-green-50 text-green-800'
+              : lastResult.duplicate
+                ? 'border-amber-200 bg-amber-50 text-amber-800'
+                : 'border-red-200 bg-red-50 text-red-800'
+          }`}
+          role="status"
+        >
+          {lastResult.success ? (
+            <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+          ) : lastResult.duplicate ? (
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-4 h-4 flex-shrink-0" />
+          )}
+          <span>
+            {lastResult.success
+              ? `${lastResult.full_name} checked in`
+              : lastResult.duplicate && lastResult.checked_in_at
+                ? `${lastResult.full_name} already checked in at ${format(new Date(lastResult.checked_in_at), 'h:mm a')}`
+                : lastResult.error}
+          </span>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Manual check-in</h3>
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search attendees..."
+          className="mb-2"
+        />
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {loading ? (
+            <div className="text-xs text-muted-foreground py-4 text-center">Loading attendees...</div>
+          ) : filteredExpected.length === 0 ? (
+            <div className="text-xs text-muted-foreground py-4 text-center">No RSVP'd attendees found.</div>
+          ) : (
+            filteredExpected.map(attendee => {
+              const record = checkedIn.get(attendee.user_id);
+              return (
+                <div key={attendee.user_id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={attendee.profile?.profile_pic_url || undefined} />
+                    <AvatarFallback>{attendee.profile?.full_name?.[0] || 'U'}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{attendee.profile?.full_name}</div>
+                    <div className="text-xs text-muted-foreground capitalize">{attendee.status.replace('_', ' ')}</div>
+                  </div>
+                  {record ? (
+                    <span className="text-xs text-green-700 flex items-center gap-1">
+                      <CheckCircle2 className="w-3 h-3" />
+                      {format(new Date(record.checked_in_at), 'h:mm a')}
+                    </span>
+                  ) : (
+                    <Button size="sm" variant="outline" className="h-7" disabled={busy} onClick={() => handleManualCheckIn(attendee.user_id)}>
+                      Check in
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
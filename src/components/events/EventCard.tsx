@@ -0,0 +1,160 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Ban, CalendarDays, CalendarPlus, MapPin, QrCode, Repeat, ScanLine, Trash2, Users } from "lucide-react";
+import { RsvpButtons } from "./RsvpButtons";
+import {
+  formatEventDate,
+  formatRecurrence,
+  getEventIcsUrl,
+  isEventPast,
+  isRescheduledOccurrence,
+  type CampusEvent,
+  type RsvpStatus
+} from "@/hooks/useEvents";
+
+interface EventCardProps {
+  event: CampusEvent;
+  canManage?: boolean;
+  onRsvp: (eventId: string, status: Exclude<RsvpStatus, 'waitlisted'>) => Promise<RsvpStatus>;
+  onCancel?: (eventId: string) => void;
+  onDelete?: (eventId: string) => void;
+  onShowCheckInCode?: (event: CampusEvent) => void;
+  onOpenCheckIn?: (event: CampusEvent) => void;
+  // Upcoming dates of the same series not shown as their own card
+  moreDates?: number;
+  onShowDates?: (event: CampusEvent) => void;
+}
+
+export function EventCard({
+  event,
+  canManage,
+  onRsvp,
+  onCancel,
+  onDelete,
+  onShowCheckInCode,
+  onOpenCheckIn,
+  moreDates,
+  onShowDates
+}: EventCardProps) {
+  const past = isEventPast(event);
+  const cancelled = !!event.cancelled_at;
+  const isFull = event.capacity !== null && event.going_count >= event.capacity;
+
+  return (
+    <Card className="rounded-2xl overflow-hidden transition-transform duration-200 hover:-translate-y-1 flex flex-col">
+      {event.image_url ? (
+        <img src={event.image_url} alt="" className="h-[120px] w-full object-cover" />
+      ) : (
+        <div className="h-[120px] w-full bg-muted" aria-label={`${event.name} image`} />
+      )}
+      <CardContent className="p-4 space-y-2 flex-1 flex flex-col">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-sm font-semibold truncate">{event.name}</div>
+            {event.organizer_name && (
+              <div className="text-xs text-muted-foreground truncate">By: {event.organizer_name}</div>
+            )}
+          </div>
+          <div className="flex items-center">
+            {!cancelled && !past && event.my_status === 'going' && onShowCheckInCode && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 text-muted-foreground"
+                onClick={() => onShowCheckInCode(event)}
+                aria-label="Show my check-in code"
+              >
+                <QrCode className="h-3 w-3" />
+              </Button>
+            )}
+            {!cancelled && event.start_date && (
+              <Button asChild size="sm" variant="ghost" className="h-6 w-6 p-0 text-muted-foreground">
+                <a href={getEventIcsUrl(event.id)} download aria-label={`Add ${event.name} to calendar`}>
+                  <CalendarPlus className="h-3 w-3" />
+                </a>
+              </Button>
+            )}
+            {canManage && !past && !cancelled && onCancel && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 text-muted-foreground"
+                onClick={() => onCancel(event.id)}
+                aria-label={`Cancel ${event.name}`}
+              >
+                <Ban className="h-3 w-3" />
+              </Button>
+            )}
+            {canManage && (past || cancelled) && onDelete && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 text-muted-foreground"
+                onClick={() => onDelete(event.id)}
+                aria-label={`Delete ${event.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div className="flex items-center gap-1">
+            <CalendarDays className="h-3 w-3" />
+            {formatEventDate(event)}
+            {isRescheduledOccurrence(event) && <Badge variant="outline" className="ml-1 h-4 px-1 text-[10px]">Moved</Badge>}
+          </div>
+          {event.recurrence && (
+            <div className="flex items-center gap-1">
+              <Repeat className="h-3 w-3" />
+              <span className="truncate">{formatRecurrence(event.recurrence)}</span>
+              {onShowDates && (
+                <Button variant="link" size="sm" className="h-auto p-0 ml-auto text-xs" onClick={() => onShowDates(event)}>
+                  {moreDates ? `+${moreDates} more` : 'All dates'}
+                </Button>
+              )}
+            </div>
+          )}
+          {event.location && (
+            <div className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              <span className="truncate">{event.location}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            <Users className="h-3 w-3" />
+            {event.going_count}{event.capacity ? `/${event.capacity}` : ''} going
+            {event.maybe_count > 0 && ` • ${event.maybe_count} maybe`}
+            {event.waitlist_count > 0 && ` • ${event.waitlist_count} waitlisted`}
+          </div>
+        </div>
+
+        {event.my_status === 'waitlisted' && event.waitlist_position && (
+          <Badge variant="secondary" className="w-fit">#{event.waitlist_position} on the waitlist</Badge>
+        )}
+
+        <div className="mt-auto pt-2 space-y-2">
+          {cancelled ? (
+            <Badge variant="destructive" className="w-full justify-center">Cancelled</Badge>
+          ) : past ? (
+            <div className="text-xs text-muted-foreground text-center">This event has ended</div>
+          ) : (
+            <RsvpButtons
+              status={event.my_status}
+              isFull={isFull}
+              onRsvp={(status) => onRsvp(event.id, status)}
+            />
+          )}
+          {canManage && !cancelled && onOpenCheckIn && (
+            <Button size="sm" variant="secondary" className="h-7 w-full text-xs" onClick={() => onOpenCheckIn(event)}>
+              <ScanLine className="h-3 w-3 mr-1" />
+              Check-in
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatRecurrence, type EventRecurrence, type RecurrenceFrequency } from "@/hooks/useEvents";
+
+const MAX_OCCURRENCES = 100;
+
+const frequencies: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'daily', label: 'Daily', unit: 'day' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+];
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface RecurrenceFieldsProps {
+  recurrence: EventRecurrence | null;
+  startDate: string;
+  onChange: (recurrence: EventRecurrence | null) => void;
+  disabled?: boolean;
+}
+
+export function RecurrenceFields({ recurrence, startDate, onChange, disabled }: RecurrenceFieldsProps) {
+  const startDay = startDate ? new Date(startDate).getDay() : new Date().getDay();
+  const unit = frequencies.find(f => f.value === recurrence?.frequency)?.unit;
+
+  const handleFrequencyChange = (value: string) => {
+    if (value === 'none') {
+      onChange(null);
+      return;
+    }
+
+    const frequency = value as RecurrenceFrequency;
+    onChange({
+      frequency,
+      repeat_interval: recurrence?.repeat_interval ?? 1,
+      weekdays: frequency === 'weekly' ? (recurrence?.weekdays.length ? recurrence.weekdays : [startDay]) : [],
+      until_date: recurrence?.until_date ?? null,
+      occurrence_count: recurrence ? recurrence.occurrence_count : 10
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700">Repeats</Label>
+        <Select value={recurrence?.frequency ?? 'none'} onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            {frequencies.map(f => (
+              <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {recurrence && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={12}
+              value={recurrence.repeat_interval}
+              onChange={(e) => onChange({ ...recurrence, repeat_interval: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 12) })}
+              className="w-16 h-8"
+              disabled={disabled}
+              aria-label="Repeat interval"
+            />
+            <span>{unit}{recurrence.repeat_interval > 1 ? 's' : ''}</span>
+          </div>
+
+          {recurrence.frequency === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              value={recurrence.weekdays.map(String)}
+              onValueChange={(values) => values.length > 0 && onChange({ ...recurrence, weekdays: values.map(Number) })}
+              className="justify-start"
+              disabled={disabled}
+            >
+              {weekdays.map((name, day) => (
+                <ToggleGroupItem key={day} value={String(day)} size="sm" className="h-8 w-8 p-0" aria-label={`Repeat on ${name}`}>
+                  {name[0]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select
+              value={recurrence.until_date !== null ? 'until' : 'count'}
+              onValueChange={(mode) => onChange(
+                mode === 'until'
+                  ? { ...recurrence, until_date: startDate.slice(0, 10), occurrence_count: null }
+                  : { ...recurrence, until_date: null, occurrence_count: 10 }
+              )}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+              </SelectContent>
+            </Select>
+            {recurrence.until_date !== null ? (
+              <Input
+                type="date"
+                value={recurrence.until_date}
+                min={startDate.slice(0, 10) || undefined}
+                onChange={(e) => onChange({ ...recurrence, until_date: e.target.value })}
+                className="h-8 flex-1"
+                disabled={disabled}
+                aria-label="Repeat until"
+              />
+            ) : (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_OCCURRENCES}
+                  value={recurrence.occurrence_count ?? ''}
+                  onChange={(e) => onChange({
+                    ...recurrence,
+                    occurrence_count: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_OCCURRENCES)
+                  })}
+                  className="w-20 h-8"
+                  disabled={disabled}
+                  aria-label="Number of occurrences"
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {formatRecurrence(recurrence)}. Each date gets its own RSVPs, up to {MAX_OCCURRENCES} dates.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { RsvpStatus } from "@/hooks/useEvents";
+
+type RsvpChoice = Exclude<RsvpStatus, 'waitlisted'>;
+
+const choices: { value: RsvpChoice; label: string }[] = [
+  { value: 'going', label: 'Going' },
+  { value: 'maybe', label: 'Maybe' },
+  { value: 'not_going', label: "Can't go" },
+];
+
+interface RsvpButtonsProps {
+  status: RsvpStatus | null;
+  isFull?: boolean;
+  disabled?: boolean;
+  onRsvp: (status: RsvpChoice) => Promise<RsvpStatus>;
+}
+
+export function RsvpButtons({ status, isFull, disabled, onRsvp }: RsvpButtonsProps) {
+  const [pending, setPending] = useState<RsvpChoice | null>(null);
+  const { toast } = useToast();
+
+  const handleRsvp = async (choice: RsvpChoice) => {
+    setPending(choice);
+    try {
+      const result = await onRsvp(choice);
+      if (result === 'waitlisted' && status !== 'waitlisted') {
+        toast({
+          title: "You're on the waitlist",
+          description: "This event is full. We'll notify you if a spot opens up.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to update RSVP",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-1">
+      {choices.map(({ value, label }) => {
+        // A waitlisted attendee is still "going" from their point of view
+        const active = status === value || (value === 'going' && status === 'waitlisted');
+        return (
+          <Button
+            key={value}
+            type="button"
+            size="sm"
+            variant={active ? "default" : "outline"}
+            className="h-7 px-2 text-xs flex-1"
+            onClick={() => handleRsvp(value)}
+            disabled={disabled || pending !== null || active}
+          >
+            {value === 'going' && status === 'waitlisted'
+              ? 'Waitlisted'
+              : value === 'going' && isFull && !active
+                ? 'Join waitlist'
+                : label}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
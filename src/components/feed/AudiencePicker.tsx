@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import { useUserSearch } from "@/hooks/useUserSearch";
+import type { PostAudienceTarget, PostAudienceType } from "@/hooks/usePosts";
+
+interface AudiencePickerProps {
+  type: PostAudienceType;
+  selected: PostAudienceTarget[];
+  options: PostAudienceTarget[];
+  onChange: (selected: PostAudienceTarget[]) => void;
+  disabled?: boolean;
+}
+
+export function AudiencePicker({ type, selected, options, onChange, disabled }: AudiencePickerProps) {
+  const [query, setQuery] = useState("");
+  const { users, loading } = useUserSearch(type === 'person' ? query : '');
+
+  const selectedIds = new Set(selected.map(t => t.id));
+  const available = options.filter(o => o.type === type && !selectedIds.has(o.id));
+
+  const add = (target: PostAudienceTarget) => {
+    if (selectedIds.has(target.id)) return;
+    onChange([...selected, target]);
+    setQuery("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(target => (
+            <Badge key={target.id} variant="secondary" className="gap-1 pr-1">
+              {target.name}
+              <button
+                type="button"
+                onClick={() => onChange(selected.filter(t => t.id !== target.id))}
+                disabled={disabled}
+                className="rounded-full hover:bg-muted-foreground/20"
+                aria-label={`Remove ${target.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {type === 'person' ? (
+        <div className="relative">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search people by name or username..."
+            disabled={disabled}
+          />
+          {query.trim().length >= 2 && (
+            <div className="absolute z-10 mt-1 w-full rounded-lg border bg-popover shadow-md max-h-48 overflow-y-auto">
+              {loading ? (
+                <div className="p-2 text-xs text-muted-foreground">Searching...</div>
+              ) : users.filter(u => !selectedIds.has(u.id)).length === 0 ? (
+                <div className="p-2 text-xs text-muted-foreground">No people found.</div>
+              ) : (
+                users
+                  .filter(u => !selectedIds.has(u.id))
+                  .map(u => (
+                    <button
+                      key={u.id}
+                      type="button"
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+                      onClick={() => add({ type: 'person', id: u.id, name: u.full_name })}
+                    >
+                      {u.full_name} <span className="text-xs text-muted-foreground">@{u.username}</span>
+                    </button>
+                  ))
+              )}
+            </div>
+          )}
+        </div>
+      ) : available.length > 0 ? (
+        <Select
+          value=""
+          onValueChange={(id) => {
+            const target = available.find(o => o.id === id);
+            if (target) add(target);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={type === 'group' ? 'Add a group' : 'Add a club'} />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map(o => (
+              <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : selected.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          You aren't a member of any {type === 'group' ? 'groups' : 'clubs'} yet.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { EyeOff, Flag, Pencil, Send, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { isEditedComment, type CommentThread as Thread } from "@/hooks/useComments";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { MentionText } from "@/components/mentions/MentionText";
+import { ReportModal } from "@/components/modals/ReportModal";
+
+// Replies below this depth are still threaded, just not indented further
+const MAX_INDENT_DEPTH = 3;
+
+const countReplies = (thread: Thread): number =>
+  thread.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+
+const containsComment = (thread: Thread, commentId: string): boolean =>
+  thread.replies.some(reply => reply.id === commentId || containsComment(reply, commentId));
+
+interface CommentThreadProps {
+  thread: Thread;
+  currentUserId?: string;
+  depth?: number;
+  focusCommentId?: string | null;
+  onReply: (content: string, parentId: string) => Promise<unknown>;
+  onEdit: (commentId: string, content: string) => Promise<boolean>;
+  onDelete: (commentId: string) => Promise<boolean>;
+}
+
+export function CommentThread({ thread, currentUserId, depth = 0, focusCommentId, onReply, onEdit, onDelete }: CommentThreadProps) {
+  // Collapsed threads still open up when a linked comment is inside them
+  const [showReplies, setShowReplies] = useState(
+    depth === 0 || (!!focusCommentId && containsComment(thread, focusCommentId))
+  );
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState(thread.content);
+  const [reporting, setReporting] = useState(false);
+
+  const isAuthor = thread.author_id === currentUserId;
+  const replyCount = countReplies(thread);
+
+  const handleReply = async () => {
+    if (!replyText.trim()) return;
+
+    const result = await onReply(replyText, thread.id);
+    if (result) {
+      setReplyText("");
+      setReplying(false);
+      setShowReplies(true);
+    }
+  };
+
+  const handleEdit = async () => {
+    if (!editText.trim()) return;
+
+    if (editText.trim() === thread.content || await onEdit(thread.id, editText)) {
+      setEditing(false);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        id={`comment-${thread.id}`}
+        className={`flex gap-3 ${thread.id === focusCommentId ? 'rounded-lg ring-2 ring-primary/50 p-1' : ''}`}
+      >
+        <Avatar className={depth === 0 ? "h-8 w-8" : "h-6 w-6"}>
+          <AvatarFallback>{thread.author?.full_name?.[0] || 'U'}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="bg-muted rounded-lg px-3 py-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">{thread.author?.full_name}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(thread.created_at), { addSuffix: true })}
+                  {isEditedComment(thread) && ' • edited'}
+                </span>
+                {isAuthor && !editing && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setEditText(thread.content);
+                      setEditing(true);
+                    }}
+                    className="h-6 w-6 p-0"
+                    aria-label="Edit comment"
+                  >
+                    <Pencil size={12} />
+                  </Button>
+                )}
+                {isAuthor && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDelete(thread.id)}
+                    className="h-6 w-6 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                    aria-label="Delete comment"
+                  >
+                    <Trash2 size={12} />
+                  </Button>
+                )}
+                {currentUserId && !isAuthor && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setReporting(true)}
+                    className="h-6 w-6 p-0 text-muted-foreground"
+                    aria-label="Report comment"
+                  >
+                    <Flag size={12} />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {editing ? (
+              <div className="mt-1 space-y-2">
+                <MentionInput
+                  multiline
+                  value={editText}
+                  onValueChange={setEditText}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleEdit();
+                    } else if (e.key === 'Escape') {
+                      setEditing(false);
+                    }
+                  }}
+                  className="min-h-[60px] text-sm bg-background"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleEdit} disabled={!editText.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm mt-1 whitespace-pre-wrap break-words">
+                <MentionText text={thread.content} />
+              </p>
+            )}
+            {thread.hidden_at && (
+              <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                <EyeOff size={12} /> Hidden by a moderator. Only you can see it.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3 mt-1 px-1 text-xs text-muted-foreground">
+            {currentUserId && (
+              <button onClick={() => setReplying(!replying)} className="hover:text-foreground hover:underline">
+                Reply
+              </button>
+            )}
+            {replyCount > 0 && (
+              <button onClick={() => setShowReplies(!showReplies)} className="hover:text-foreground hover:underline">
+                {showReplies ? 'Hide replies' : `View ${replyCount} repl${replyCount !== 1 ? 'ies' : 'y'}`}
+              </button>
+            )}
+          </div>
+
+          {replying && (
+            <div className="flex gap-2 mt-2">
+              <MentionInput
+                placeholder={`Reply to ${thread.author?.full_name || 'comment'}...`}
+                value={replyText}
+                onValueChange={setReplyText}
+                onKeyDown={(e) => e.key === 'Enter' && handleReply()}
+                containerClassName="flex-1"
+                className="h-8 px-3 py-1.5 rounded-lg text-sm focus-visible:ring-primary"
+                autoFocus
+              />
+              <Button size="sm" onClick={handleReply} disabled={!replyText.trim()}>
+                <Send size={14} />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {currentUserId && !isAuthor && (
+        <ReportModal
+          open={reporting}
+          onOpenChange={setReporting}
+          targetType="comment"
+          targetId={thread.id}
+        />
+      )}
+
+      {showReplies && thread.replies.length > 0 && (
+        <div className={`mt-3 space-y-3 ${depth < MAX_INDENT_DEPTH ? 'ml-11 border-l pl-3' : ''}`}>
+          {thread.replies.map(reply => (
+            <CommentThread
+              key={reply.id}
+              thread={reply}
+              currentUserId={currentUserId}
+              depth={depth + 1}
+              focusCommentId={focusCommentId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import { PostSkeleton } from "@/components/feed/PostSkeleton";
+
+interface FeedLoadMoreProps {
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+// Sits under the last post and loads the next page as it scrolls into view
+export function FeedLoadMore({ hasMore, loadingMore, onLoadMore }: FeedLoadMoreProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore();
+      },
+      // Start loading a little before the end of the list is reached
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef}>
+      {loadingMore ? (
+        <PostSkeleton />
+      ) : !hasMore && (
+        <p className="text-center text-xs text-muted-foreground py-4">You're all caught up</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface NewPostsPillProps {
+  count: number;
+  onShow: () => void;
+}
+
+// Announces posts that arrived while reading, without moving the list
+export function NewPostsPill({ count, onShow }: NewPostsPillProps) {
+  if (count === 0) return null;
+
+  return (
+    <div className="sticky top-4 z-10 flex justify-center h-0 overflow-visible">
+      <Button size="sm" className="rounded-full shadow-md h-8" onClick={onShow}>
+        <ArrowUp className="h-3 w-3 mr-1" />
+        {count} new post{count !== 1 ? 's' : ''}
+      </Button>
+    </div>
+  );
+}
@@ -1,13 +1,36 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { MessageCircle, Share2, MessageSquareMore, Send, Trash2 } from "lucide-react";
-import { useState } from "react";
+import { MessageCircle, Share2, MessageSquareMore, Send, MoreHorizontal, Pencil, Trash2, Bookmark, Flag, EyeOff } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useFriends } from "@/hooks/useFriends";
 import { useComments } from "@/hooks/useComments";
-import { formatDistanceToNow } from "date-fns";
+import { usePosts, type Post as DbPost } from "@/hooks/usePosts";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { usePostReactions } from "@/hooks/usePostReactions";
+import { ReactionButton, ReactionSummary } from "@/components/feed/PostReactions";
+import { CommentThread } from "@/components/feed/CommentThread";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { MentionText } from "@/components/mentions/MentionText";
+import { useScrollIntoView } from "@/hooks/useScrollIntoView";
+import { PollCard } from "@/components/polls/PollCard";
+import { LinkPreviewCard } from "@/components/links/LinkPreviewCard";
+import { imageSrcSet, imageVariantUrl } from "@/lib/images";
+import { PostRevisionsModal } from "@/components/modals/PostRevisionsModal";
+import { ReportModal } from "@/components/modals/ReportModal";
 
 export interface Post {
   id: string;
@@ -18,16 +41,75 @@ export interface Post {
   text: string;
   media_urls?: string[] | null;
   author_id?: string;
+  edited_at?: string | null;
+  hidden_at?: string | null;
+  isPoll?: boolean;
 }
 
-export function PostCard({ post }: { post: Post }) {
+// Transform database post to UI post format
+export const toPostCardPost = (dbPost: DbPost): Post => {
+  const initials = dbPost.author?.full_name
+    ?.split(' ')
+    .map((n: string) => n[0])
+    .join('')
+    .toUpperCase() || 'U';
+
+  const skills = dbPost.author?.skills || [];
+  const subtitle = [
+    dbPost.author?.branch,
+    dbPost.author?.year_of_study,
+    ...skills.slice(0, 2)
+  ].filter(Boolean).join(', ');
+
+  return {
+    id: dbPost.id,
+    author: dbPost.author?.full_name || 'Unknown User',
+    initials,
+    year: dbPost.author?.year_of_study || '',
+    subtitle,
+    text: dbPost.content,
+    media_urls: dbPost.media_urls,
+    author_id: dbPost.author_id,
+    edited_at: dbPost.edited_at,
+    hidden_at: dbPost.hidden_at,
+    isPoll: dbPost.post_type === 'poll',
+  };
+};
+
+interface PostCardProps {
+  post: Post;
+  // Set when the post is opened from a notification link
+  highlighted?: boolean;
+  focusCommentId?: string | null;
+}
+
+export function PostCard({ post, highlighted, focusCommentId }: PostCardProps) {
   const [showFullText, setShowFullText] = useState(false);
-  const [showComments, setShowComments] = useState(false);
+  const [showComments, setShowComments] = useState(!!focusCommentId);
   const [commentText, setCommentText] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState(post.text);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reporting, setReporting] = useState(false);
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { updatePost, deletePost } = usePosts();
+  const { isSaved, toggleSave } = useBookmarks();
   const { friends } = useFriends();
-  const { comments, loading: commentsLoading, createComment, deleteComment } = useComments(post.id);
+  const { comments, threads, loading: commentsLoading, createComment, updateComment, deleteComment } = useComments(post.id);
+  const { reactions, counts, myReaction, react } = usePostReactions(post.id);
+
+  useEffect(() => {
+    if (focusCommentId) setShowComments(true);
+  }, [focusCommentId]);
+
+  useScrollIntoView(highlighted && !focusCommentId ? `post-${post.id}` : null, true);
+  useScrollIntoView(
+    focusCommentId ? `comment-${focusCommentId}` : null,
+    showComments && comments.some(comment => comment.id === focusCommentId)
+  );
   
   const isLongText = post.text.length > 200;
   const displayText = showFullText ? post.text : post.text.slice(0, 200);
@@ -35,6 +117,8 @@ export function PostCard({ post }: { post: Post }) {
   
   // Check if user is already connected to post author
   const isConnected = friends.some(friend => friend.id === post.author_id);
+  const isAuthor = !!user && post.author_id === user.id;
+  const saved = isSaved(post.id);
   
   const handleChatClick = () => {
     if (post.author_id && isConnected) {
@@ -46,6 +130,22 @@ export function PostCard({ post }: { post: Post }) {
     setShowComments(!showComments);
   };
 
+  const handleSaveEdit = async () => {
+    if (!editText.trim()) return;
+
+    if (editText.trim() === post.text) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (await updatePost(post.id, editText)) setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSubmitComment = async () => {
     if (!commentText.trim()) return;
     
@@ -55,13 +155,9 @@ export function PostCard({ post }: { post: Post }) {
     }
   };
 
-  const handleDeleteComment = async (commentId: string) => {
-    await deleteComment(commentId);
-  };
-
   return (
-    <article className="mb-4">
-      <Card className="rounded-2xl shadow-sm">
+    <article id={`post-${post.id}`} className="mb-4">
+      <Card className={`rounded-2xl shadow-sm ${highlighted ? 'ring-2 ring-primary/50' : ''}`}>
         <CardContent className="p-5">
           <header className="flex items-start justify-between">
             <div className="flex items-center gap-3">
@@ -70,33 +166,133 @@ export function PostCard({ post }: { post: Post }) {
               </Avatar>
               <div>
                 <div className="text-sm font-semibold">{post.author}</div>
-                <div className="text-xs text-muted-foreground">{post.year} • {post.subtitle}</div>
+                <div className="text-xs text-muted-foreground">
+                  {post.year} • {post.subtitle}
+                  {post.edited_at && (
+                    <button onClick={() => setShowHistory(true)} className="ml-1 hover:underline">
+                      • edited
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
-            {!isConnected && post.author_id !== user?.id && (
-              <Button variant="outline" size="sm">Connect</Button>
-            )}
+            <div className="flex items-center gap-1">
+              {!isConnected && !isAuthor && (
+                <Button variant="outline" size="sm">Connect</Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => toggleSave(post.id)}
+                aria-label={saved ? "Remove from saved" : "Save post"}
+                aria-pressed={saved}
+              >
+                <Bookmark size={16} className={saved ? "fill-current text-primary" : ""} />
+              </Button>
+              {isAuthor && !editing && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Post options">
+                      <MoreHorizontal size={16} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onClick={() => {
+                        setEditText(post.text);
+                        setEditing(true);
+                      }}
+                    >
+                      <Pencil className="mr-2 h-4 w-4" /> Edit post
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setConfirmDelete(true)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" /> Delete post
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {user && !isAuthor && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Post options">
+                      <MoreHorizontal size={16} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setReporting(true)}>
+                      <Flag className="mr-2 h-4 w-4" /> Report post
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
           </header>
 
+          {post.hidden_at && (
+            <div className="mt-3 flex items-center gap-2 rounded-lg bg-muted px-3 py-2 text-xs text-muted-foreground">
+              <EyeOff className="h-3.5 w-3.5" />
+              A moderator hid this post. Only you can see it.
+            </div>
+          )}
+
           <section className="mt-4 text-sm text-foreground">
-            <p>
-              {displayText}
-              {isLongText && (
-                <button 
-                  onClick={() => setShowFullText(!showFullText)}
-                  className="text-primary hover:underline ml-1"
-                >
-                  {showFullText ? 'see less' : 'see more'}
-                </button>
-              )}
-            </p>
+            {editing ? (
+              <div className="space-y-2">
+                <MentionInput
+                  multiline
+                  value={editText}
+                  onValueChange={setEditText}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setEditing(false);
+                  }}
+                  className="min-h-24 text-sm"
+                  disabled={saving}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(false)} disabled={saving}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleSaveEdit} disabled={saving || !editText.trim()}>
+                    {saving ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p>
+                <MentionText text={displayText} hashtags />
+                {isLongText && (
+                  <button 
+                    onClick={() => setShowFullText(!showFullText)}
+                    className="text-primary hover:underline ml-1"
+                  >
+                    {showFullText ? 'see less' : 'see more'}
+                  </button>
+                )}
+              </p>
+            )}
+            {/* Link preview - attached media takes its place */}
+            {!editing && !hasMedia && !post.isPoll && (
+              <LinkPreviewCard text={post.text} className="mt-3" />
+            )}
             {/* Media preview - only show if media exists */}
             {hasMedia && (
               <div className="mt-4 grid gap-2">
                 {post.media_urls?.map((url, index) => (
                   <div key={index} className="rounded-xl overflow-hidden">
                     {url.includes('image') || url.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
-                      <img src={url} alt="Post media" className="w-full h-auto max-h-96 object-cover" />
+                      <img
+                        src={imageVariantUrl(url, 'medium')}
+                        srcSet={imageSrcSet(url)}
+                        sizes="(max-width: 768px) 100vw, 640px"
+                        alt="Post media"
+                        className="w-full h-auto max-h-96 object-cover"
+                        loading="lazy"
+                      />
                     ) : url.includes('video') || url.match(/\.(mp4|webm|ogg)$/i) ? (
                       <video controls className="w-full h-auto max-h-96">
                         <source src={url} />
@@ -110,9 +306,22 @@ export function PostCard({ post }: { post: Post }) {
                 ))}
               </div>
             )}
+            {post.isPoll && <PollCard parent="post" parentId={post.id} />}
           </section>
 
-          <div className="mt-4 grid grid-cols-3 divide-x rounded-lg border">
+          {(reactions.length > 0 || comments.length > 0) && (
+            <div className="mt-3 flex items-center justify-between text-xs text-muted-foreground">
+              <ReactionSummary reactions={reactions} counts={counts} />
+              {comments.length > 0 && (
+                <button onClick={() => setShowComments(true)} className="ml-auto hover:underline">
+                  {comments.length} comment{comments.length !== 1 ? 's' : ''}
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="mt-4 grid grid-cols-4 divide-x rounded-lg border">
+            <ReactionButton myReaction={myReaction} onReact={react} />
             <button 
               onClick={handleCommentClick}
               className="flex items-center justify-center gap-2 py-2 text-sm hover:bg-accent/70 transition-transform duration-200 ease-out hover:scale-[1.02]"
@@ -157,13 +366,13 @@ export function PostCard({ post }: { post: Post }) {
                   <AvatarFallback>{user?.user_metadata?.full_name?.[0] || 'U'}</AvatarFallback>
                 </Avatar>
                 <div className="flex-1 flex gap-2">
-                  <input 
-                    type="text" 
+                  <MentionInput
                     placeholder="Write a comment..."
                     value={commentText}
-                    onChange={(e) => setCommentText(e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && handleSubmitComment()}
-                    className="flex-1 px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                    onValueChange={setCommentText}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSubmitComment()}
+                    containerClassName="flex-1"
+                    className="px-3 py-2 rounded-lg text-sm focus-visible:ring-primary"
                   />
                   <Button 
                     size="sm" 
@@ -186,35 +395,16 @@ export function PostCard({ post }: { post: Post }) {
                     No comments yet. Be the first to comment!
                   </div>
                 ) : (
-                  comments.map((comment) => (
-                    <div key={comment.id} className="flex gap-3">
-                      <Avatar className="h-8 w-8">
-                        <AvatarFallback>{comment.author?.full_name?.[0] || 'U'}</AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1">
-                        <div className="bg-muted rounded-lg px-3 py-2">
-                          <div className="flex items-center justify-between">
-                            <span className="text-sm font-medium">{comment.author?.full_name}</span>
-                            <div className="flex items-center gap-2">
-                              <span className="text-xs text-muted-foreground">
-                                {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                              </span>
-                              {comment.author_id === user?.id && (
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => handleDeleteComment(comment.id)}
-                                  className="h-6 w-6 p-0 hover:bg-destructive hover:text-destructive-foreground"
-                                >
-                                  <Trash2 size={12} />
-                                </Button>
-                              )}
-                            </div>
-                          </div>
-                          <p className="text-sm mt-1">{comment.content}</p>
-                        </div>
-                      </div>
-                    </div>
+                  threads.map((thread) => (
+                    <CommentThread
+                      key={thread.id}
+                      thread={thread}
+                      currentUserId={user?.id}
+                      focusCommentId={focusCommentId}
+                      onReply={createComment}
+                      onEdit={updateComment}
+                      onDelete={deleteComment}
+                    />
                   ))
                 )}
               </div>
@@ -222,6 +412,45 @@ export function PostCard({ post }: { post: Post }) {
           )}
         </CardContent>
       </Card>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this post?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its comments, reactions and media will be removed too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletePost(post.id, post.media_urls || [])}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {user && !isAuthor && (
+        <ReportModal
+          open={reporting}
+          onOpenChange={setReporting}
+          targetType="post"
+          targetId={post.id}
+        />
+      )}
+
+      {post.edited_at && (
+        <PostRevisionsModal
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          postId={post.id}
+          currentText={post.text}
+          editedAt={post.edited_at}
+        />
+      )}
     </article>
   );
 }
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ThumbsUp } from "lucide-react";
+import { REACTIONS, type PostReaction, type ReactionType } from "@/hooks/usePostReactions";
+
+const reactionInfo = (type: ReactionType) => REACTIONS.find(r => r.type === type)!;
+
+// Reaction picker used as one of the post's action buttons
+export function ReactionButton({
+  myReaction,
+  onReact
+}: {
+  myReaction: ReactionType | null;
+  onReact: (reaction: ReactionType) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const current = myReaction ? reactionInfo(myReaction) : null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          onClick={(e) => {
+            // A plain click toggles a like; the picker opens on hover
+            e.preventDefault();
+            onReact(myReaction ?? 'like');
+          }}
+          onMouseEnter={() => setOpen(true)}
+          className={`flex items-center justify-center gap-2 py-2 text-sm hover:bg-accent/70 transition-transform duration-200 ease-out hover:scale-[1.02] ${current ? 'text-primary font-medium' : ''}`}
+          aria-pressed={!!current}
+        >
+          {current ? <span>{current.emoji}</span> : <ThumbsUp size={18} />} {current?.label ?? 'Like'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        side="top"
+        className="w-auto p-1 rounded-full flex gap-1"
+        onMouseLeave={() => setOpen(false)}
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        {REACTIONS.map(r => (
+          <button
+            key={r.type}
+            onClick={() => {
+              onReact(r.type);
+              setOpen(false);
+            }}
+            className={`h-9 w-9 rounded-full text-xl transition-transform hover:scale-125 ${myReaction === r.type ? 'bg-accent' : ''}`}
+            aria-label={r.label}
+            title={r.label}
+          >
+            {r.emoji}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Aggregated counts with a "who reacted" list
+export function ReactionSummary({
+  reactions,
+  counts
+}: {
+  reactions: PostReaction[];
+  counts: Record<ReactionType, number>;
+}) {
+  const [filter, setFilter] = useState<ReactionType | 'all'>('all');
+
+  if (reactions.length === 0) return null;
+
+  const used = REACTIONS.filter(r => counts[r.type] > 0).sort((a, b) => counts[b.type] - counts[a.type]);
+  const listed = filter === 'all' ? reactions : reactions.filter(r => r.interaction_type === filter);
+
+  return (
+    <Popover onOpenChange={(open) => !open && setFilter('all')}>
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-1 hover:underline">
+          <span>{used.slice(0, 3).map(r => r.emoji).join('')}</span>
+          {reactions.length}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-2">
+        <div className="flex gap-1 mb-2 border-b pb-2">
+          <button
+            onClick={() => setFilter('all')}
+            className={`px-2 py-1 rounded-md text-xs ${filter === 'all' ? 'bg-accent font-medium' : ''}`}
+          >
+            All {reactions.length}
+          </button>
+          {used.map(r => (
+            <button
+              key={r.type}
+              onClick={() => setFilter(r.type)}
+              className={`px-2 py-1 rounded-md text-xs ${filter === r.type ? 'bg-accent font-medium' : ''}`}
+              aria-label={`${r.label}: ${counts[r.type]}`}
+            >
+              {r.emoji} {counts[r.type]}
+            </button>
+          ))}
+        </div>
+        <div className="max-h-60 overflow-y-auto space-y-1">
+          {listed.map(reaction => (
+            <div key={reaction.id} className="flex items-center gap-2 p-1">
+              <Avatar className="h-7 w-7">
+                <AvatarImage src={reaction.user?.profile_pic_url} />
+                <AvatarFallback>{reaction.user?.full_name?.[0] || 'U'}</AvatarFallback>
+              </Avatar>
+              <span className="text-sm flex-1 truncate">{reaction.user?.full_name || 'You'}</span>
+              <span>{reactionInfo(reaction.interaction_type).emoji}</span>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
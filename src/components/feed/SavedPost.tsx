@@ -0,0 +1,66 @@
+import { formatDistanceToNow } from "date-fns";
+import { Bookmark as BookmarkIcon, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PostCard, toPostCardPost } from "@/components/feed/PostCard";
+import type { Bookmark, BookmarkCollection } from "@/hooks/useBookmarks";
+
+const UNFILED = "unfiled";
+
+interface SavedPostProps {
+  bookmark: Bookmark;
+  collections: BookmarkCollection[];
+  onMove: (bookmarkId: string, collectionId: string | null) => void;
+  onRemove: (bookmarkId: string) => void;
+}
+
+// A saved post with the collection it's filed in. Posts that were deleted
+// or are no longer visible leave a placeholder so the save can be cleared
+export function SavedPost({ bookmark, collections, onMove, onRemove }: SavedPostProps) {
+  return (
+    <div className="mb-4">
+      <div className="mb-1 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>Saved {formatDistanceToNow(new Date(bookmark.created_at), { addSuffix: true })}</span>
+        {bookmark.post && (
+          <Select
+            value={bookmark.collection_id ?? UNFILED}
+            onValueChange={(value) => onMove(bookmark.id, value === UNFILED ? null : value)}
+          >
+            <SelectTrigger className="h-7 w-[160px] text-xs">
+              <SelectValue placeholder="Collection" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNFILED}>No collection</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {bookmark.post ? (
+        <PostCard post={toPostCardPost(bookmark.post)} />
+      ) : (
+        <Card className="rounded-2xl border-dashed shadow-none">
+          <CardContent className="flex items-center justify-between gap-3 p-5">
+            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+              <BookmarkIcon className="h-4 w-4" />
+              This post is no longer available. It may have been deleted by its author.
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() => onRemove(bookmark.id)}
+              aria-label="Remove from saved"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { 
   Plus, 
   Smile, 
@@ -12,7 +11,10 @@ import {
   Camera,
   Volume2,
   Contact,
-  BarChart3
+  BarChart3,
+  Flag,
+  Pencil,
+  Trash2
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -20,30 +22,78 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { type Friend } from "@/pages/Friends";
-import { useChat } from "@/hooks/useChat";
+import { useChat, type ChatMessage } from "@/hooks/useChat";
 import { useAuth } from "@/hooks/useAuth";
+import { usePresence, presenceLabel, useWatchPresence } from "@/hooks/usePresence";
+import { useTypingIndicator, directTypingScope } from "@/hooks/useTypingIndicator";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { MentionText } from "@/components/mentions/MentionText";
+import { ReportModal } from "@/components/modals/ReportModal";
+import { LinkPreviewCard } from "@/components/links/LinkPreviewCard";
+import { VirtualMessageList } from "@/components/messages/VirtualMessageList";
+import { TypingIndicator } from "@/components/messages/TypingIndicator";
+import { imageSrcSet, imageVariantUrl } from "@/lib/images";
+import { canEditMessage } from "@/lib/messages";
 import { formatDistanceToNow } from "date-fns";
 
 interface ChatInterfaceProps {
   friend: Friend;
   onProfileClick: () => void;
+  // Message to scroll to when opened from a notification link
+  focusMessageId?: string | null;
 }
 
-export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
+export function ChatInterface({ friend, onProfileClick, focusMessageId }: ChatInterfaceProps) {
   const { user } = useAuth();
-  const { messages: chatMessages, loading, sendMessage, uploadFile } = useChat(friend.id);
+  const {
+    messages: chatMessages,
+    loading,
+    loadingOlder,
+    hasMore,
+    loadOlderMessages,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    uploadFile
+  } = useChat(friend.id, focusMessageId);
+  const { getStatus } = usePresence();
+  useWatchPresence([friend.id]);
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    user ? directTypingScope(user.id, friend.id) : null
+  );
+  const presence = getStatus(friend.id);
   const [newMessage, setNewMessage] = useState("");
   const [isRecording, setIsRecording] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [deletingMessage, setDeletingMessage] = useState<ChatMessage | null>(null);
 
   const handleSendMessage = async () => {
     if (!newMessage.trim()) return;
 
+    stopTyping();
     await sendMessage(newMessage);
     setNewMessage("");
   };
 
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    notifyTyping(value);
+  };
+
   const handleFileUpload = async (files: FileList | null, type: 'document' | 'media') => {
     if (!files || files.length === 0) return;
 
@@ -99,16 +149,34 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
     input.click();
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content || "");
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId || !editText.trim()) return;
+
+    if (await editMessage(editingMessageId, editText)) {
+      setEditingMessageId(null);
+      setEditText("");
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      handleSendMessage();
+      handleSaveEdit();
+    } else if (e.key === "Escape") {
+      setEditingMessageId(null);
     }
   };
 
-  const getOnlineStatus = () => {
-    if (friend.isOnline) return "Active now";
-    return "Last seen 2h ago"; // This would come from real data
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSendMessage();
+    }
   };
 
   return (
@@ -121,36 +189,46 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
         <div className="flex items-center space-x-3">
           <div className="relative">
             <Avatar className="h-10 w-10">
-              <AvatarImage src={friend.avatar} />
+              <AvatarImage src={friend.avatar && imageVariantUrl(friend.avatar, 'thumb')} />
               <AvatarFallback className="bg-primary/10 text-primary font-semibold">
                 {friend.initials}
               </AvatarFallback>
             </Avatar>
-            {friend.isOnline && (
-              <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-accent border-2 border-background rounded-full" />
+            {presence !== 'offline' && (
+              <div className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 border-2 border-background rounded-full ${
+                presence === 'online' ? "bg-accent" : "bg-amber-400"
+              }`} />
             )}
           </div>
           <div>
             <h2 className="font-semibold text-foreground">{friend.name}</h2>
-            <p className="text-sm text-muted-foreground">{getOnlineStatus()}</p>
+            <p className="text-sm text-muted-foreground">{presenceLabel(presence, friend.lastSeen)}</p>
           </div>
         </div>
       </div>
 
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {loading ? (
-          <div className="flex justify-center items-center h-full">
-            <p className="text-muted-foreground">Loading messages...</p>
-          </div>
-        ) : chatMessages.length === 0 ? (
-          <div className="flex justify-center items-center h-full">
-            <p className="text-muted-foreground">No messages yet. Start a conversation!</p>
-          </div>
-        ) : (
-          chatMessages.map((message) => (
+      {loading ? (
+        <div className="flex-1 flex justify-center items-center p-4">
+          <p className="text-muted-foreground">Loading messages...</p>
+        </div>
+      ) : chatMessages.length === 0 ? (
+        <div className="flex-1 flex justify-center items-center p-4">
+          <p className="text-muted-foreground">No messages yet. Start a conversation!</p>
+        </div>
+      ) : (
+        <VirtualMessageList
+          key={friend.id}
+          items={chatMessages}
+          className="flex-1 overflow-y-auto p-4"
+          itemClassName="pb-4"
+          hasMore={hasMore}
+          loadingMore={loadingOlder}
+          onLoadMore={loadOlderMessages}
+          focusId={focusMessageId}
+          renderItem={(message) => (
             <div
-              key={message.id}
+              id={`message-${message.id}`}
               className={`flex ${message.sender_id === user?.id ? "justify-end" : "justify-start"}`}
             >
               <div
@@ -158,12 +236,40 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
                   message.sender_id === user?.id
                     ? "bg-primary text-primary-foreground rounded-br-md"
                     : "bg-muted text-foreground rounded-bl-md"
-                }`}
+                } ${message.id === focusMessageId ? "ring-2 ring-primary/50 ring-offset-2" : ""}`}
               >
-                {message.content && <p className="text-sm">{message.content}</p>}
+                {message.deleted_at ? (
+                  <p className="text-sm italic opacity-70">This message was deleted</p>
+                ) : editingMessageId === message.id ? (
+                  <div className="space-y-2">
+                    <MentionInput
+                      value={editText}
+                      onValueChange={setEditText}
+                      onKeyDown={handleEditKeyDown}
+                      className="text-foreground"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="secondary" onClick={() => setEditingMessageId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" variant="secondary" onClick={handleSaveEdit} disabled={!editText.trim()}>
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : message.content && (
+                  <p className="text-sm">
+                    <MentionText
+                      text={message.content}
+                      mentionClassName={message.sender_id === user?.id ? "text-primary-foreground underline" : undefined}
+                    />
+                  </p>
+                )}
+                {!message.deleted_at && <LinkPreviewCard text={message.content} className="mt-2" />}
                 
                 {/* Render media attachments */}
-                {message.media_urls && message.media_urls.length > 0 && (
+                {!message.deleted_at && message.media_urls && message.media_urls.length > 0 && (
                   <div className="mt-2 space-y-2">
                     {message.media_urls.map((url, index) => {
                       const isImage = url.match(/\.(jpg|jpeg|png|gif|webp)$/i);
@@ -173,9 +279,12 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
                         return (
                           <img
                             key={index}
-                            src={url}
+                            src={imageVariantUrl(url, 'medium')}
+                            srcSet={imageSrcSet(url)}
+                            sizes="(max-width: 768px) 70vw, 400px"
                             alt="Shared image"
                             className="max-w-full h-auto rounded-lg cursor-pointer hover:opacity-80"
+                            loading="lazy"
                             onClick={() => window.open(url, '_blank')}
                           />
                         );
@@ -206,19 +315,51 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
                   </div>
                 )}
                 
-                <p className={`text-xs mt-1 ${
+                <div className={`flex items-center gap-2 text-xs mt-1 ${
                   message.sender_id === user?.id ? "text-primary-foreground/70" : "text-muted-foreground"
                 }`}>
-                  {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                </p>
+                  <span>{formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}</span>
+                  {message.edited_at && !message.deleted_at && <span>• edited</span>}
+                  {message.hidden_at && <span>• Hidden by a moderator</span>}
+                  {message.sender_id === user?.id && !message.deleted_at && editingMessageId !== message.id && (
+                    <>
+                      {canEditMessage(message.created_at) && (
+                        <button
+                          onClick={() => startEditing(message)}
+                          className="hover:text-primary-foreground"
+                          aria-label="Edit message"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setDeletingMessage(message)}
+                        className="hover:text-primary-foreground"
+                        aria-label="Delete message"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </>
+                  )}
+                  {message.sender_id !== user?.id && !message.deleted_at && (
+                    <button
+                      onClick={() => setReportingMessageId(message.id)}
+                      className="hover:text-foreground"
+                      aria-label="Report message"
+                    >
+                      <Flag className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
-          ))
-        )}
-      </div>
+          )}
+        />
+      )}
 
       {/* Chat Input Section */}
       <div className="p-4 border-t border-border bg-card">
+        <TypingIndicator users={typingUsers} className="pb-2" />
         <div className="flex items-end space-x-2">
           {/* Plus Button with Dropdown */}
           <DropdownMenu>
@@ -283,11 +424,13 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
 
           {/* Message Input */}
           <div className="flex-1 relative">
-            <Input
+            <MentionInput
+              placement="above"
               placeholder={uploading ? "Uploading..." : "Type a message..."}
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              onKeyPress={handleKeyPress}
+              onValueChange={handleMessageChange}
+              onKeyDown={handleKeyPress}
+              onBlur={stopTyping}
               className="pr-12"
               disabled={uploading}
             />
@@ -318,6 +461,35 @@ export function ChatInterface({ friend, onProfileClick }: ChatInterfaceProps) {
           </Button>
         </div>
       </div>
+
+      <AlertDialog open={!!deletingMessage} onOpenChange={(open) => !open && setDeletingMessage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be deleted for everyone in the conversation, attachments included. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingMessage && deleteMessage(deletingMessage)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {reportingMessageId && (
+        <ReportModal
+          open
+          onOpenChange={(open) => !open && setReportingMessageId(null)}
+          targetType="direct_message"
+          targetId={reportingMessageId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
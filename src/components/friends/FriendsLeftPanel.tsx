@@ -5,6 +5,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Search, Sparkles } from "lucide-react";
 import { type Friend } from "@/pages/Friends";
+import { useOnScreenPresence, usePresence } from "@/hooks/usePresence";
+import { imageVariantUrl } from "@/lib/images";
 
 interface FriendsLeftPanelProps {
   friends: Friend[];
@@ -20,6 +22,8 @@ export function FriendsLeftPanel({
   onExploreClick,
 }: FriendsLeftPanelProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const { getStatus } = usePresence();
+  const presenceRef = useOnScreenPresence();
 
   const filteredFriends = friends.filter((friend) =>
     friend.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -56,6 +60,7 @@ export function FriendsLeftPanel({
         {filteredFriends.map((friend) => (
           <div
             key={friend.id}
+            ref={presenceRef(friend.id)}
             onClick={() => onSelectFriend(friend)}
             className={`p-3 rounded-lg cursor-pointer transition-all duration-200 border ${
               selectedFriend?.id === friend.id
@@ -67,13 +72,15 @@ export function FriendsLeftPanel({
               {/* Profile Photo with Online Status */}
               <div className="relative">
                 <Avatar className="h-10 w-10">
-                  <AvatarImage src={friend.avatar} />
+                  <AvatarImage src={friend.avatar && imageVariantUrl(friend.avatar, 'thumb')} />
                   <AvatarFallback className="bg-primary/10 text-primary font-semibold">
                     {friend.initials}
                   </AvatarFallback>
                 </Avatar>
-                {friend.isOnline && (
-                  <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-accent border-2 border-background rounded-full" />
+                {getStatus(friend.id) !== 'offline' && (
+                  <div className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 border-2 border-background rounded-full ${
+                    getStatus(friend.id) === 'online' ? "bg-accent" : "bg-amber-400"
+                  }`} />
                 )}
               </div>
 
@@ -87,13 +94,15 @@ export function FriendsLeftPanel({
                     {friend.lastMessageTime}
                   </span>
                 </div>
-                <p className="text-sm text-muted-foreground truncate">
+                <p className={`text-sm truncate ${
+                  friend.unreadCount ? "text-foreground font-medium" : "text-muted-foreground"
+                }`}>
                   {friend.lastMessage || "No messages yet"}
                 </p>
               </div>
 
               {/* Unread Badge */}
-              {friend.unreadCount && friend.unreadCount > 0 && (
+              {(friend.unreadCount ?? 0) > 0 && (
                 <Badge variant="destructive" className="h-5 min-w-[20px] rounded-full text-xs">
                   {friend.unreadCount}
                 </Badge>
@@ -6,6 +6,7 @@ import { ExploreFriends } from "./ExploreFriends";
 interface FriendsRightPanelProps {
   selectedFriend: Friend | null;
   showExplore: boolean;
+  focusMessageId?: string | null;
   suggestions: FriendSuggestion[];
   onBackToChat: () => void;
   onSelectFriend: (friend: Friend) => void;
@@ -14,6 +15,7 @@ interface FriendsRightPanelProps {
 export function FriendsRightPanel({
   selectedFriend,
   showExplore,
+  focusMessageId,
   suggestions,
   onBackToChat,
   onSelectFriend,
@@ -31,6 +33,7 @@ export function FriendsRightPanel({
     return (
       <ChatInterface
         friend={selectedFriend}
+        focusMessageId={focusMessageId}
         onProfileClick={() => {
           // Navigate to friend's profile
           console.log("Navigate to profile:", selectedFriend.id);
@@ -1,28 +1,94 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Send, Image, File, Video, Users, Globe, Lock } from "lucide-react";
-import { useGroupMessages } from "@/hooks/useGroupMessages";
+import { Send, Image, File, Video, Users, Globe, Lock, BarChart3, Flag, Pencil, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useGroupMessages, type GroupMessage } from "@/hooks/useGroupMessages";
 import { useGroups } from "@/hooks/useGroups";
+import { useAuth } from "@/hooks/useAuth";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { useGroupReadReceipts } from "@/hooks/useGroupReadReceipts";
 import { GroupDetailsSidebar } from "./GroupDetailsSidebar";
+import { SeenByIndicator } from "./SeenByIndicator";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { MentionText } from "@/components/mentions/MentionText";
+import { LinkPreviewCard } from "@/components/links/LinkPreviewCard";
+import { VirtualMessageList } from "@/components/messages/VirtualMessageList";
+import { TypingIndicator } from "@/components/messages/TypingIndicator";
+import { imageSrcSet, imageVariantUrl } from "@/lib/images";
+import { canEditMessage } from "@/lib/messages";
+import { PollCard } from "@/components/polls/PollCard";
+import { CreatePollModal } from "@/components/modals/CreatePollModal";
+import { ReportModal } from "@/components/modals/ReportModal";
+import type { PollDraft } from "@/hooks/usePolls";
+import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 
 interface GroupChatProps {
   selectedGroup: string | null;
+  // Message to scroll to when opened from a notification link
+  focusMessageId?: string | null;
 }
 
-export function GroupChat({ selectedGroup }: GroupChatProps) {
+export function GroupChat({ selectedGroup, focusMessageId }: GroupChatProps) {
   const [newMessage, setNewMessage] = useState("");
   const [isDetailsSidebarOpen, setIsDetailsSidebarOpen] = useState(false);
-  const { messages, loading, sending, sendMessage, uploadMedia } = useGroupMessages(selectedGroup);
+  const [isPollModalOpen, setIsPollModalOpen] = useState(false);
+  const [reportingMessageId, setReportingMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [deletingMessage, setDeletingMessage] = useState<GroupMessage | null>(null);
+  const { user } = useAuth();
+  const {
+    messages,
+    loading,
+    loadingOlder,
+    hasMore,
+    loadOlderMessages,
+    sending,
+    sendMessage,
+    sendPoll,
+    editMessage,
+    deleteMessage,
+    uploadMedia
+  } = useGroupMessages(selectedGroup, focusMessageId);
   const { groups } = useGroups();
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    selectedGroup ? `group:${selectedGroup}` : null
+  );
+
+  const { seenBy, markRead } = useGroupReadReceipts(selectedGroup);
 
   const selectedGroupData = selectedGroup ? groups.find(g => g.id === selectedGroup) : null;
 
+  // Reading the chat moves the read cursor up to the latest message, once
+  // the tab is in view
+  const latestMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (!latestMessageId) return;
+
+    const markLatestRead = () => {
+      if (document.visibilityState === 'visible') markRead(latestMessageId);
+    };
+
+    markLatestRead();
+    document.addEventListener('visibilitychange', markLatestRead);
+    return () => document.removeEventListener('visibilitychange', markLatestRead);
+  }, [latestMessageId, markRead]);
+
   const handleSendMessage = async () => {
     if (!newMessage.trim() || !selectedGroup) return;
 
+    stopTyping();
     try {
       await sendMessage(newMessage);
       setNewMessage("");
@@ -31,6 +97,55 @@ export function GroupChat({ selectedGroup }: GroupChatProps) {
     }
   };
 
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    notifyTyping(value);
+  };
+
+  const handleCreatePoll = async (question: string, draft: PollDraft) => {
+    try {
+      await sendPoll(question, draft);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send poll');
+      return false;
+    }
+  };
+
+  const startEditing = (message: GroupMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessageId || !editText.trim()) return;
+
+    try {
+      await editMessage(editingMessageId, editText);
+      setEditingMessageId(null);
+      setEditText("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to edit message');
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === "Escape") {
+      setEditingMessageId(null);
+    }
+  };
+
+  const handleDeleteMessage = async (message: GroupMessage) => {
+    try {
+      await deleteMessage(message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete message');
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -156,26 +271,38 @@ export function GroupChat({ selectedGroup }: GroupChatProps) {
       </div>
 
       {/* Chat Messages Area */}
-      <div className="chat-messages flex-1 overflow-y-auto p-5 bg-white">
-        {loading ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="animate-spin w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full"></div>
-          </div>
-        ) : messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-center">
-            <div>
-              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <Users className="w-8 h-8 text-gray-400" />
-              </div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">Start the conversation</h3>
-              <p className="text-gray-500 text-sm">Be the first to send a message in this group!</p>
+      {loading ? (
+        <div className="chat-messages flex-1 flex items-center justify-center p-5 bg-white">
+          <div className="animate-spin w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full"></div>
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="chat-messages flex-1 flex items-center justify-center p-5 bg-white text-center">
+          <div>
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Users className="w-8 h-8 text-gray-400" />
             </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Start the conversation</h3>
+            <p className="text-gray-500 text-sm">Be the first to send a message in this group!</p>
           </div>
-        ) : (
-          messages.map((message) => (
-            <div key={message.id} className="message-item flex mb-4 animate-in slide-in-from-bottom-2 duration-300">
+        </div>
+      ) : (
+        <VirtualMessageList
+          key={selectedGroup}
+          items={messages}
+          className="chat-messages flex-1 overflow-y-auto p-5 bg-white"
+          itemClassName="pb-4"
+          estimateSize={88}
+          hasMore={hasMore}
+          loadingMore={loadingOlder}
+          onLoadMore={loadOlderMessages}
+          focusId={focusMessageId}
+          renderItem={(message) => (
+            <div
+              id={`message-${message.id}`}
+              className={`message-item flex ${message.id === focusMessageId ? 'rounded-lg bg-blue-50 ring-2 ring-blue-200' : ''}`}
+            >
               <Avatar className="message-avatar w-8 h-8 mr-3 flex-shrink-0">
-                <AvatarImage src={message.sender.profile_pic_url || undefined} />
+                <AvatarImage src={message.sender.profile_pic_url ? imageVariantUrl(message.sender.profile_pic_url, 'thumb') : undefined} />
                 <AvatarFallback className="text-xs font-semibold bg-gradient-to-br from-blue-500 to-purple-600 text-white">
                   {generateAvatar(message.sender.full_name)}
                 </AvatarFallback>
@@ -189,22 +316,86 @@ export function GroupChat({ selectedGroup }: GroupChatProps) {
                   <span className="message-time text-xs text-gray-400">
                     {formatMessageTime(message.created_at)}
                   </span>
-                  {message.is_edited && (
+                  {message.is_edited && !message.deleted_at && (
                     <span className="text-xs text-gray-400 ml-1">(edited)</span>
                   )}
+                  {message.hidden_at && (
+                    <span className="text-xs text-gray-400 ml-1">(hidden by a moderator)</span>
+                  )}
+                  {user && message.sender_id === user.id && !message.deleted_at && editingMessageId !== message.id && (
+                    <>
+                      {message.message_type !== 'poll' && canEditMessage(message.created_at) && (
+                        <button
+                          onClick={() => startEditing(message)}
+                          className="ml-2 text-gray-300 hover:text-gray-600"
+                          aria-label="Edit message"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setDeletingMessage(message)}
+                        className="ml-2 text-gray-300 hover:text-red-600"
+                        aria-label="Delete message"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                  {user && message.sender_id !== user.id && !message.deleted_at && (
+                    <button
+                      onClick={() => setReportingMessageId(message.id)}
+                      className="ml-2 text-gray-300 hover:text-gray-600"
+                      aria-label="Report message"
+                    >
+                      <Flag className="w-3 h-3" />
+                    </button>
+                  )}
                 </div>
-                <div className="message-text text-sm text-gray-900 leading-relaxed">
-                  {message.content}
-                </div>
+                {message.deleted_at ? (
+                  <div className="message-text text-sm text-gray-400 italic">This message was deleted</div>
+                ) : editingMessageId === message.id ? (
+                  <div className="max-w-md space-y-2">
+                    <MentionInput
+                      value={editText}
+                      onValueChange={setEditText}
+                      onKeyDown={handleEditKeyDown}
+                      className="text-sm"
+                      autoFocus
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditingMessageId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleSaveEdit} disabled={!editText.trim()}>
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="message-text text-sm text-gray-900 leading-relaxed">
+                      <MentionText text={message.content} mentionClassName="text-blue-600" />
+                    </div>
+                    <LinkPreviewCard text={message.content} className="mt-2" />
+                  </>
+                )}
+                {message.message_type === 'poll' && !message.deleted_at && (
+                  <div className="max-w-sm">
+                    <PollCard parent="group_message" parentId={message.id} />
+                  </div>
+                )}
                 
                 {/* Media attachments */}
-                {message.media_urls && message.media_urls.length > 0 && (
+                {!message.deleted_at && message.media_urls && message.media_urls.length > 0 && (
                   <div className="media-attachments mt-2 space-y-2">
                     {message.media_urls.map((url, index) => (
                       <div key={index} className="media-item">
                         {url.includes('image') || /\.(jpg|jpeg|png|gif|webp)$/i.test(url) ? (
                           <img 
-                            src={url} 
+                            src={imageVariantUrl(url, 'medium')}
+                            srcSet={imageSrcSet(url)}
+                            sizes="320px"
                             alt="Shared image" 
                             className="max-w-xs rounded-lg border"
                             loading="lazy"
@@ -224,21 +415,29 @@ export function GroupChat({ selectedGroup }: GroupChatProps) {
                     ))}
                   </div>
                 )}
+
+                {user && message.sender_id === user.id && !message.deleted_at && (
+                  <SeenByIndicator readers={seenBy(message)} />
+                )}
               </div>
             </div>
-          ))
-        )}
-      </div>
+          )}
+        />
+      )}
 
       {/* Message Input Area */}
       <div className="message-input-container p-4 bg-white border-t border-gray-200">
+        <TypingIndicator users={typingUsers} className="pb-2 px-4 text-gray-500" />
         <div className="message-input-wrapper flex items-center bg-gray-50 rounded-full px-4 py-3 border border-gray-200 focus-within:border-blue-500 focus-within:bg-white focus-within:ring-2 focus-within:ring-blue-100 transition-all duration-200">
-          <Input
+          <MentionInput
+            placement="above"
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
+            onValueChange={handleMessageChange}
+            onKeyDown={handleKeyPress}
+            onBlur={stopTyping}
             placeholder="Type a message..."
-            className="message-input flex-1 border-none bg-transparent text-sm text-gray-900 placeholder-gray-500 focus:outline-none resize-none"
+            containerClassName="flex-1"
+            className="message-input border-none bg-transparent text-sm text-gray-900 placeholder-gray-500 focus:outline-none resize-none"
             disabled={sending}
           />
           
@@ -267,6 +466,15 @@ export function GroupChat({ selectedGroup }: GroupChatProps) {
               <Video className="w-4 h-4" />
             </Button>
             
+            <Button
+              onClick={() => setIsPollModalOpen(true)}
+              className="media-button w-8 h-8 p-0 bg-transparent text-gray-500 hover:bg-gray-200 hover:text-blue-600 rounded-full transition-all duration-200"
+              disabled={sending}
+              aria-label="Create poll"
+            >
+              <BarChart3 className="w-4 h-4" />
+            </Button>
+            
             <Button
               onClick={handleSendMessage}
               disabled={!newMessage.trim() || sending}
@@ -278,6 +486,41 @@ export function GroupChat({ selectedGroup }: GroupChatProps) {
         </div>
       </div>
       
+      <CreatePollModal
+        open={isPollModalOpen}
+        onOpenChange={setIsPollModalOpen}
+        onCreate={handleCreatePoll}
+      />
+
+      <AlertDialog open={!!deletingMessage} onOpenChange={(open) => !open && setDeletingMessage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be deleted for everyone in the group, attachments included. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingMessage && handleDeleteMessage(deletingMessage)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {reportingMessageId && (
+        <ReportModal
+          open
+          onOpenChange={(open) => !open && setReportingMessageId(null)}
+          targetType="group_message"
+          targetId={reportingMessageId}
+        />
+      )}
+
       {/* Group Details Sidebar */}
       <GroupDetailsSidebar
         groupId={selectedGroup}
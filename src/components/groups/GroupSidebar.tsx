@@ -1,8 +1,9 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Search, Users, Globe, Lock } from "lucide-react";
+import { Plus, Search, Users, Globe, Lock, CheckCheck } from "lucide-react";
 import { useGroups } from "@/hooks/useGroups";
+import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 
 interface GroupSidebarProps {
@@ -12,9 +13,23 @@ interface GroupSidebarProps {
 }
 
 export function GroupSidebar({ selectedGroup, onGroupSelect, onCreateGroup }: GroupSidebarProps) {
-  const { groups, publicGroups, loading, joinGroup } = useGroups();
+  const { groups, publicGroups, loading, joinGroup, markAllGroupsRead } = useGroups();
   const [showPublicGroups, setShowPublicGroups] = useState(false);
   const [joiningGroupId, setJoiningGroupId] = useState<string | null>(null);
+  const [markingRead, setMarkingRead] = useState(false);
+
+  const hasUnread = groups.some(group => (group.unread_count ?? 0) > 0);
+
+  const handleMarkAllRead = async () => {
+    setMarkingRead(true);
+    try {
+      await markAllGroupsRead();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to mark groups as read');
+    } finally {
+      setMarkingRead(false);
+    }
+  };
 
   const handleJoinGroup = async (groupId: string) => {
     setJoiningGroupId(groupId);
@@ -86,10 +101,20 @@ export function GroupSidebar({ selectedGroup, onGroupSelect, onCreateGroup }: Gr
       </div>
 
       {/* Group Separator */}
-      <div className="group-separator mb-3">
+      <div className="group-separator mb-3 flex items-center justify-between">
         <span className="text-sm font-medium text-gray-500">
           {showPublicGroups ? "Public Groups" : "My Groups"}
         </span>
+        {!showPublicGroups && hasUnread && (
+          <button
+            onClick={handleMarkAllRead}
+            disabled={markingRead}
+            className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            <CheckCheck className="w-3 h-3" />
+            Mark all as read
+          </button>
+        )}
       </div>
 
       {/* Groups List */}
@@ -187,7 +212,7 @@ export function GroupSidebar({ selectedGroup, onGroupSelect, onCreateGroup }: Gr
                   </div>
                   
                   {/* Unread Badge */}
-                  {group.unread_count && group.unread_count > 0 && (
+                  {!!group.unread_count && group.unread_count > 0 && (
                     <Badge 
                       variant="destructive" 
                       className="unread-badge ml-2 min-w-[20px] h-5 text-xs font-semibold rounded-full flex items-center justify-center"
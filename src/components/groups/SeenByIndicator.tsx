@@ -0,0 +1,52 @@
+import { CheckCheck } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import type { GroupReader } from "@/hooks/useGroupReadReceipts";
+import { imageVariantUrl } from "@/lib/images";
+
+interface SeenByIndicatorProps {
+  readers: GroupReader[];
+}
+
+const initials = (name: string) =>
+  name
+    .split(' ')
+    .map(word => word[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+// "Seen by N" under a group message, listing who on hover
+export function SeenByIndicator({ readers }: SeenByIndicatorProps) {
+  if (readers.length === 0) return null;
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <button className="mt-1 inline-flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600">
+          <CheckCheck className="w-3 h-3" />
+          Seen by {readers.length}
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent align="start" className="w-56 p-2">
+        <div className="px-2 pb-1 text-xs font-medium text-gray-500">Seen by</div>
+        <ul className="max-h-60 overflow-y-auto">
+          {readers.map(reader => {
+            const name = reader.profile?.full_name || 'Unknown';
+            return (
+              <li key={reader.user_id} className="flex items-center gap-2 rounded px-2 py-1 text-sm">
+                <Avatar className="w-6 h-6">
+                  <AvatarImage
+                    src={reader.profile?.profile_pic_url ? imageVariantUrl(reader.profile.profile_pic_url, 'thumb') : undefined}
+                  />
+                  <AvatarFallback className="text-[10px]">{initials(name)}</AvatarFallback>
+                </Avatar>
+                <span className="truncate">{name}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
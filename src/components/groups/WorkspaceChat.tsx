@@ -1,16 +1,23 @@
 import { useState } from "react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Send, Image, File, Video } from "lucide-react";
 import { useWorkspaceMessages } from "@/hooks/useWorkspaceMessages";
 import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { MentionText } from "@/components/mentions/MentionText";
+import { LinkPreviewCard } from "@/components/links/LinkPreviewCard";
+import { VirtualMessageList } from "@/components/messages/VirtualMessageList";
+import { TypingIndicator } from "@/components/messages/TypingIndicator";
 
 interface WorkspaceChatProps {
   selectedWorkspace: string | null;
+  // Message to scroll to when opened from a notification link
+  focusMessageId?: string | null;
 }
 
-export function WorkspaceChat({ selectedWorkspace }: WorkspaceChatProps) {
+export function WorkspaceChat({ selectedWorkspace, focusMessageId }: WorkspaceChatProps) {
   const [newMessage, setNewMessage] = useState("");
   const { workspaces } = useWorkspaces();
   const { 
@@ -20,6 +27,9 @@ export function WorkspaceChat({ selectedWorkspace }: WorkspaceChatProps) {
     sendMessage, 
     uploadMedia 
   } = useWorkspaceMessages(selectedWorkspace);
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(
+    selectedWorkspace ? `workspace:${selectedWorkspace}` : null
+  );
 
   const selectedWorkspaceData = selectedWorkspace 
     ? workspaces.find(w => w.id === selectedWorkspace) 
@@ -28,6 +38,7 @@ export function WorkspaceChat({ selectedWorkspace }: WorkspaceChatProps) {
   const handleSendMessage = async () => {
     if (!selectedWorkspace || !newMessage.trim()) return;
     
+    stopTyping();
     try {
       await sendMessage(newMessage);
       setNewMessage(""); // Clear input after sending
@@ -36,6 +47,11 @@ export function WorkspaceChat({ selectedWorkspace }: WorkspaceChatProps) {
     }
   };
 
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    notifyTyping(value);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -105,57 +121,65 @@ export function WorkspaceChat({ selectedWorkspace }: WorkspaceChatProps) {
       </div>
 
       {/* Chat Messages Area */}
-      <div className="chat-messages flex-1 overflow-y-auto p-5 bg-white">
-        {loading && (
-          <div className="text-center py-4 text-gray-500">
-            <p className="text-sm">Loading messages...</p>
-          </div>
-        )}
-        {messages.length === 0 && !loading && (
-          <div className="text-center py-8 text-gray-500">
-            <p className="text-sm">No messages yet</p>
-            <p className="text-xs mt-1">Start the conversation!</p>
-          </div>
-        )}
-        {messages.map((message) => (
-          <div key={message.id} className="message-item flex mb-4 animate-in slide-in-from-bottom-2 duration-300">
-            <Avatar className="message-avatar w-8 h-8 mr-3 flex-shrink-0">
-              <AvatarFallback className="text-xs font-semibold">
-                {message.sender.username?.slice(0, 2).toUpperCase() || 'U'}
-              </AvatarFallback>
-            </Avatar>
-            
-            <div className="message-content flex-1">
-              <div className="message-header flex items-center mb-1">
-                <span className="sender-name text-sm font-semibold text-gray-900 mr-2">
-                  {message.sender.full_name || message.sender.username}
-                </span>
-                <span className="message-time text-xs text-gray-400">
-                  {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </span>
-              </div>
-              <div className="message-text text-sm text-gray-900 leading-relaxed">
-                {message.content}
+      {loading ? (
+        <div className="chat-messages flex-1 p-5 bg-white text-center text-gray-500">
+          <p className="text-sm">Loading messages...</p>
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="chat-messages flex-1 p-5 bg-white text-center text-gray-500">
+          <p className="text-sm">No messages yet</p>
+          <p className="text-xs mt-1">Start the conversation!</p>
+        </div>
+      ) : (
+        <VirtualMessageList
+          key={selectedWorkspace}
+          items={messages}
+          className="chat-messages flex-1 overflow-y-auto p-5 bg-white"
+          itemClassName="pb-4"
+          focusId={focusMessageId}
+          renderItem={(message) => (
+            <div
+              id={`message-${message.id}`}
+              className={`message-item flex ${message.id === focusMessageId ? 'rounded-lg bg-blue-50 ring-2 ring-blue-200' : ''}`}
+            >
+              <Avatar className="message-avatar w-8 h-8 mr-3 flex-shrink-0">
+                <AvatarFallback className="text-xs font-semibold">
+                  {message.sender.username?.slice(0, 2).toUpperCase() || 'U'}
+                </AvatarFallback>
+              </Avatar>
+              
+              <div className="message-content flex-1">
+                <div className="message-header flex items-center mb-1">
+                  <span className="sender-name text-sm font-semibold text-gray-900 mr-2">
+                    {message.sender.full_name || message.sender.username}
+                  </span>
+                  <span className="message-time text-xs text-gray-400">
+                    {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+                <div className="message-text text-sm text-gray-900 leading-relaxed">
+                  <MentionText text={message.content} mentionClassName="text-blue-600" />
+                </div>
+                <LinkPreviewCard text={message.content} className="mt-2" />
               </div>
             </div>
-          </div>
-        ))}
-      </div>
+          )}
+        />
+      )}
 
       {/* Message Input Area */}
       <div className="message-input-container p-4 bg-white border-t border-gray-200">
+        <TypingIndicator users={typingUsers} className="pb-2 px-4 text-gray-500" />
         <div className="message-input-wrapper flex items-center bg-gray-50 rounded-full px-4 py-3 border border-gray-200 focus-within:border-blue-500 focus-within:bg-white focus-within:ring-2 focus-within:ring-blue-100 transition-all duration-200">
-          <Input
+          <MentionInput
+            placement="above"
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={(e) => {
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault();
-                handleSendMessage();
-              }
-            }}
+            onValueChange={handleMessageChange}
+            onKeyDown={handleKeyPress}
+            onBlur={stopTyping}
             placeholder="Type a message..."
-            className="message-input flex-1 border-none bg-transparent text-sm text-gray-900 placeholder-gray-500 focus:outline-none resize-none"
+            containerClassName="flex-1"
+            className="message-input border-none bg-transparent text-sm text-gray-900 placeholder-gray-500 focus:outline-none resize-none"
             disabled={sending}
           />
           
@@ -3,11 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Plus, Search, LogOut, User } from "lucide-react";
+import { Plus, Search, LogOut, User, MessageCircle } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useUserSearch, SearchUser } from "@/hooks/useUserSearch";
+import { useConversations } from "@/hooks/useConversations";
 import { UserProfileModal } from "@/components/modals/UserProfileModal";
 import { NotificationDropdown } from "@/components/notifications/NotificationDropdown";
 
@@ -20,6 +23,8 @@ export function Header({ onOpenCreate }: { onOpenCreate: () => void }) {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const { users, loading } = useUserSearch(q);
+  const { unreadTotal } = useConversations();
+  const navigate = useNavigate();
 
   const handleSignOut = async () => {
     const { error } = await signOut();
@@ -116,6 +121,24 @@ export function Header({ onOpenCreate }: { onOpenCreate: () => void }) {
             <Plus />
           </Button>
           
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative"
+            onClick={() => navigate('/friends')}
+            aria-label={unreadTotal > 0 ? `Messages, ${unreadTotal} unread` : 'Messages'}
+          >
+            <MessageCircle className="h-5 w-5" />
+            {unreadTotal > 0 && (
+              <Badge 
+                variant="destructive" 
+                className="absolute -top-1 -right-1 h-5 w-5 p-0 text-xs flex items-center justify-center"
+              >
+                {unreadTotal > 9 ? '9+' : unreadTotal}
+              </Badge>
+            )}
+          </Button>
+
           <NotificationDropdown />
           
           <DropdownMenu>
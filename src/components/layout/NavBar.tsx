@@ -1,25 +1,34 @@
 import { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Home, Users, Layers, Building2 } from "lucide-react";
+import { Home, Users, Layers, Building2, Bookmark, ShieldAlert } from "lucide-react";
+import { useIsModerator } from "@/hooks/useModeration";
 
 const tabs = [
   { key: "home", label: "Home", Icon: Home, path: "/" },
   { key: "friends", label: "Friends", Icon: Users, path: "/friends" },
   { key: "groups", label: "Groups", Icon: Layers, path: "/groups" },
   { key: "clubs", label: "Clubs", Icon: Building2, path: "/clubs" },
+  { key: "saved", label: "Saved", Icon: Bookmark, path: "/saved" },
 ] as const;
 
+// Only shown to site moderators
+const moderationTab = { key: "moderation", label: "Moderation", Icon: ShieldAlert, path: "/moderation" } as const;
+
+type Tab = typeof tabs[number] | typeof moderationTab;
+
 export function NavBar() {
   const navigate = useNavigate();
   const location = useLocation();
+  const { isModerator } = useIsModerator();
+  const visibleTabs: readonly Tab[] = isModerator ? [...tabs, moderationTab] : tabs;
 
   const getActiveTab = () => {
     const currentPath = location.pathname;
-    return tabs.find(tab => tab.path === currentPath)?.key || "home";
+    return visibleTabs.find(tab => tab.path === currentPath || (tab.path !== "/" && currentPath.startsWith(`${tab.path}/`)))?.key || "home";
   };
 
-  const handleTabClick = (tab: typeof tabs[number]) => {
+  const handleTabClick = (tab: Tab) => {
     navigate(tab.path);
   };
 
@@ -27,7 +36,7 @@ export function NavBar() {
     <nav className="sticky top-16 z-30 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 border-b border-border">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 h-12 flex items-center gap-2">
         <div className="flex items-center gap-2">
-          {tabs.map((tab) => (
+          {visibleTabs.map((tab) => (
             <Button
               key={tab.key}
               variant={getActiveTab() === tab.key ? "primaryTab" : "ghostTab"}
@@ -1,6 +1,7 @@
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useFriends } from "@/hooks/useFriends";
+import { useOnScreenPresence, usePresence } from "@/hooks/usePresence";
 import { useNavigate } from "react-router-dom";
 
 
@@ -18,6 +19,8 @@ const clubs = [
 
 export function SidebarLeft() {
   const { friends, loading } = useFriends();
+  const { getStatus } = usePresence();
+  const presenceRef = useOnScreenPresence();
   const navigate = useNavigate();
 
   const handleFriendClick = (friendId: string) => {
@@ -40,6 +43,7 @@ export function SidebarLeft() {
               </li>
             ) : (
               friends.map((friend) => {
+                const status = getStatus(friend.id);
                 const initials = friend.full_name
                   .split(' ')
                   .map(n => n[0])
@@ -49,6 +53,7 @@ export function SidebarLeft() {
                 return (
                   <li 
                     key={friend.id} 
+                    ref={presenceRef(friend.id)}
                     className="px-3 py-3 hover:bg-accent/70 transition-colors cursor-pointer"
                     onClick={() => handleFriendClick(friend.id)}
                   >
@@ -61,15 +66,15 @@ export function SidebarLeft() {
                         <div className="flex items-center justify-between">
                           <span className="text-sm font-medium truncate">{friend.full_name}</span>
                           <span className="text-xs text-muted-foreground">
-                            {friend.is_online ? 'Active' : 'Offline'}
+                            {status === 'online' ? 'Active' : status === 'idle' ? 'Idle' : 'Offline'}
                           </span>
                         </div>
                         <div className="text-xs text-muted-foreground truncate">
                           {friend.branch} • {friend.year_of_study}
                         </div>
                       </div>
-                      {friend.is_online && (
-                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                      {status !== 'offline' && (
+                        <div className={`w-2 h-2 rounded-full ${status === 'online' ? 'bg-green-500' : 'bg-amber-400'}`}></div>
                       )}
                     </div>
                   </li>
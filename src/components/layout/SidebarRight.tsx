@@ -1,38 +1,162 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarSync, Plus, TrendingUp } from "lucide-react";
+import { RsvpButtons } from "@/components/events/RsvpButtons";
+import { CalendarFeedModal } from "@/components/modals/CalendarFeedModal";
+import { CreateEventModal } from "@/components/modals/CreateEventModal";
+import { useTrendingTags } from "@/hooks/useTrendingTags";
+import { collapseSeries, formatEventDate, formatRecurrence, isEventPast, useEvents, useUpcomingRsvps, type EventOrganizer, type RsvpStatus } from "@/hooks/useEvents";
 
-const events = [
-  {
-    title: "Tech Week",
-    by: "Programming Club",
-    desc: "Join us for a week of workshops and talks...",
-    date: "Dec 15-20, 2024",
-  },
-  {
-    title: "Study Group",
-    by: "CS Students",
-    desc: "Daily problem-solving sessions.",
-    date: "Every Tue & Thu",
-  },
-];
+const statusLabels: Record<RsvpStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: "Can't go",
+  waitlisted: 'Waitlisted',
+};
 
 export function SidebarRight() {
+  const [openCreate, setOpenCreate] = useState(false);
+  const [openFeed, setOpenFeed] = useState(false);
+  const [organizers, setOrganizers] = useState<EventOrganizer[]>([]);
+  const { rsvps, loading } = useUpcomingRsvps();
+  const { events, createEvent, rsvp, getOrganizerOptions } = useEvents();
+  const { tags: trendingTags, loading: trendingLoading } = useTrendingTags();
+
+  // Upcoming events the user hasn't responded to yet, one date per series
+  const suggestions = collapseSeries(events.filter(e => !isEventPast(e) && !e.cancelled_at && !e.my_status))
+    .slice(0, 3);
+
+  const handleOpenCreate = async () => {
+    setOrganizers(await getOrganizerOptions());
+    setOpenCreate(true);
+  };
+
   return (
     <aside className="hidden xl:block w-[280px] flex-shrink-0">
-      <h2 className="text-sm font-semibold text-foreground mb-3">Events</h2>
+      <Card className="rounded-xl mb-6">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm flex items-center gap-2">
+            <TrendingUp className="h-4 w-4" />
+            Trending topics
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {trendingLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="h-4 bg-muted rounded animate-pulse" />
+              ))}
+            </div>
+          ) : trendingTags.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No topics yet. Add a #tag to your next post.</p>
+          ) : (
+            <ul className="space-y-1">
+              {trendingTags.map(({ tag, post_count }) => (
+                <li key={tag}>
+                  <Link
+                    to={`/tags/${tag}`}
+                    className="flex items-center justify-between rounded-md px-2 py-1 -mx-2 text-sm hover:bg-accent"
+                  >
+                    <span className="font-medium truncate">#{tag}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {post_count} post{post_count !== 1 ? 's' : ''}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-foreground">Your Events</h2>
+        <div className="flex">
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setOpenFeed(true)} aria-label="Subscribe to calendar">
+            <CalendarSync className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={handleOpenCreate}>
+            <Plus className="h-3 w-3 mr-1" />
+            New
+          </Button>
+        </div>
+      </div>
       <div className="space-y-3">
-        {events.map((e) => (
-          <Card key={e.title} className="rounded-xl">
-            <CardHeader className="pb-2">
-              <CardTitle className="text-base">{e.title}</CardTitle>
-              <p className="text-xs text-muted-foreground">By: {e.by}</p>
-            </CardHeader>
-            <CardContent className="pt-0">
-              <p className="text-sm text-muted-foreground mb-2">{e.desc}</p>
-              <div className="text-xs">📅 {e.date}</div>
-            </CardContent>
-          </Card>
-        ))}
+        {loading ? (
+          [1, 2].map(i => (
+            <div key={i} className="h-24 bg-muted rounded-xl animate-pulse" />
+          ))
+        ) : rsvps.length === 0 ? (
+          <p className="text-xs text-muted-foreground">You haven't RSVP'd to any upcoming events.</p>
+        ) : (
+          rsvps.map(({ status, event }) => (
+            <Card key={event.id} className="rounded-xl">
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-base">{event.name}</CardTitle>
+                  <Badge
+                    variant={event.cancelled_at ? 'destructive' : status === 'going' ? 'default' : 'secondary'}
+                    className="rounded-full whitespace-nowrap"
+                  >
+                    {event.cancelled_at
+                      ? 'Cancelled'
+                      : status === 'waitlisted' && event.waitlist_position
+                        ? `Waitlist #${event.waitlist_position}`
+                        : statusLabels[status]}
+                  </Badge>
+                </div>
+                {event.organizer_name && (
+                  <p className="text-xs text-muted-foreground">By: {event.organizer_name}</p>
+                )}
+              </CardHeader>
+              <CardContent className="pt-0">
+                {event.location && <p className="text-sm text-muted-foreground mb-2">📍 {event.location}</p>}
+                <div className="text-xs">📅 {formatEventDate(event)}</div>
+                {event.recurrence && <div className="text-xs text-muted-foreground mt-1">🔁 {formatRecurrence(event.recurrence)}</div>}
+              </CardContent>
+            </Card>
+          ))
+        )}
       </div>
+
+      {suggestions.length > 0 && (
+        <>
+          <h2 className="text-sm font-semibold text-foreground mt-6 mb-3">Happening Soon</h2>
+          <div className="space-y-3">
+            {suggestions.map(event => (
+              <Card key={event.id} className="rounded-xl">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">{event.name}</CardTitle>
+                  {event.organizer_name && (
+                    <p className="text-xs text-muted-foreground">By: {event.organizer_name}</p>
+                  )}
+                </CardHeader>
+                <CardContent className="pt-0 space-y-2">
+                  <div className="text-xs">📅 {formatEventDate(event)}</div>
+                  {event.recurrence && <div className="text-xs text-muted-foreground">🔁 {formatRecurrence(event.recurrence)}</div>}
+                  <RsvpButtons
+                    status={event.my_status}
+                    isFull={event.capacity !== null && event.going_count >= event.capacity}
+                    onRsvp={(status) => rsvp(event.id, status)}
+                  />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      <CalendarFeedModal open={openFeed} onOpenChange={setOpenFeed} />
+
+      <CreateEventModal
+        open={openCreate}
+        onOpenChange={setOpenCreate}
+        organizers={organizers}
+        onCreateEvent={createEvent}
+      />
     </aside>
   );
 }
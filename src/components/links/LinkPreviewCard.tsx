@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { firstLink } from "@/lib/links";
+import { useLinkPreview } from "@/hooks/useLinkPreview";
+
+interface LinkPreviewCardProps {
+  // The card previews the first link in the text, if there is one
+  text: string | null | undefined;
+  className?: string;
+}
+
+// A compact card with the title, description and image of the first link in
+// a post or message. Renders nothing until there's a preview worth showing
+export function LinkPreviewCard({ text, className }: LinkPreviewCardProps) {
+  const url = firstLink(text);
+  const { preview } = useLinkPreview(url);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (!url || !preview?.title) return null;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      onClick={(e) => e.stopPropagation()}
+      className={cn(
+        "flex max-w-md overflow-hidden rounded-xl border bg-background text-left text-foreground transition-colors hover:bg-accent/50",
+        className
+      )}
+    >
+      {preview.image_url && !imageFailed && (
+        <img
+          src={preview.image_url}
+          alt=""
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          onError={() => setImageFailed(true)}
+          className="h-20 w-20 flex-shrink-0 object-cover"
+        />
+      )}
+      <div className="min-w-0 flex-1 px-3 py-2">
+        {preview.site_name && (
+          <div className="truncate text-xs text-muted-foreground">{preview.site_name}</div>
+        )}
+        <div className="truncate text-sm font-medium">{preview.title}</div>
+        {preview.description && (
+          <p className="line-clamp-2 text-xs text-muted-foreground">{preview.description}</p>
+        )}
+      </div>
+    </a>
+  );
+}
@@ -0,0 +1,151 @@
+import { useRef, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { getMentionQuery } from "@/lib/mentions";
+import { useUserSearch, type SearchUser } from "@/hooks/useUserSearch";
+
+type MentionElement = HTMLInputElement | HTMLTextAreaElement;
+
+type NativeProps = Omit<
+  React.InputHTMLAttributes<HTMLInputElement> & React.TextareaHTMLAttributes<HTMLTextAreaElement>,
+  'value' | 'onChange' | 'onKeyDown' | 'onBlur'
+>;
+
+interface MentionInputProps extends NativeProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  onKeyDown?: (e: React.KeyboardEvent<MentionElement>) => void;
+  onBlur?: (e: React.FocusEvent<MentionElement>) => void;
+  multiline?: boolean;
+  // Chat composers sit at the bottom of the screen, so they open upwards
+  placement?: 'above' | 'below';
+  containerClassName?: string;
+}
+
+// Text input with @username autocomplete. While suggestions are showing,
+// arrow keys, Enter, Tab and Escape drive the list instead of the caller's
+// onKeyDown, so Enter picks a person rather than sending the message
+export function MentionInput({
+  value,
+  onValueChange,
+  onKeyDown,
+  onBlur,
+  multiline,
+  placement = 'below',
+  containerClassName,
+  ...props
+}: MentionInputProps) {
+  const ref = useRef<MentionElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { users } = useUserSearch(query ?? '');
+
+  const open = query !== null && query.length >= 2 && users.length > 0;
+
+  const updateQuery = (el: MentionElement) => {
+    const caret = el.selectionStart ?? el.value.length;
+    setQuery(getMentionQuery(el.value.slice(0, caret)));
+    setActiveIndex(0);
+  };
+
+  const selectUser = (selected: SearchUser) => {
+    const el = ref.current;
+    if (!el) return;
+
+    const caret = el.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[A-Za-z0-9_.-]*$/, `@${selected.username} `);
+    onValueChange(before + value.slice(caret));
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<MentionElement>) => {
+    if (open) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + step + users.length) % users.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectUser(users[Math.min(activeIndex, users.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  const sharedProps = {
+    ...props,
+    value,
+    onChange: (e: React.ChangeEvent<MentionElement>) => {
+      onValueChange(e.target.value);
+      updateQuery(e.target);
+    },
+    onKeyDown: handleKeyDown,
+    onKeyUp: (e: React.KeyboardEvent<MentionElement>) => {
+      if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(e.key)) updateQuery(e.currentTarget);
+    },
+    onClick: (e: React.MouseEvent<MentionElement>) => updateQuery(e.currentTarget),
+    onBlur: (e: React.FocusEvent<MentionElement>) => {
+      setQuery(null);
+      onBlur?.(e);
+    },
+  };
+
+  return (
+    <div className={cn("relative", containerClassName)}>
+      {multiline ? (
+        <Textarea ref={ref as React.Ref<HTMLTextAreaElement>} {...sharedProps} />
+      ) : (
+        <Input ref={ref as React.Ref<HTMLInputElement>} {...sharedProps} />
+      )}
+
+      {open && (
+        <div
+          role="listbox"
+          className={cn(
+            "absolute left-0 z-50 w-64 rounded-lg border bg-popover text-popover-foreground shadow-md py-1",
+            placement === 'above' ? "bottom-full mb-1" : "top-full mt-1"
+          )}
+        >
+          {users.map((u, index) => (
+            <button
+              key={u.id}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the caret position survives
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectUser(u)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm",
+                index === activeIndex && "bg-accent"
+              )}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={u.profile_pic_url || undefined} />
+                <AvatarFallback className="text-xs">{u.full_name?.[0] || 'U'}</AvatarFallback>
+              </Avatar>
+              <span className="truncate">{u.full_name}</span>
+              <span className="text-xs text-muted-foreground truncate">@{u.username}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { Fragment, useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { splitMentions } from "@/lib/mentions";
+import { splitHashtags } from "@/lib/hashtags";
+import { splitLinks } from "@/lib/links";
+import type { SearchUser } from "@/hooks/useUserSearch";
+import { UserProfileModal } from "@/components/modals/UserProfileModal";
+
+interface MentionTextProps {
+  text: string;
+  mentionClassName?: string;
+  // Only post content has topic pages
+  hashtags?: boolean;
+}
+
+// Renders text with web links, @username mentions as links to the person's
+// profile, and optionally #tags as links to their topic page
+export function MentionText({ text, mentionClassName, hashtags }: MentionTextProps) {
+  const [profile, setProfile] = useState<SearchUser | null>(null);
+
+  const openProfile = async (username: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, username, branch, year_of_study, skills, profile_pic_url, bio')
+      .eq('username', username)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error loading mentioned profile:', error);
+      toast.error(`Couldn't find @${username}`);
+      return;
+    }
+
+    setProfile(data);
+  };
+
+  const renderMentions = (segment: string) =>
+    splitMentions(segment).map((part, index) =>
+      part.type === 'mention' ? (
+        <button
+          key={index}
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            openProfile(part.username);
+          }}
+          className={cn("font-medium text-primary hover:underline", mentionClassName)}
+        >
+          {part.text}
+        </button>
+      ) : hashtags ? (
+        <span key={index}>
+          {splitHashtags(part.text).map((piece, pieceIndex) =>
+            piece.type === 'tag' ? (
+              <Link
+                key={pieceIndex}
+                to={`/tags/${piece.tag}`}
+                onClick={(e) => e.stopPropagation()}
+                className="font-medium text-primary hover:underline"
+              >
+                {piece.text}
+              </Link>
+            ) : (
+              piece.text
+            )
+          )}
+        </span>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    );
+
+  return (
+    <>
+      {splitLinks(text).map((segment, segmentIndex) =>
+        segment.type === 'link' ? (
+          <a
+            key={segmentIndex}
+            href={segment.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            onClick={(e) => e.stopPropagation()}
+            className={cn("break-all text-primary underline-offset-2 hover:underline", mentionClassName)}
+          >
+            {segment.text}
+          </a>
+        ) : (
+          <Fragment key={segmentIndex}>{renderMentions(segment.text)}</Fragment>
+        )
+      )}
+      {profile && (
+        <UserProfileModal
+          user={profile}
+          open={!!profile}
+          onOpenChange={(open) => !open && setProfile(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+import type { TypingUser } from "@/hooks/useTypingIndicator";
+import { cn } from "@/lib/utils";
+
+interface TypingIndicatorProps {
+  users: TypingUser[];
+  className?: string;
+}
+
+const describeTypists = (users: TypingUser[]) => {
+  if (users.length === 1) return `${users[0].name} is typing…`;
+  if (users.length === 2) return `${users[0].name} and ${users[1].name} are typing…`;
+  return "Several people are typing…";
+};
+
+// "X is typing…" above a chat's message input
+export function TypingIndicator({ users, className }: TypingIndicatorProps) {
+  if (users.length === 0) return null;
+
+  return (
+    <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)} aria-live="polite">
+      <span className="flex gap-0.5" aria-hidden>
+        {[0, 150, 300].map(delay => (
+          <span
+            key={delay}
+            className="h-1 w-1 rounded-full bg-muted-foreground animate-bounce"
+            style={{ animationDelay: `${delay}ms` }}
+          />
+        ))}
+      </span>
+      <span className="truncate">{describeTypists(users)}</span>
+    </div>
+  );
+}
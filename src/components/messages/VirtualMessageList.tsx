@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type ReactNode } from "react";
+
+interface VirtualMessageListProps<T extends { id: string }> {
+  // Oldest first
+  items: T[];
+  renderItem: (item: T) => ReactNode;
+  // Height assumed for messages that haven't been rendered yet
+  estimateSize?: number;
+  className?: string;
+  // Spacing between messages belongs here, not on the rendered message, so
+  // it is included when the message is measured
+  itemClassName?: string;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Message scrolled to once it's loaded, e.g. from a notification link
+  focusId?: string | null;
+}
+
+// Pixels rendered beyond each edge of the viewport
+const OVERSCAN = 800;
+// Older messages are requested within this distance of the top
+const LOAD_MORE_THRESHOLD = 400;
+// Within this distance of the bottom the list follows new messages
+const BOTTOM_THRESHOLD = 40;
+
+// Index of the item at a scroll offset; offsets[i] is where item i starts
+const findIndex = (offsets: number[], offset: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+function MeasuredItem({
+  id,
+  index,
+  observer,
+  className,
+  children,
+}: {
+  id: string;
+  index: number;
+  observer: ResizeObserver | null;
+  className?: string;
+  children: ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const node = ref.current;
+    if (!node || !observer) return;
+    observer.observe(node);
+    return () => observer.unobserve(node);
+  }, [observer]);
+
+  return (
+    <div ref={ref} data-id={id} data-index={index} className={className}>
+      {children}
+    </div>
+  );
+}
+
+// A chat history that only renders the messages near the viewport, so
+// conversations with thousands of messages stay smooth. It opens at the
+// bottom, follows new messages while scrolled to the bottom, and keeps the
+// visible messages in place when older ones are loaded above them.
+// Remount it (with a key) when switching conversations
+export function VirtualMessageList<T extends { id: string }>({
+  items,
+  renderItem,
+  estimateSize = 72,
+  className,
+  itemClassName,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  focusId,
+}: VirtualMessageListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sizes = useRef(new Map<string, number>());
+  const [, setSizesVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const stickToBottom = useRef(true);
+  const firstId = useRef<string | null>(null);
+  const focusedId = useRef<string | null>(null);
+  const loadRequested = useRef(false);
+
+  const offsets = [0];
+  for (const item of items) {
+    offsets.push(offsets[offsets.length - 1] + (sizes.current.get(item.id) ?? estimateSize));
+  }
+  const totalHeight = offsets[items.length];
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  const start = findIndex(offsets, viewport.top - OVERSCAN);
+  const end = Math.min(items.length, findIndex(offsets, viewport.top + viewport.height + OVERSCAN) + 1);
+
+  const syncViewport = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = el.scrollTop;
+    const height = el.clientHeight;
+    setViewport(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+  }, []);
+
+  // Measures rendered messages. When one above the viewport changes size,
+  // the scroll position moves with it so the visible messages stay put
+  const observer = useMemo(() => {
+    if (typeof ResizeObserver === 'undefined') return null;
+
+    return new ResizeObserver(entries => {
+      const el = scrollRef.current;
+      let changed = false;
+
+      for (const entry of entries) {
+        const node = entry.target as HTMLElement;
+        const id = node.dataset.id!;
+        const size = node.offsetHeight;
+        const previous = sizes.current.get(id);
+        if (previous === size) continue;
+
+        sizes.current.set(id, size);
+        changed = true;
+
+        const offset = offsetsRef.current[Number(node.dataset.index)] ?? 0;
+        if (el && !stickToBottom.current && offset < el.scrollTop) {
+          el.scrollTop += size - (previous ?? estimateSize);
+        }
+      }
+
+      if (changed) setSizesVersion(version => version + 1);
+    });
+  }, [estimateSize]);
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  // Track the viewport's height
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (stickToBottom.current) el.scrollTop = el.scrollHeight;
+      syncViewport();
+    });
+    resizeObserver.observe(el);
+    return () => resizeObserver.disconnect();
+  }, [syncViewport]);
+
+  // Older messages were prepended: the previous first message moved down by
+  // their height, so the scroll position follows it
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const previous = firstId.current;
+    firstId.current = items[0]?.id ?? null;
+    if (!el || !previous || previous === firstId.current) return;
+
+    const index = items.findIndex(item => item.id === previous);
+    if (index > 0) {
+      el.scrollTop += offsetsRef.current[index];
+      syncViewport();
+    }
+  }, [items, syncViewport]);
+
+  // Follow new messages while at the bottom
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !stickToBottom.current) return;
+
+    el.scrollTop = el.scrollHeight;
+    syncViewport();
+  }, [items, totalHeight, syncViewport]);
+
+  // Center the focused message the first time it's loaded
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !focusId || focusedId.current === focusId) return;
+
+    const index = items.findIndex(item => item.id === focusId);
+    if (index < 0) return;
+
+    focusedId.current = focusId;
+    stickToBottom.current = false;
+    const size = offsetsRef.current[index + 1] - offsetsRef.current[index];
+    el.scrollTop = Math.max(0, offsetsRef.current[index] - el.clientHeight / 2 + size / 2);
+    syncViewport();
+  }, [items, focusId, syncViewport]);
+
+  const maybeLoadMore = () => {
+    const el = scrollRef.current;
+    if (!el || !onLoadMore || !hasMore || loadingMore || loadRequested.current) return;
+    if (el.scrollTop > LOAD_MORE_THRESHOLD) return;
+
+    loadRequested.current = true;
+    onLoadMore();
+  };
+
+  // A request is settled once loading finishes or the messages change. Also
+  // covers a first page too short to scroll
+  useEffect(() => {
+    loadRequested.current = false;
+    maybeLoadMore();
+  }, [items, hasMore, loadingMore]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_THRESHOLD;
+    syncViewport();
+    maybeLoadMore();
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className={className}
+      // The list anchors the scroll position itself
+      style={{ overflowAnchor: 'none' }}
+    >
+      {loadingMore && (
+        <div className="sticky top-0 z-10 flex h-0 justify-center overflow-visible">
+          <span className="mt-1 rounded-full border bg-background px-3 py-1 text-xs text-muted-foreground shadow-sm">
+            Loading earlier messages...
+          </span>
+        </div>
+      )}
+      <div style={{ height: offsets[start] }} />
+      {items.slice(start, end).map((item, i) => (
+        <MeasuredItem key={item.id} id={item.id} index={start + i} observer={observer} className={itemClassName}>
+          {renderItem(item)}
+        </MeasuredItem>
+      ))}
+      <div style={{ height: totalHeight - offsets[end] }} />
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCalendarFeed } from "@/hooks/useCalendarFeed";
+
+interface CalendarFeedModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CalendarFeedModal({ open, onOpenChange }: CalendarFeedModalProps) {
+  const { feedUrl, webcalUrl, loading, loadFeedUrl, regenerateFeedUrl } = useCalendarFeed();
+  const { toast } = useToast();
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Calendar feed unavailable",
+      description: error instanceof Error ? error.message : "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  useEffect(() => {
+    if (open && !feedUrl) loadFeedUrl().catch(showError);
+  }, [open]);
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Feed URL copied" });
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      await regenerateFeedUrl();
+      toast({
+        title: "New feed URL created",
+        description: "Calendars subscribed with the old URL will stop updating.",
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900">
+            Subscribe to your calendar
+          </DialogTitle>
+          <DialogDescription>
+            Events you RSVP to and tasks assigned to you, kept in sync with Google Calendar, Outlook or Apple Calendar.
+            Keep this link private — anyone with it can see your schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input value={feedUrl ?? (loading ? 'Loading...' : '')} readOnly className="font-mono text-xs" />
+            <Button type="button" variant="outline" onClick={handleCopy} disabled={!feedUrl}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="flex justify-between gap-3">
+            <Button type="button" variant="ghost" size="sm" onClick={handleRegenerate} disabled={loading}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reset link
+            </Button>
+            <Button asChild disabled={!webcalUrl}>
+              <a href={webcalUrl ?? undefined}>Open in calendar app</a>
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatEventDate, type CampusEvent } from "@/hooks/useEvents";
+
+interface CheckInCodeModalProps {
+  event: CampusEvent | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  getCheckInCode: (eventId: string) => Promise<string>;
+}
+
+export function CheckInCodeModal({ event, open, onOpenChange, getCheckInCode }: CheckInCodeModalProps) {
+  const [code, setCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !event) return;
+
+    let cancelled = false;
+    setCode(null);
+    setError(null);
+
+    getCheckInCode(event.id)
+      .then(result => !cancelled && setCode(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load check-in code'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, event?.id]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[380px]">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900">{event?.name}</DialogTitle>
+          <DialogDescription>
+            {event && formatEventDate(event)}. Show this code to an organizer at the door.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-3 py-2">
+          {error ? (
+            <p className="text-sm text-destructive text-center">{error}</p>
+          ) : code ? (
+            <>
+              <div className="rounded-xl bg-white p-4 border">
+                <QRCodeSVG value={code} size={220} level="M" />
+              </div>
+              <p className="text-[10px] text-muted-foreground font-mono break-all text-center">{code}</p>
+            </>
+          ) : (
+            <div className="h-[252px] w-[252px] bg-muted rounded-xl animate-pulse" />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
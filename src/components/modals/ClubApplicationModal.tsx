@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { Club } from "@/hooks/useClubs";
+
+interface ClubApplicationModalProps {
+  club: Club | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (clubId: string, answers: { question: string; answer: string }[]) => Promise<void>;
+}
+
+export function ClubApplicationModal({ club, open, onOpenChange, onApply }: ClubApplicationModalProps) {
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const questions = club?.application_questions ?? [];
+
+  useEffect(() => {
+    if (open) setAnswers(questions.map(() => ""));
+  }, [open, club?.id]);
+
+  const allAnswered = answers.length === questions.length && answers.every(a => a.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!club || !allAnswered) return;
+
+    setIsLoading(true);
+    try {
+      await onApply(club.id, questions.map((question, i) => ({ question, answer: answers[i].trim() })));
+      toast({
+        title: "Application sent",
+        description: `${club.name} officers will review your application.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error applying to club:', error);
+      toast({
+        title: "Failed to send application",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !isLoading && onOpenChange(v)}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900">
+            Apply to {club?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Club officers review every application. You'll get a notification with their decision.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {questions.map((question, index) => (
+            <div key={index} className="space-y-2">
+              <Label htmlFor={`application-answer-${index}`} className="text-sm font-medium text-gray-700">
+                {question} *
+              </Label>
+              <Textarea
+                id={`application-answer-${index}`}
+                value={answers[index] ?? ""}
+                onChange={(e) => setAnswers(prev => prev.map((a, i) => (i === index ? e.target.value : a)))}
+                className="w-full min-h-[70px] resize-none"
+                disabled={isLoading}
+                maxLength={1000}
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !allAnswered}>
+              {isLoading ? "Sending..." : "Submit Application"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface CollectionNameModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initialName?: string;
+  submitLabel: string;
+  // Resolves true once the name has been saved
+  onSubmit: (name: string) => Promise<boolean>;
+}
+
+// Names a new saved-posts collection, or renames one
+export function CollectionNameModal({ open, onOpenChange, title, initialName = "", submitLabel, onSubmit }: CollectionNameModalProps) {
+  const [name, setName] = useState(initialName);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      if (await onSubmit(name)) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+          }}
+          placeholder="e.g. Internship leads"
+          maxLength={60}
+          disabled={saving}
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || !name.trim()}>
+            {submitLabel}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { JoinPolicyFields } from "@/components/club/JoinPolicyFields";
+import { useToast } from "@/hooks/use-toast";
+import type { ClubJoinPolicy } from "@/hooks/useClubs";
+
+interface CreateClubModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreateClub: (club: {
+    name: string;
+    description: string;
+    join_policy: ClubJoinPolicy;
+    application_questions: string[];
+  }) => Promise<{ id: string } | null | void>;
+}
+
+export function CreateClubModal({ open, onOpenChange, onCreateClub }: CreateClubModalProps) {
+  const [clubName, setClubName] = useState("");
+  const [description, setDescription] = useState("");
+  const [joinPolicy, setJoinPolicy] = useState<ClubJoinPolicy>('open');
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { toast } = useToast();
+
+  const resetForm = () => {
+    setClubName("");
+    setDescription("");
+    setJoinPolicy('open');
+    setQuestions([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clubName.trim()) return;
+
+    setIsLoading(true);
+
+    try {
+      await onCreateClub({
+        name: clubName.trim(),
+        description: description.trim(),
+        join_policy: joinPolicy,
+        application_questions: joinPolicy === 'application' ? questions : []
+      });
+
+      toast({
+        title: "Club created successfully!",
+        description: `"${clubName}" is ready. You're its president.`,
+      });
+
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating club:', error);
+      toast({
+        title: "Failed to create club",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      resetForm();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900">
+            Create New Club
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="club-name" className="text-sm font-medium text-gray-700">
+              Club Name *
+            </Label>
+            <Input
+              id="club-name"
+              value={clubName}
+              onChange={(e) => setClubName(e.target.value)}
+              placeholder="Enter club name"
+              className="w-full"
+              required
+              disabled={isLoading}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="club-description" className="text-sm font-medium text-gray-700">
+              Description
+            </Label>
+            <Textarea
+              id="club-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this club about?"
+              className="w-full min-h-[80px] resize-none"
+              disabled={isLoading}
+              maxLength={500}
+            />
+          </div>
+
+          <JoinPolicyFields
+            joinPolicy={joinPolicy}
+            questions={questions}
+            onJoinPolicyChange={setJoinPolicy}
+            onQuestionsChange={setQuestions}
+            disabled={isLoading}
+          />
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={isLoading}
+              className="px-6 py-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!clubName.trim() || isLoading}
+              className="px-6 py-2"
+            >
+              {isLoading ? "Creating..." : "Create Club"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
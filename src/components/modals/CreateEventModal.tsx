@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RecurrenceFields } from "@/components/events/RecurrenceFields";
+import { useToast } from "@/hooks/use-toast";
+import type { EventOrganizer, EventRecurrence, NewEvent } from "@/hooks/useEvents";
+
+interface CreateEventModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizers: EventOrganizer[];
+  onCreateEvent: (event: NewEvent) => Promise<unknown>;
+}
+
+const organizerKey = (o: EventOrganizer) => `${o.type}:${o.id}`;
+
+const organizerLabels: Record<EventOrganizer['type'], string> = {
+  user: 'Personal',
+  club: 'Club',
+  group: 'Group',
+};
+
+export function CreateEventModal({ open, onOpenChange, organizers, onCreateEvent }: CreateEventModalProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [location, setLocation] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [organizer, setOrganizer] = useState("");
+  const [recurrence, setRecurrence] = useState<EventRecurrence | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { toast } = useToast();
+
+  const selectedOrganizer = organizers.find(o => organizerKey(o) === organizer) ?? organizers[0];
+  const endsBeforeStart = !!startDate && !!endDate && new Date(endDate) <= new Date(startDate);
+  const invalidRecurrence = !!recurrence && recurrence.until_date !== null &&
+    (!recurrence.until_date || recurrence.until_date < startDate.slice(0, 10));
+  const canSubmit = !!name.trim() && !!startDate && !!selectedOrganizer && !endsBeforeStart && !invalidRecurrence;
+
+  const resetForm = () => {
+    setName("");
+    setDescription("");
+    setStartDate("");
+    setEndDate("");
+    setLocation("");
+    setCapacity("");
+    setOrganizer("");
+    setRecurrence(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsLoading(true);
+
+    try {
+      await onCreateEvent({
+        name: name.trim(),
+        description: description.trim(),
+        organizer_type: selectedOrganizer.type,
+        organizer_id: selectedOrganizer.id,
+        start_date: new Date(startDate).toISOString(),
+        end_date: endDate ? new Date(endDate).toISOString() : null,
+        location: location.trim() || undefined,
+        capacity: capacity ? parseInt(capacity, 10) : null,
+        recurrence: recurrence ?? undefined
+      });
+
+      toast({
+        title: recurrence ? "Recurring event created!" : "Event created!",
+        description: `"${name}" is now open for RSVPs.`,
+      });
+
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating event:', error);
+      toast({
+        title: "Failed to create event",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      resetForm();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900">
+            Create Event
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {organizers.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Hosted by</Label>
+              <Select
+                value={selectedOrganizer ? organizerKey(selectedOrganizer) : undefined}
+                onValueChange={setOrganizer}
+                disabled={isLoading}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an organizer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizers.map(o => (
+                    <SelectItem key={organizerKey(o)} value={organizerKey(o)}>
+                      {o.name} <span className="text-muted-foreground">({organizerLabels[o.type]})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="event-name" className="text-sm font-medium text-gray-700">
+              Event Name *
+            </Label>
+            <Input
+              id="event-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Intro to Rust Workshop"
+              required
+              disabled={isLoading}
+              maxLength={200}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="event-description" className="text-sm font-medium text-gray-700">
+              Description
+            </Label>
+            <Textarea
+              id="event-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What should attendees know?"
+              className="w-full min-h-[80px] resize-none"
+              disabled={isLoading}
+              maxLength={1000}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="event-start" className="text-sm font-medium text-gray-700">
+                Starts *
+              </Label>
+              <Input
+                id="event-start"
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-end" className="text-sm font-medium text-gray-700">
+                Ends
+              </Label>
+              <Input
+                id="event-end"
+                type="datetime-local"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+          {endsBeforeStart && (
+            <p className="text-xs text-destructive">The event must end after it starts.</p>
+          )}
+
+          <RecurrenceFields
+            recurrence={recurrence}
+            startDate={startDate}
+            onChange={setRecurrence}
+            disabled={isLoading}
+          />
+          {invalidRecurrence && (
+            <p className="text-xs text-destructive">Choose an end date on or after the first event.</p>
+          )}
+
+          <div className="grid grid-cols-[1fr,120px] gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="event-location" className="text-sm font-medium text-gray-700">
+                Location
+              </Label>
+              <Input
+                id="event-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Room 201 or a meeting link"
+                disabled={isLoading}
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-capacity" className="text-sm font-medium text-gray-700">
+                Capacity
+              </Label>
+              <Input
+                id="event-capacity"
+                type="number"
+                min={1}
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+                placeholder="No limit"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={isLoading}
+              className="px-6 py-2"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!canSubmit || isLoading}
+              className="px-6 py-2"
+            >
+              {isLoading ? "Creating..." : "Create Event"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
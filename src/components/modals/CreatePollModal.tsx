@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { PollComposer } from "@/components/polls/PollComposer";
+import { emptyPollDraft, pollDraftError, type PollDraft } from "@/hooks/usePolls";
+
+interface CreatePollModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Resolves true once the poll has been sent
+  onCreate: (question: string, draft: PollDraft) => Promise<boolean>;
+}
+
+export function CreatePollModal({ open, onOpenChange, onCreate }: CreatePollModalProps) {
+  const [question, setQuestion] = useState("");
+  const [draft, setDraft] = useState<PollDraft>(emptyPollDraft);
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async () => {
+    const draftError = pollDraftError(draft);
+    if (draftError) {
+      toast.error(draftError);
+      return;
+    }
+
+    setSending(true);
+    try {
+      if (await onCreate(question.trim(), draft)) {
+        setQuestion("");
+        setDraft(emptyPollDraft());
+        onOpenChange(false);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Create Poll</DialogTitle>
+          <DialogDescription>Everyone in the group can vote and see live results.</DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question, e.g. Which day works?"
+          disabled={sending}
+        />
+        <PollComposer draft={draft} onChange={setDraft} disabled={sending} />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={sending || !question.trim()}>
+            {sending ? 'Sending...' : 'Send Poll'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,19 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar as CalendarIcon, Image as ImageIcon, Video, X } from "lucide-react";
+import { BarChart3, Calendar as CalendarIcon, Image as ImageIcon, Video, X } from "lucide-react";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { format } from "date-fns";
+import { format, setHours, setMinutes, startOfDay } from "date-fns";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
-import { usePosts } from "@/hooks/usePosts";
+import { usePosts, type PostAudienceTarget, type PostAudienceType } from "@/hooks/usePosts";
+import { MentionInput } from "@/components/mentions/MentionInput";
+import { AudiencePicker } from "@/components/feed/AudiencePicker";
+import { PollComposer } from "@/components/polls/PollComposer";
+import { emptyPollDraft, pollDraftError, type PollDraft } from "@/hooks/usePolls";
 import { toast } from "sonner";
 
 interface CreatePostModalProps {
@@ -21,12 +24,24 @@ interface CreatePostModalProps {
 
 export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostModalProps) {
   const [date, setDate] = useState<Date | undefined>();
+  const [time, setTime] = useState("09:00");
   const [content, setContent] = useState("");
   const [visibility, setVisibility] = useState("everyone");
   const [uploading, setUploading] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { createPost, uploadPostMedia } = usePosts();
+  const [onlyFor, setOnlyFor] = useState<PostAudienceType | "all">("all");
+  const [audience, setAudience] = useState<PostAudienceTarget[]>([]);
+  const [audienceOptions, setAudienceOptions] = useState<PostAudienceTarget[]>([]);
+  // Set while the post is a poll
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  const { createPost, uploadPostMedia, getAudienceOptions } = usePosts();
+
+  useEffect(() => {
+    if (open) getAudienceOptions().then(setAudienceOptions);
+  }, [open]);
+
+  const missingAudience = onlyFor !== "all" && audience.length === 0;
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -35,6 +50,12 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
     }
   };
 
+  // Combine the picked day and time into the publish moment
+  const scheduledTime = date
+    ? setMinutes(setHours(date, parseInt(time.split(':')[0], 10) || 0), parseInt(time.split(':')[1], 10) || 0)
+    : undefined;
+  const scheduledInPast = !!scheduledTime && scheduledTime <= new Date();
+
   const removeFile = (index: number) => {
     setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -45,6 +66,22 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
       return;
     }
 
+    if (missingAudience) {
+      toast.error("Choose who this post is for");
+      return;
+    }
+
+    if (scheduledInPast) {
+      toast.error("Pick a time in the future to schedule this post");
+      return;
+    }
+
+    const pollError = poll && pollDraftError(poll);
+    if (pollError) {
+      toast.error(pollError);
+      return;
+    }
+
     console.log('Creating post with content:', content);
     setUploading(true);
     try {
@@ -60,13 +97,17 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
         }
       }
       
-      const result = await createPost(content, visibility, mediaUrls);
+      const result = await createPost(content, visibility, mediaUrls, scheduledTime, audience, poll ?? undefined);
       console.log('Post creation result:', result);
       if (result) {
         console.log('Post created successfully, clearing form');
         setContent("");
         setVisibility("everyone");
         setDate(undefined);
+        setTime("09:00");
+        setOnlyFor("all");
+        setAudience([]);
+        setPoll(null);
         setSelectedFiles([]);
         onOpenChange(false);
       }
@@ -98,7 +139,7 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Select value={visibility} onValueChange={setVisibility}>
+            <Select value={visibility} onValueChange={setVisibility} disabled={onlyFor !== "all"}>
               <SelectTrigger className="w-[130px]">
                 <SelectValue placeholder="Audience" />
               </SelectTrigger>
@@ -109,22 +150,60 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
             </Select>
             <Popover>
               <PopoverTrigger asChild>
-                <Button variant="outline" size="sm"><CalendarIcon size={16} /> Schedule</Button>
+                <Button variant={scheduledTime ? "secondary" : "outline"} size="sm">
+                  <CalendarIcon size={16} /> {scheduledTime ? format(scheduledTime, 'MMM d, h:mm a') : 'Schedule'}
+                </Button>
               </PopoverTrigger>
-              <PopoverContent align="end" className="p-0">
-                <Calendar mode="single" selected={date} onSelect={setDate} initialFocus />
+              <PopoverContent align="end" className="p-0 w-auto">
+                <Calendar
+                  mode="single"
+                  selected={date}
+                  onSelect={setDate}
+                  disabled={(day) => day < startOfDay(new Date())}
+                  initialFocus
+                />
+                <div className="flex items-center gap-2 border-t p-3">
+                  <Input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    className="h-8"
+                    aria-label="Publish time"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => setDate(undefined)} disabled={!date}>
+                    Clear
+                  </Button>
+                </div>
+                {scheduledInPast && (
+                  <p className="px-3 pb-3 text-xs text-destructive">That time has already passed.</p>
+                )}
               </PopoverContent>
             </Popover>
           </div>
         </div>
 
-        <Textarea 
-          placeholder="What's on your mind?" 
-          className="min-h-36 rounded-xl" 
+        <MentionInput
+          multiline
+          placeholder={poll ? "Ask a question, e.g. Which day works for the meetup?" : "What's on your mind? Use @ to mention someone"}
+          className="min-h-36 rounded-xl"
           value={content}
-          onChange={(e) => setContent(e.target.value)}
+          onValueChange={setContent}
         />
 
+        {poll && (
+          <PollComposer draft={poll} onChange={setPoll} disabled={uploading} />
+        )}
+
+        {onlyFor !== "all" && (
+          <AudiencePicker
+            type={onlyFor}
+            selected={audience}
+            options={audienceOptions}
+            onChange={setAudience}
+            disabled={uploading}
+          />
+        )}
+
         {/* Selected Files Preview */}
         {selectedFiles.length > 0 && (
           <div className="space-y-2">
@@ -165,7 +244,21 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
             >
               <ImageIcon size={16} /> Media
             </Button>
-            <Select defaultValue="all">
+            <Button
+              variant={poll ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setPoll(poll ? null : emptyPollDraft())}
+              disabled={uploading}
+            >
+              <BarChart3 size={16} /> Poll
+            </Button>
+            <Select
+              value={onlyFor}
+              onValueChange={(value: PostAudienceType | "all") => {
+                setOnlyFor(value);
+                setAudience([]);
+              }}
+            >
               <SelectTrigger className="w-[140px]">
                 <SelectValue placeholder="Only For" />
               </SelectTrigger>
@@ -179,9 +272,9 @@ export function CreatePostModal({ open, onOpenChange, currentUser }: CreatePostM
           </div>
           <Button 
             onClick={handleSubmit}
-            disabled={uploading || !content.trim()}
+            disabled={uploading || !content.trim() || scheduledInPast || missingAudience}
           >
-            {uploading ? 'Posting...' : 'Post This'}
+            {uploading ? 'Posting...' : scheduledTime ? 'Schedule Post' : 'Post This'}
           </Button>
         </div>
       </DialogContent>
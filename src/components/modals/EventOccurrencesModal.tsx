@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Ban, Pencil } from "lucide-react";
+import { RsvpButtons } from "@/components/events/RsvpButtons";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatEventDate,
+  formatRecurrence,
+  isEventPast,
+  isRescheduledOccurrence,
+  type CampusEvent,
+  type RsvpStatus
+} from "@/hooks/useEvents";
+
+interface EventOccurrencesModalProps {
+  event: CampusEvent | null;
+  occurrences: CampusEvent[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canManage?: boolean;
+  onRsvp: (eventId: string, status: Exclude<RsvpStatus, 'waitlisted'>) => Promise<RsvpStatus>;
+  onCancel: (eventId: string) => void;
+  onReschedule: (eventId: string, startDate: string, endDate: string | null) => Promise<void>;
+}
+
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+
+export function EventOccurrencesModal({
+  event,
+  occurrences,
+  open,
+  onOpenChange,
+  canManage,
+  onRsvp,
+  onCancel,
+  onReschedule
+}: EventOccurrencesModalProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const endsBeforeStart = !!startDate && !!endDate && new Date(endDate) <= new Date(startDate);
+
+  const startEditing = (occurrence: CampusEvent) => {
+    setEditingId(occurrence.id);
+    setStartDate(toLocalInput(occurrence.start_date));
+    setEndDate(toLocalInput(occurrence.end_date));
+  };
+
+  const handleSave = async (occurrenceId: string) => {
+    if (!startDate || endsBeforeStart) return;
+
+    setSaving(true);
+    try {
+      await onReschedule(
+        occurrenceId,
+        new Date(startDate).toISOString(),
+        endDate ? new Date(endDate).toISOString() : null
+      );
+      toast({ title: "Date moved", description: "Attendees of this date have been notified." });
+      setEditingId(null);
+    } catch (error) {
+      toast({
+        title: "Failed to move date",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditingId(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-semibold text-gray-900">{event?.name}</DialogTitle>
+          {event?.recurrence && (
+            <DialogDescription>
+              {formatRecurrence(event.recurrence)}. RSVP to each date separately.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {occurrences.map(occurrence => {
+            const cancelled = !!occurrence.cancelled_at;
+            const past = isEventPast(occurrence);
+
+            return (
+              <div key={occurrence.id} className="rounded-xl border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className={`text-sm font-medium ${cancelled ? 'line-through text-muted-foreground' : ''}`}>
+                      {formatEventDate(occurrence)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {occurrence.going_count}{occurrence.capacity ? `/${occurrence.capacity}` : ''} going
+                      {isRescheduledOccurrence(occurrence) && occurrence.original_start_date &&
+                        ` • moved from ${format(new Date(occurrence.original_start_date), 'EEE, MMM d')}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    {cancelled && <Badge variant="destructive">Cancelled</Badge>}
+                    {canManage && !cancelled && !past && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 w-6 p-0 text-muted-foreground"
+                          onClick={() => (editingId === occurrence.id ? setEditingId(null) : startEditing(occurrence))}
+                          aria-label="Move this date"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 w-6 p-0 text-muted-foreground"
+                          onClick={() => onCancel(occurrence.id)}
+                          aria-label="Cancel this date"
+                        >
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {editingId === occurrence.id && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        type="datetime-local"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        disabled={saving}
+                        aria-label="New start"
+                      />
+                      <Input
+                        type="datetime-local"
+                        value={endDate}
+                        min={startDate || undefined}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        disabled={saving}
+                        aria-label="New end"
+                      />
+                    </div>
+                    {endsBeforeStart && (
+                      <p className="text-xs text-destructive">The event must end after it starts.</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" className="h-7" onClick={() => setEditingId(null)} disabled={saving}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-7"
+                        onClick={() => handleSave(occurrence.id)}
+                        disabled={saving || !startDate || endsBeforeStart}
+                      >
+                        {saving ? "Saving..." : "Move date"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {!cancelled && !past && (
+                  <RsvpButtons
+                    status={occurrence.my_status}
+                    isFull={occurrence.capacity !== null && occurrence.going_count >= occurrence.capacity}
+                    onRsvp={(status) => onRsvp(occurrence.id, status)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { MentionText } from "@/components/mentions/MentionText";
+import { usePostRevisions } from "@/hooks/usePostRevisions";
+
+interface PostRevisionsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  // The current version, shown above the earlier ones
+  currentText: string;
+  editedAt?: string | null;
+}
+
+export function PostRevisionsModal({ open, onOpenChange, postId, currentText, editedAt }: PostRevisionsModalProps) {
+  const { revisions, loading } = usePostRevisions(postId, open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+          <DialogDescription>Earlier versions of this post, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          <div className="rounded-xl border border-primary/40 p-3">
+            <div className="mb-1 text-xs text-muted-foreground">
+              Current{editedAt && ` • edited ${format(new Date(editedAt), 'MMM d, h:mm a')}`}
+            </div>
+            <p className="whitespace-pre-wrap text-sm">
+              <MentionText text={currentText} hashtags />
+            </p>
+          </div>
+
+          {loading ? (
+            <p className="text-center text-sm text-muted-foreground py-4">Loading history...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No earlier versions.</p>
+          ) : (
+            revisions.map((revision) => (
+              <div key={revision.id} className="rounded-xl border p-3">
+                <div className="mb-1 text-xs text-muted-foreground">
+                  {format(new Date(revision.written_at), 'MMM d, h:mm a')}
+                </div>
+                <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                  <MentionText text={revision.content} />
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  REPORT_REASONS,
+  REPORT_TARGET_LABELS,
+  useReports,
+  type ReportReason,
+  type ReportTargetType
+} from "@/hooks/useReports";
+
+interface ReportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string;
+}
+
+// Report a post, comment or message to the moderators
+export function ReportModal({ open, onOpenChange, targetType, targetId }: ReportModalProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const { reportContent, submitting } = useReports();
+  const label = REPORT_TARGET_LABELS[targetType];
+
+  useEffect(() => {
+    if (open) {
+      setReason(null);
+      setDetails("");
+    }
+  }, [open]);
+
+  // "Something else" needs an explanation to be actionable
+  const needsDetails = reason === 'other' && !details.trim();
+
+  const handleSubmit = async () => {
+    if (!reason || needsDetails) return;
+    if (await reportContent(targetType, targetId, reason, details)) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>Report {label}</DialogTitle>
+          <DialogDescription>
+            Reports are private. The author won't know who reported their {label}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason ?? ""}
+          onValueChange={(value) => setReason(value as ReportReason)}
+          className="max-h-[45vh] overflow-y-auto"
+          disabled={submitting}
+        >
+          {REPORT_REASONS.map((option) => (
+            <Label
+              key={option.value}
+              htmlFor={`report-reason-${option.value}`}
+              className="flex cursor-pointer items-start gap-3 rounded-xl border p-3 font-normal hover:bg-accent/50"
+            >
+              <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} className="mt-0.5" />
+              <div>
+                <div className="text-sm font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder={reason === 'other' ? "What's wrong with it?" : "Anything else we should know? (optional)"}
+          maxLength={1000}
+          className="min-h-20"
+          disabled={submitting}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !reason || needsDetails}>
+            {submitting ? 'Sending...' : 'Send report'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Clock, Pencil, Send, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { useScheduledPosts } from "@/hooks/useScheduledPosts";
+import type { Post } from "@/hooks/usePosts";
+
+interface ScheduledPostsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+
+export function ScheduledPostsModal({ open, onOpenChange }: ScheduledPostsModalProps) {
+  const { scheduledPosts, loading, updateScheduledPost, publishNow, cancelScheduledPost } = useScheduledPosts();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [scheduledTime, setScheduledTime] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const scheduledInPast = !!scheduledTime && new Date(scheduledTime) <= new Date();
+
+  const startEditing = (post: Post) => {
+    setEditingId(post.id);
+    setContent(post.content);
+    setScheduledTime(toLocalInput(post.scheduled_time));
+  };
+
+  const runAction = async (postId: string, action: () => Promise<boolean>) => {
+    setBusyId(postId);
+    try {
+      if (await action()) setEditingId(null);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditingId(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-xl rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scheduled Posts</DialogTitle>
+          <DialogDescription>
+            These posts are only visible to you until they're published.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2].map(i => (
+              <div key={i} className="h-20 bg-muted rounded-xl animate-pulse" />
+            ))}
+          </div>
+        ) : scheduledPosts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Nothing scheduled. Use Schedule when creating a post to publish it later.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {scheduledPosts.map(post => {
+              const busy = busyId === post.id;
+
+              return (
+                <div key={post.id} className="rounded-xl border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {post.scheduled_time && format(new Date(post.scheduled_time), "EEE, MMM d 'at' h:mm a")}
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 text-muted-foreground"
+                        onClick={() => (editingId === post.id ? setEditingId(null) : startEditing(post))}
+                        disabled={busy}
+                        aria-label="Edit scheduled post"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 text-muted-foreground"
+                        onClick={() => runAction(post.id, () => publishNow(post.id))}
+                        disabled={busy}
+                        aria-label="Publish now"
+                      >
+                        <Send className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 text-muted-foreground"
+                        onClick={() => runAction(post.id, () => cancelScheduledPost(post.id))}
+                        disabled={busy}
+                        aria-label="Cancel scheduled post"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {editingId === post.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={content}
+                        onChange={(e) => setContent(e.target.value)}
+                        className="min-h-24 rounded-xl"
+                        disabled={busy}
+                      />
+                      <Input
+                        type="datetime-local"
+                        value={scheduledTime}
+                        onChange={(e) => setScheduledTime(e.target.value)}
+                        disabled={busy}
+                        aria-label="Publish time"
+                      />
+                      {scheduledInPast && (
+                        <p className="text-xs text-destructive">Pick a time in the future.</p>
+                      )}
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={busy}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => runAction(post.id, () => updateScheduledPost(post.id, {
+                            content,
+                            scheduledTime: new Date(scheduledTime)
+                          }))}
+                          disabled={busy || !content.trim() || !scheduledTime || scheduledInPast}
+                        >
+                          {busy ? 'Saving...' : 'Save'}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap line-clamp-4">{post.content}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
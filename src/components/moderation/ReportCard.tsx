@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { formatDistanceToNow, format } from "date-fns";
+import { Ban, EyeOff, Flag, MessageSquareWarning, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MentionText } from "@/components/mentions/MentionText";
+import { REPORT_TARGET_LABELS, reportReasonLabel } from "@/hooks/useReports";
+import {
+  useReportContext,
+  type ModerationResolution,
+  type Report,
+  type ResolveOptions
+} from "@/hooks/useModeration";
+
+const SUSPENSION_DAYS = [1, 3, 7, 30];
+
+const RESOLUTION_LABELS: Record<ModerationResolution, string> = {
+  dismiss: 'Dismissed',
+  hide: 'Content hidden',
+  warn: 'Author warned',
+  suspend: 'Author suspended',
+};
+
+interface ReportCardProps {
+  report: Report;
+  // Left out for resolved reports, which are read-only
+  onResolve?: (reportId: string, resolution: ModerationResolution, options: ResolveOptions) => Promise<boolean>;
+}
+
+// A report in the moderation queue: what was reported and why, the content
+// around it, and the moderator's decision
+export function ReportCard({ report, onResolve }: ReportCardProps) {
+  const [showContext, setShowContext] = useState(false);
+  const [note, setNote] = useState("");
+  const [hideContent, setHideContent] = useState(true);
+  const [suspendDays, setSuspendDays] = useState("3");
+  const [resolving, setResolving] = useState(false);
+  const { context, loading: contextLoading, error: contextError } = useReportContext(report.id, showContext);
+  const label = REPORT_TARGET_LABELS[report.target_type];
+
+  const handleResolve = async (resolution: ModerationResolution) => {
+    if (!onResolve) return;
+
+    setResolving(true);
+    try {
+      await onResolve(report.id, resolution, {
+        note,
+        hideContent,
+        suspendDays: resolution === 'suspend' ? Number(suspendDays) : undefined,
+      });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-4 rounded-2xl shadow-sm">
+      <CardContent className="space-y-4 p-5">
+        <header className="flex items-start justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <Badge variant="destructive">{reportReasonLabel(report.reason)}</Badge>
+              <span className="text-sm font-semibold capitalize">{label}</span>
+              {report.target_author && (
+                <span className="text-sm text-muted-foreground">by {report.target_author.full_name}</span>
+              )}
+            </div>
+            <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+              <Flag className="h-3 w-3" />
+              Reported by {report.reporter?.full_name || 'a deleted user'}{' '}
+              {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+            </div>
+          </div>
+        </header>
+
+        {report.details && (
+          <blockquote className="border-l-2 pl-3 text-sm italic text-muted-foreground">
+            {report.details}
+          </blockquote>
+        )}
+
+        <div className="rounded-xl border p-3">
+          <div className="mb-1 text-xs text-muted-foreground">Reported {label}, as it was when reported</div>
+          <p className="whitespace-pre-wrap break-words text-sm">
+            {report.content_snapshot ? <MentionText text={report.content_snapshot} /> : <em>No text (media only)</em>}
+          </p>
+        </div>
+
+        <div>
+          <button
+            onClick={() => setShowContext(!showContext)}
+            className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+          >
+            {showContext ? 'Hide context' : 'Show in context'}
+          </button>
+
+          {showContext && (
+            <div className="mt-2 space-y-2 rounded-xl bg-muted/50 p-3">
+              {contextLoading ? (
+                <p className="text-center text-sm text-muted-foreground py-2">Loading context...</p>
+              ) : contextError || !context ? (
+                <p className="text-center text-sm text-muted-foreground py-2">Couldn't load the context.</p>
+              ) : (
+                <>
+                  {context.parent_post && (
+                    <div className="text-xs text-muted-foreground">
+                      On {context.parent_post.author_name || 'Unknown User'}'s post:{' '}
+                      <span className="text-foreground">{context.parent_post.content.slice(0, 140)}</span>
+                    </div>
+                  )}
+                  {context.group_name && (
+                    <div className="text-xs text-muted-foreground">In {context.group_name}</div>
+                  )}
+                  {context.items.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-2">
+                      The {label} has been deleted.
+                    </p>
+                  ) : (
+                    context.items.map((item) => (
+                      <div
+                        key={item.id}
+                        className={`rounded-lg px-3 py-2 text-sm ${item.is_target ? 'bg-background ring-2 ring-destructive/40' : ''}`}
+                      >
+                        <div className="mb-0.5 flex items-center gap-2 text-xs text-muted-foreground">
+                          <span className="font-medium text-foreground">{item.author_name || 'Unknown User'}</span>
+                          <span>{format(new Date(item.created_at), 'MMM d, h:mm a')}</span>
+                          {item.hidden_at && <span className="flex items-center gap-1"><EyeOff className="h-3 w-3" /> hidden</span>}
+                        </div>
+                        <p className="whitespace-pre-wrap break-words">
+                          {item.content ? <MentionText text={item.content} /> : <em>No text</em>}
+                        </p>
+                        {item.media_urls && item.media_urls.length > 0 && (
+                          <div className="mt-1 flex flex-wrap gap-2">
+                            {item.media_urls.map((url) => (
+                              <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="text-xs underline">
+                                Attachment
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {onResolve ? (
+          <div className="space-y-3 border-t pt-4">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the audit trail. Warned or suspended authors see it too"
+              maxLength={500}
+              className="min-h-16 text-sm"
+              disabled={resolving}
+            />
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <Label className="flex items-center gap-2 font-normal">
+                <Checkbox
+                  checked={hideContent}
+                  onCheckedChange={(checked) => setHideContent(checked === true)}
+                  disabled={resolving}
+                />
+                Hide the {label} when warning or suspending
+              </Label>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Suspend for</span>
+                <Select value={suspendDays} onValueChange={setSuspendDays} disabled={resolving}>
+                  <SelectTrigger className="h-8 w-[110px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUSPENSION_DAYS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {days} day{days !== 1 ? 's' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleResolve('dismiss')} disabled={resolving}>
+                <X className="mr-1 h-4 w-4" /> Dismiss
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleResolve('hide')} disabled={resolving}>
+                <EyeOff className="mr-1 h-4 w-4" /> Hide {label}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleResolve('warn')} disabled={resolving || !report.target_author}>
+                <MessageSquareWarning className="mr-1 h-4 w-4" /> Warn author
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => handleResolve('suspend')} disabled={resolving || !report.target_author}>
+                <Ban className="mr-1 h-4 w-4" /> Suspend author
+              </Button>
+            </div>
+          </div>
+        ) : report.action && (
+          <div className="border-t pt-3 text-sm">
+            <div className="font-medium">
+              {RESOLUTION_LABELS[report.action.action]}
+              {report.action.content_hidden && report.action.action !== 'hide' && ` • ${label} hidden`}
+              {report.action.suspended_until && ` until ${format(new Date(report.action.suspended_until), 'MMM d, yyyy')}`}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              by {report.action.moderator?.full_name || 'a former moderator'}{' '}
+              {formatDistanceToNow(new Date(report.action.created_at), { addSuffix: true })}
+            </div>
+            {report.action.note && (
+              <p className="mt-1 text-sm text-muted-foreground">{report.action.note}</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
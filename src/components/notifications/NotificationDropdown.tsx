@@ -3,7 +3,8 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Bell, Check, X, UserPlus } from 'lucide-react';
+import { Bell, Check, X, UserPlus, AtSign, ShieldAlert } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useNotifications, Notification } from '@/hooks/useNotifications';
 import { useFriendRequests } from '@/hooks/useFriendRequests';
 import { formatDistanceToNow } from 'date-fns';
@@ -13,6 +14,7 @@ export const NotificationDropdown = () => {
   const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
   const { acceptFriendRequest, rejectFriendRequest, loading } = useFriendRequests();
   const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  const navigate = useNavigate();
 
   console.log('NotificationDropdown render:', { notifications, unreadCount });
 
@@ -141,6 +143,64 @@ export const NotificationDropdown = () => {
           </div>
         );
 
+      case 'mention':
+        return (
+          <div className="flex items-start gap-3 p-3 hover:bg-accent/50 transition-colors cursor-pointer">
+            <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
+              <AtSign className="h-5 w-5 text-blue-600" />
+            </div>
+            
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm font-medium">Mention</span>
+                {!notification.is_read && (
+                  <Badge variant="secondary" className="h-2 w-2 p-0 rounded-full bg-blue-500" />
+                )}
+              </div>
+              
+              <p className="text-sm text-muted-foreground mb-1">
+                {notification.content}
+              </p>
+              
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+        );
+
+      case 'report_resolved':
+      case 'moderation_warning':
+      case 'account_suspended':
+        return (
+          <div className="flex items-start gap-3 p-3 hover:bg-accent/50 transition-colors">
+            <div className="h-10 w-10 rounded-full bg-amber-100 flex items-center justify-center flex-shrink-0">
+              <ShieldAlert className="h-5 w-5 text-amber-600" />
+            </div>
+            
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm font-medium">
+                  {notification.type === 'report_resolved'
+                    ? 'Report reviewed'
+                    : notification.type === 'account_suspended' ? 'Account suspended' : 'Warning'}
+                </span>
+                {!notification.is_read && (
+                  <Badge variant="secondary" className="h-2 w-2 p-0 rounded-full bg-blue-500" />
+                )}
+              </div>
+              
+              <p className="text-sm text-muted-foreground mb-1">
+                {notification.content}
+              </p>
+              
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+        );
+
       default:
         return (
           <div className="flex items-start gap-3 p-3 hover:bg-accent/50 transition-colors">
@@ -234,7 +294,13 @@ export const NotificationDropdown = () => {
                 Debug: {notifications.length} notifications found
               </div>
               {notifications.map((notification) => (
-                <div key={notification.id} onClick={() => !notification.is_read && markAsRead(notification.id)}>
+                <div
+                  key={notification.id}
+                  onClick={() => {
+                    if (!notification.is_read) markAsRead(notification.id);
+                    if (notification.link) navigate(notification.link);
+                  }}
+                >
                   {renderNotificationContent(notification)}
                 </div>
               ))}
@@ -0,0 +1,81 @@
+import { CheckCircle2, CheckSquare, Circle, Square } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { isPollClosed, usePoll } from "@/hooks/usePolls";
+
+interface PollCardProps {
+  parent: 'post' | 'group_message';
+  parentId: string;
+}
+
+// Options with live result bars. Tapping an option votes for it; tapping it
+// again takes the vote back
+export function PollCard({ parent, parentId }: PollCardProps) {
+  const { poll, votes, myVotes, voting, vote } = usePoll(parent, parentId);
+
+  if (!poll) return null;
+
+  const closed = isPollClosed(poll);
+
+  const handleToggle = (optionId: string) => {
+    const selected = myVotes.includes(optionId);
+    if (poll.allows_multiple) {
+      vote(selected ? myVotes.filter(id => id !== optionId) : [...myVotes, optionId]);
+    } else {
+      vote(selected ? [] : [optionId]);
+    }
+  };
+
+  // Names behind each option, for polls that aren't anonymous
+  const votersOf = (optionId: string) => votes
+    .filter(v => v.option_id === optionId && v.user)
+    .map(v => v.user!.full_name)
+    .join(', ');
+
+  return (
+    <div className="mt-3 space-y-2">
+      {poll.options.map((option) => {
+        const selected = myVotes.includes(option.id);
+        const percent = poll.voter_count > 0 ? Math.round((option.vote_count / poll.voter_count) * 100) : 0;
+        const SelectedIcon = poll.allows_multiple ? CheckSquare : CheckCircle2;
+        const UnselectedIcon = poll.allows_multiple ? Square : Circle;
+
+        return (
+          <button
+            key={option.id}
+            onClick={() => handleToggle(option.id)}
+            disabled={closed || voting}
+            title={poll.is_anonymous ? undefined : votersOf(option.id) || undefined}
+            className={`relative w-full overflow-hidden rounded-lg border text-left text-sm transition-colors disabled:cursor-default ${selected ? 'border-primary' : 'hover:bg-accent/50'}`}
+          >
+            <div
+              className="absolute inset-y-0 left-0 bg-primary/15 transition-all duration-500"
+              style={{ width: `${percent}%` }}
+            />
+            <div className="relative flex items-center justify-between gap-2 px-3 py-2">
+              <span className="flex items-center gap-2 min-w-0">
+                {selected
+                  ? <SelectedIcon className="h-4 w-4 shrink-0 text-primary" />
+                  : <UnselectedIcon className="h-4 w-4 shrink-0 text-muted-foreground" />}
+                <span className="truncate">{option.label}</span>
+              </span>
+              <span className="text-xs text-muted-foreground">{percent}%</span>
+            </div>
+          </button>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground">
+        <span>{poll.voter_count} vote{poll.voter_count !== 1 ? 's' : ''}</span>
+        {poll.allows_multiple && <span>• Multiple choice</span>}
+        {poll.is_anonymous && <span>• Anonymous</span>}
+        {poll.closes_at && (
+          <span>
+            • {closed
+              ? 'Closed'
+              : `Closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, type PollDraft } from "@/hooks/usePolls";
+
+interface PollComposerProps {
+  draft: PollDraft;
+  onChange: (draft: PollDraft) => void;
+  disabled?: boolean;
+}
+
+// Options and settings for a new poll; the question is typed by the caller
+export function PollComposer({ draft, onChange, disabled }: PollComposerProps) {
+  const setOption = (index: number, value: string) => {
+    onChange({ ...draft, options: draft.options.map((o, i) => (i === index ? value : o)) });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ ...draft, options: draft.options.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-xl border p-3">
+      <div className="space-y-2">
+        {draft.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(e) => setOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              maxLength={100}
+              className="h-9"
+              disabled={disabled}
+            />
+            {draft.options.length > MIN_POLL_OPTIONS && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => removeOption(index)}
+                disabled={disabled}
+                aria-label={`Remove option ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {draft.options.length < MAX_POLL_OPTIONS && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 text-xs"
+            onClick={() => onChange({ ...draft, options: [...draft.options, ''] })}
+            disabled={disabled}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add option
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="poll-multiple" className="text-sm">Allow multiple answers</Label>
+        <Switch
+          id="poll-multiple"
+          checked={draft.allowsMultiple}
+          onCheckedChange={(value) => onChange({ ...draft, allowsMultiple: value })}
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="poll-anonymous" className="text-sm">Anonymous votes</Label>
+        <Switch
+          id="poll-anonymous"
+          checked={draft.isAnonymous}
+          onCheckedChange={(value) => onChange({ ...draft, isAnonymous: value })}
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <Label htmlFor="poll-deadline" className="text-sm">Closes</Label>
+        <Input
+          id="poll-deadline"
+          type="datetime-local"
+          value={draft.closesAt}
+          onChange={(e) => onChange({ ...draft, closesAt: e.target.value })}
+          className="h-8 w-auto"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
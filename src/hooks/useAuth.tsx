@@ -85,6 +85,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    // Go offline while the session can still update the profile
+    if (user) {
+      await supabase
+        .from('profiles')
+        .update({ is_online: false, last_seen: new Date().toISOString() })
+        .eq('id', user.id);
+    }
+
     const { error } = await supabase.auth.signOut();
     return { error };
   };
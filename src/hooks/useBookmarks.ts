@@ -0,0 +1,234 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { POST_SELECT } from '@/hooks/useFeed';
+import type { Post } from '@/hooks/usePosts';
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+// post is null once the original post has been deleted, or when it's no
+// longer visible to the user
+export interface Bookmark {
+  id: string;
+  post_id: string | null;
+  collection_id: string | null;
+  created_at: string;
+  post: Post | null;
+}
+
+// The user's saved posts and collections. Both lists are cached per user, so
+// every PostCard can ask whether its post is saved without its own request
+export const useBookmarks = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const bookmarksQuery = useQuery({
+    queryKey: ['bookmarks', user?.id ?? null],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bookmarks')
+        .select(`
+          id,
+          post_id,
+          collection_id,
+          created_at,
+          post:posts(${POST_SELECT})
+        `)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching bookmarks:', error);
+        throw error;
+      }
+
+      return (data || []) as unknown as Bookmark[];
+    },
+  });
+
+  const collectionsQuery = useQuery({
+    queryKey: ['bookmark-collections', user?.id ?? null],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bookmark_collections')
+        .select('id, name, created_at')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching collections:', error);
+        throw error;
+      }
+
+      return (data || []) as BookmarkCollection[];
+    },
+  });
+
+  const bookmarks = bookmarksQuery.data ?? [];
+  const collections = collectionsQuery.data ?? [];
+
+  const refreshBookmarks = () => queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+  const refreshCollections = () => queryClient.invalidateQueries({ queryKey: ['bookmark-collections'] });
+
+  const isSaved = (postId: string) => bookmarks.some(b => b.post_id === postId);
+
+  const toggleSave = async (postId: string) => {
+    if (!user) return false;
+
+    const existing = bookmarks.find(b => b.post_id === postId);
+
+    try {
+      const { error } = existing
+        ? await supabase.from('bookmarks').delete().eq('id', existing.id)
+        : await supabase.from('bookmarks').insert({ user_id: user.id, post_id: postId });
+
+      // Already saved from another tab
+      if (error && error.code !== '23505') {
+        console.error('Error saving post:', error);
+        toast.error(existing ? 'Failed to remove from saved' : 'Failed to save post');
+        return false;
+      }
+
+      toast.success(existing ? 'Removed from saved' : 'Post saved');
+      await refreshBookmarks();
+      return true;
+    } catch (error) {
+      console.error('Error in toggleSave:', error);
+      toast.error('Failed to save post');
+      return false;
+    }
+  };
+
+  const removeBookmark = async (bookmarkId: string) => {
+    try {
+      const { error } = await supabase.from('bookmarks').delete().eq('id', bookmarkId);
+
+      if (error) {
+        console.error('Error removing bookmark:', error);
+        toast.error('Failed to remove from saved');
+        return false;
+      }
+
+      await refreshBookmarks();
+      return true;
+    } catch (error) {
+      console.error('Error in removeBookmark:', error);
+      toast.error('Failed to remove from saved');
+      return false;
+    }
+  };
+
+  // File a bookmark into a collection, or back to unfiled with null
+  const moveBookmark = async (bookmarkId: string, collectionId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('bookmarks')
+        .update({ collection_id: collectionId })
+        .eq('id', bookmarkId);
+
+      if (error) {
+        console.error('Error moving bookmark:', error);
+        toast.error('Failed to move saved post');
+        return false;
+      }
+
+      await refreshBookmarks();
+      return true;
+    } catch (error) {
+      console.error('Error in moveBookmark:', error);
+      toast.error('Failed to move saved post');
+      return false;
+    }
+  };
+
+  const createCollection = async (name: string) => {
+    if (!user || !name.trim()) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('bookmark_collections')
+        .insert({ user_id: user.id, name: name.trim() })
+        .select('id, name, created_at')
+        .single();
+
+      if (error) {
+        console.error('Error creating collection:', error);
+        toast.error(error.code === '23505' ? 'You already have a collection with that name' : 'Failed to create collection');
+        return null;
+      }
+
+      await refreshCollections();
+      return data as BookmarkCollection;
+    } catch (error) {
+      console.error('Error in createCollection:', error);
+      toast.error('Failed to create collection');
+      return null;
+    }
+  };
+
+  const renameCollection = async (collectionId: string, name: string) => {
+    if (!name.trim()) return false;
+
+    try {
+      const { error } = await supabase
+        .from('bookmark_collections')
+        .update({ name: name.trim() })
+        .eq('id', collectionId);
+
+      if (error) {
+        console.error('Error renaming collection:', error);
+        toast.error(error.code === '23505' ? 'You already have a collection with that name' : 'Failed to rename collection');
+        return false;
+      }
+
+      await refreshCollections();
+      return true;
+    } catch (error) {
+      console.error('Error in renameCollection:', error);
+      toast.error('Failed to rename collection');
+      return false;
+    }
+  };
+
+  // Saved posts in the collection stay saved, unfiled
+  const deleteCollection = async (collectionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('bookmark_collections')
+        .delete()
+        .eq('id', collectionId);
+
+      if (error) {
+        console.error('Error deleting collection:', error);
+        toast.error('Failed to delete collection');
+        return false;
+      }
+
+      await Promise.all([refreshCollections(), refreshBookmarks()]);
+      toast.success('Collection deleted');
+      return true;
+    } catch (error) {
+      console.error('Error in deleteCollection:', error);
+      toast.error('Failed to delete collection');
+      return false;
+    }
+  };
+
+  return {
+    bookmarks,
+    collections,
+    loading: bookmarksQuery.isLoading,
+    isSaved,
+    toggleSave,
+    removeBookmark,
+    moveBookmark,
+    createCollection,
+    renameCollection,
+    deleteCollection
+  };
+};
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+const feedUrlFor = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+// Personal calendar subscription combining RSVP'd events and task due dates
+export function useCalendarFeed() {
+  const { user } = useAuth();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Fetch (or create) the feed token; regenerating revokes the old URL
+  const loadFeedUrl = async (regenerate = false) => {
+    if (!user) throw new Error('User not authenticated');
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_calendar_feed_token', { regenerate });
+
+      if (error) throw error;
+
+      const result = data as { success?: boolean; error?: string; token?: string } | null;
+      if (!result?.success || !result.token) {
+        throw new Error(result?.error || 'Failed to load calendar feed');
+      }
+
+      const url = feedUrlFor(result.token);
+      setFeedUrl(url);
+      return url;
+    } catch (err) {
+      console.error('Error loading calendar feed:', err);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    feedUrl,
+    // Calendar apps open webcal:// links as subscriptions rather than one-off imports
+    webcalUrl: feedUrl ? feedUrl.replace(/^https?:\/\//, 'webcal://') : null,
+    loading,
+    loadFeedUrl,
+    regenerateFeedUrl: () => loadFeedUrl(true)
+  };
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
+import { removeMediaFiles, uploadMediaFile } from '@/lib/images';
 
 export interface ChatMessage {
   id: string;
@@ -11,6 +13,11 @@ export interface ChatMessage {
   created_at: string;
   is_read: boolean;
   media_urls?: string[];
+  // Set when a moderator hid the message; only its sender still sees it
+  hidden_at?: string | null;
+  edited_at?: string | null;
+  // Deleted messages stay as tombstones, without content or attachments
+  deleted_at?: string | null;
   sender?: {
     id: string;
     full_name: string;
@@ -19,41 +26,94 @@ export interface ChatMessage {
   };
 }
 
-export const useChat = (friendId: string) => {
+const MESSAGE_PAGE_SIZE = 50;
+// How far back a focused message (from a notification link) is looked for
+const MAX_FOCUS_PAGES = 20;
+
+const MESSAGE_SELECT = `
+  *,
+  sender:profiles!sender_id(id, full_name, username, profile_pic_url)
+`;
+
+// Messages are loaded newest page first; older pages are prepended as the
+// user scrolls up
+export const useChat = (friendId: string, focusMessageId?: string | null) => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const conversationFilter = () =>
+    `and(sender_id.eq.${user!.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${user!.id})`;
+
+  // The page of messages before `before` (or the latest page), oldest first
+  const fetchPage = async (before?: ChatMessage) => {
+    let query = supabase
+      .from('direct_messages')
+      .select(MESSAGE_SELECT)
+      .or(conversationFilter())
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return ((data || []) as ChatMessage[]).reverse();
+  };
 
   const fetchMessages = async () => {
     if (!user || !friendId) return;
 
     try {
       console.log('Fetching messages between:', user.id, 'and', friendId);
-      
-      const { data, error } = await supabase
-        .from('direct_messages')
-        .select(`
-          *,
-          sender:profiles!sender_id(id, full_name, username, profile_pic_url)
-        `)
-        .or(`and(sender_id.eq.${user.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${user.id})`)
-        .order('created_at', { ascending: true });
 
-      if (error) {
-        console.error('Error fetching messages:', error);
-        toast.error('Failed to load messages');
-        return;
+      let page = await fetchPage();
+      let more = page.length === MESSAGE_PAGE_SIZE;
+
+      // A focused message further back is loaded a page at a time
+      for (let i = 0; focusMessageId && more && i < MAX_FOCUS_PAGES; i++) {
+        if (page.some(message => message.id === focusMessageId)) break;
+        const older = await fetchPage(page[0]);
+        more = older.length === MESSAGE_PAGE_SIZE;
+        page = [...older, ...page];
       }
 
-      console.log('Fetched messages:', data);
-      setMessages(data || []);
+      console.log('Fetched messages:', page.length);
+      setMessages(page);
+      setHasMore(more);
     } catch (error) {
-      console.error('Error in fetchMessages:', error);
+      console.error('Error fetching messages:', error);
+      toast.error('Failed to load messages');
     } finally {
       setLoading(false);
     }
   };
 
+  const loadOlderMessages = async () => {
+    if (!user || !friendId || loadingOlder || !hasMore || messages.length === 0) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchPage(messages[0]);
+      setHasMore(page.length === MESSAGE_PAGE_SIZE);
+      setMessages(prev => [...page.filter(message => !prev.some(p => p.id === message.id)), ...prev]);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      toast.error('Failed to load older messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
   const sendMessage = async (content: string, mediaUrls?: string[]) => {
     if (!user || !friendId || (!content.trim() && !mediaUrls?.length)) return;
 
@@ -69,10 +129,7 @@ export const useChat = (friendId: string) => {
           is_read: false,
           media_urls: mediaUrls || null
         })
-        .select(`
-          *,
-          sender:profiles!sender_id(id, full_name, username, profile_pic_url)
-        `)
+        .select(MESSAGE_SELECT)
         .single();
 
       if (error) {
@@ -98,31 +155,78 @@ export const useChat = (friendId: string) => {
 
     try {
       console.log('Uploading file:', file.name, 'Size:', file.size);
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-      
-      const { data, error } = await supabase.storage
-        .from('chat-attachments')
-        .upload(fileName, file);
+      const publicUrl = await uploadMediaFile('chat-attachments', `${user.id}/${Date.now()}`, file);
+
+      console.log('Public URL generated:', publicUrl);
+      return publicUrl;
+    } catch (error) {
+      console.error('Error in uploadFile:', error);
+      toast.error(`Failed to upload file: ${error instanceof Error ? error.message : 'unknown error'}`);
+      return null;
+    }
+  };
+
+  // Only within the edit window; the database refuses later edits
+  const editMessage = async (messageId: string, content: string) => {
+    if (!user || !content.trim()) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('direct_messages')
+        .update({ content: content.trim() })
+        .eq('id', messageId)
+        .eq('sender_id', user.id)
+        .select(MESSAGE_SELECT)
+        .single();
+
+      if (error) {
+        console.error('Error editing message:', error);
+        toast.error('Failed to edit message');
+        return false;
+      }
+
+      setMessages(prev => prev.map(msg => msg.id === messageId ? data : msg));
+      return true;
+    } catch (error) {
+      console.error('Error in editMessage:', error);
+      toast.error('Failed to edit message');
+      return false;
+    }
+  };
+
+  // Deletes the message for everyone, leaving a tombstone, and removes its
+  // attachments from storage
+  const deleteMessage = async (message: ChatMessage) => {
+    if (!user || message.sender_id !== user.id) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('direct_messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', message.id)
+        .eq('sender_id', user.id)
+        .select(MESSAGE_SELECT)
+        .single();
 
       if (error) {
-        console.error('Error uploading file:', error);
-        toast.error(`Failed to upload file: ${error.message}`);
-        return null;
+        console.error('Error deleting message:', error);
+        toast.error('Failed to delete message');
+        return false;
       }
 
-      console.log('File uploaded successfully:', data);
+      setMessages(prev => prev.map(msg => msg.id === message.id ? data : msg));
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('chat-attachments')
-        .getPublicUrl(data.path);
+      try {
+        await removeMediaFiles('chat-attachments', message.media_urls || []);
+      } catch (storageError) {
+        console.error('Error removing message attachments:', storageError);
+      }
 
-      console.log('Public URL generated:', publicUrl);
-      return publicUrl;
+      return true;
     } catch (error) {
-      console.error('Error in uploadFile:', error);
-      toast.error('Failed to upload file');
-      return null;
+      console.error('Error in deleteMessage:', error);
+      toast.error('Failed to delete message');
+      return false;
     }
   };
 
@@ -130,18 +234,21 @@ export const useChat = (friendId: string) => {
     if (!user || !friendId) return;
 
     try {
-      const { error } = await supabase
-        .from('direct_messages')
-        .update({ is_read: true })
-        .eq('sender_id', friendId)
-        .eq('receiver_id', user.id)
-        .eq('is_read', false);
+      // Receivers can't update messages directly; the RPC only flips is_read
+      const { data, error } = await supabase.rpc('mark_conversation_read', {
+        partner_user_id: friendId
+      });
 
-      if (error) {
-        console.error('Error marking messages as read:', error);
+      const result = data as { success?: boolean; error?: string; marked?: number } | null;
+      if (error || !result?.success) {
+        console.error('Error marking messages as read:', error || result?.error);
         return;
       }
 
+      if (result.marked) {
+        queryClient.invalidateQueries({ queryKey: ['conversations', user.id] });
+      }
+
       // Update local state
       setMessages(prev => 
         prev.map(msg => 
@@ -160,45 +267,68 @@ export const useChat = (friendId: string) => {
       fetchMessages();
       markMessagesAsRead();
 
-      // Set up real-time subscription for new messages
+      // Realtime filters take a single column, so both directions are
+      // subscribed to and narrowed down to this conversation
+      const inConversation = (row: Partial<ChatMessage>) =>
+        (row.sender_id === user.id && row.receiver_id === friendId) ||
+        (row.sender_id === friendId && row.receiver_id === user.id);
+
+      const handleInsert = async (payload: { new: Partial<ChatMessage> }) => {
+        if (!inConversation(payload.new)) return;
+        console.log('Real-time message received:', payload);
+        
+        // Fetch the complete message with sender info
+        const { data } = await supabase
+          .from('direct_messages')
+          .select(MESSAGE_SELECT)
+          .eq('id', payload.new.id)
+          .single();
+
+        if (data) {
+          setMessages(prev => {
+            // Check if message already exists to avoid duplicates
+            if (prev.some(msg => msg.id === data.id)) {
+              return prev;
+            }
+            return [...prev, data];
+          });
+
+          // Mark as read if it's from the friend
+          if (data.sender_id === friendId) {
+            markMessagesAsRead();
+          }
+        }
+      };
+
+      // Edits, deletions, read receipts and moderation
+      const handleUpdate = (payload: { new: Partial<ChatMessage> }) => {
+        if (!inConversation(payload.new)) return;
+        setMessages(prev => prev.map(msg =>
+          msg.id === payload.new.id ? { ...msg, ...payload.new, sender: msg.sender } : msg
+        ));
+      };
+
       const channel = supabase
         .channel(`chat-${user.id}-${friendId}`)
         .on(
           'postgres_changes',
-          {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'direct_messages',
-            filter: `or(and(sender_id.eq.${user.id},receiver_id.eq.${friendId}),and(sender_id.eq.${friendId},receiver_id.eq.${user.id}))`,
-          },
-          async (payload) => {
-            console.log('Real-time message received:', payload);
-            
-            // Fetch the complete message with sender info
-            const { data } = await supabase
-              .from('direct_messages')
-              .select(`
-                *,
-                sender:profiles!sender_id(id, full_name, username, profile_pic_url)
-              `)
-              .eq('id', payload.new.id)
-              .single();
-
-            if (data) {
-              setMessages(prev => {
-                // Check if message already exists to avoid duplicates
-                if (prev.some(msg => msg.id === data.id)) {
-                  return prev;
-                }
-                return [...prev, data];
-              });
-
-              // Mark as read if it's from the friend
-              if (data.sender_id === friendId) {
-                markMessagesAsRead();
-              }
-            }
-          }
+          { event: 'INSERT', schema: 'public', table: 'direct_messages', filter: `receiver_id=eq.${user.id}` },
+          handleInsert
+        )
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'direct_messages', filter: `sender_id=eq.${user.id}` },
+          handleInsert
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'direct_messages', filter: `receiver_id=eq.${user.id}` },
+          handleUpdate
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'direct_messages', filter: `sender_id=eq.${user.id}` },
+          handleUpdate
         )
         .subscribe();
 
@@ -213,7 +343,12 @@ export const useChat = (friendId: string) => {
   return {
     messages,
     loading,
+    loadingOlder,
+    hasMore,
+    loadOlderMessages,
     sendMessage,
+    editMessage,
+    deleteMessage,
     uploadFile,
     markMessagesAsRead,
     refreshMessages: fetchMessages
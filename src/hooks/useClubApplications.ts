@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface ClubApplication {
+  id: string;
+  club_id: string;
+  user_id: string;
+  answers: { question: string; answer: string }[];
+  status: 'pending' | 'approved' | 'rejected';
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  applicant?: {
+    id: string;
+    username: string;
+    full_name: string;
+    profile_pic_url: string | null;
+    branch: string | null;
+    year_of_study: string | null;
+  };
+}
+
+// Pending application queue for a club; only visible to its officers via RLS
+export function useClubApplications(clubId: string | null, enabled = true) {
+  const { user } = useAuth();
+  const [applications, setApplications] = useState<ClubApplication[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchApplications = useCallback(async () => {
+    if (!clubId || !user || !enabled) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from('club_applications')
+        .select(`
+          *,
+          applicant:profiles!club_applications_user_id_fkey(
+            id,
+            username,
+            full_name,
+            profile_pic_url,
+            branch,
+            year_of_study
+          )
+        `)
+        .eq('club_id', clubId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setApplications((data || []).map(app => ({
+        ...app,
+        answers: Array.isArray(app.answers) ? app.answers as ClubApplication['answers'] : []
+      }) as ClubApplication));
+    } catch (err) {
+      console.error('Error fetching club applications:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch applications');
+    } finally {
+      setLoading(false);
+    }
+  }, [clubId, user, enabled]);
+
+  // Approve or reject; the database notifies the applicant
+  const reviewApplication = async (applicationId: string, decision: 'approved' | 'rejected') => {
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase.rpc('review_club_application', {
+      application_id: applicationId,
+      decision
+    });
+
+    if (error) {
+      console.error('Error reviewing application:', error);
+      throw error;
+    }
+
+    const result = data as { success?: boolean; error?: string } | null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Failed to review application');
+    }
+
+    setApplications(prev => prev.filter(app => app.id !== applicationId));
+  };
+
+  useEffect(() => {
+    if (!clubId || !user || !enabled) {
+      setApplications([]);
+      return;
+    }
+
+    fetchApplications();
+
+    const channel = supabase
+      .channel(`club-applications-${clubId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'club_applications',
+          filter: `club_id=eq.${clubId}`
+        },
+        () => {
+          fetchApplications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clubId, user, enabled, fetchApplications]);
+
+  return {
+    applications,
+    loading,
+    error,
+    reviewApplication,
+    refreshApplications: fetchApplications
+  };
+}
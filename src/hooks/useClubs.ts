@@ -0,0 +1,513 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
+
+// Ordered from most to least senior
+export const CLUB_ROLES = ['president', 'officer', 'member', 'alumni'] as const;
+export type ClubRole = typeof CLUB_ROLES[number];
+
+export type ClubJoinPolicy = 'open' | 'application' | 'invite_only';
+
+export const clubRoleRank = (role?: string | null): number => {
+  const index = CLUB_ROLES.indexOf(role as ClubRole);
+  return index === -1 ? 0 : CLUB_ROLES.length - index;
+};
+
+// Presidents and officers run the club: review applications, manage members
+export const isClubOfficer = (role?: string | null): boolean =>
+  role === 'president' || role === 'officer';
+
+export interface Club {
+  id: string;
+  name: string;
+  description: string | null;
+  profile_pic_url: string | null;
+  banner_url: string | null;
+  created_by: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  join_policy: ClubJoinPolicy;
+  application_questions: string[];
+  member_count: number;
+  role?: ClubRole | null;
+  has_pending_application?: boolean;
+}
+
+export interface ClubMember {
+  id: string;
+  club_id: string;
+  user_id: string;
+  role: ClubRole;
+  joined_at: string;
+  profile?: {
+    username: string;
+    full_name: string;
+    profile_pic_url: string | null;
+  };
+}
+
+type ClubRow = Omit<Club, 'member_count' | 'role' | 'join_policy' | 'application_questions'> & {
+  join_policy: string | null;
+  application_questions: Json | null;
+  club_members: { count: number }[];
+};
+
+const toClub = (row: ClubRow, role?: string | null): Club => {
+  const { club_members, ...club } = row;
+  return {
+    ...club,
+    join_policy: (club.join_policy as ClubJoinPolicy) || 'open',
+    application_questions: Array.isArray(club.application_questions)
+      ? club.application_questions.filter((q): q is string => typeof q === 'string')
+      : [],
+    member_count: club_members?.[0]?.count ?? 0,
+    role: role as ClubRole | null | undefined
+  };
+};
+
+// Club RPCs report failures in their JSON payload rather than as errors
+const assertRpcSuccess = (result: Json) => {
+  const payload = result as { success?: boolean; error?: string } | null;
+  if (!payload?.success) {
+    throw new Error(payload?.error || 'Request failed');
+  }
+};
+
+export function useClubs() {
+  const { user } = useAuth();
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [discoverClubs, setDiscoverClubs] = useState<Club[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch clubs the user belongs to, along with their role in each
+  const fetchUserClubs = async () => {
+    if (!user) {
+      setClubs([]);
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const { data: memberships, error: membershipError } = await supabase
+        .from('club_members')
+        .select('club_id, role')
+        .eq('user_id', user.id);
+
+      if (membershipError) throw membershipError;
+
+      const roleByClub = new Map((memberships || []).map(m => [m.club_id, m.role]));
+      const clubIds = [...roleByClub.keys()].filter(Boolean);
+
+      if (clubIds.length === 0) {
+        setClubs([]);
+        return;
+      }
+
+      const { data, error: clubsError } = await supabase
+        .from('clubs')
+        .select('*, club_members(count)')
+        .in('id', clubIds)
+        .order('name', { ascending: true });
+
+      if (clubsError) throw clubsError;
+
+      setClubs((data as ClubRow[] || []).map(row => toClub(row, roleByClub.get(row.id))));
+    } catch (err) {
+      console.error('Error fetching user clubs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch clubs');
+      setClubs([]);
+    }
+  };
+
+  // Fetch clubs the user has not joined yet
+  const fetchDiscoverClubs = async () => {
+    if (!user) {
+      setDiscoverClubs([]);
+      return;
+    }
+
+    try {
+      const { data: memberships } = await supabase
+        .from('club_members')
+        .select('club_id')
+        .eq('user_id', user.id);
+
+      const joinedIds = (memberships || []).map(m => m.club_id);
+
+      const { data: applications } = await supabase
+        .from('club_applications')
+        .select('club_id')
+        .eq('user_id', user.id)
+        .eq('status', 'pending');
+
+      const pendingIds = (applications || []).map(a => a.club_id);
+
+      const { data, error: clubsError } = await supabase
+        .from('clubs')
+        .select('*, club_members(count)')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (clubsError) throw clubsError;
+
+      setDiscoverClubs(
+        (data as ClubRow[] || [])
+          .filter(row => !joinedIds.includes(row.id))
+          .slice(0, 20)
+          .map(row => ({
+            ...toClub(row),
+            has_pending_application: pendingIds.includes(row.id)
+          }))
+      );
+    } catch (err) {
+      console.error('Error fetching discover clubs:', err);
+      setDiscoverClubs([]);
+    }
+  };
+
+  // Create a new club; the database trigger makes the creator its president
+  const createClub = async (clubData: {
+    name: string;
+    description: string;
+    profile_pic_url?: string;
+    join_policy?: ClubJoinPolicy;
+    application_questions?: string[];
+  }) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { data: club, error: clubError } = await supabase
+        .from('clubs')
+        .insert({
+          name: clubData.name,
+          description: clubData.description,
+          profile_pic_url: clubData.profile_pic_url,
+          join_policy: clubData.join_policy || 'open',
+          application_questions: clubData.application_questions || [],
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (clubError) throw clubError;
+
+      await Promise.all([
+        fetchUserClubs(),
+        fetchDiscoverClubs()
+      ]);
+
+      return club;
+    } catch (err) {
+      console.error('Error creating club:', err);
+      throw err;
+    }
+  };
+
+  // Update join policy, application form or profile details (officers only)
+  const updateClub = async (clubId: string, updates: {
+    name?: string;
+    description?: string;
+    join_policy?: ClubJoinPolicy;
+    application_questions?: string[];
+  }) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('clubs')
+        .update(updates)
+        .eq('id', clubId);
+
+      if (error) throw error;
+
+      await fetchUserClubs();
+    } catch (err) {
+      console.error('Error updating club:', err);
+      throw err;
+    }
+  };
+
+  // Join an open club as a regular member
+  const joinClub = async (clubId: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('club_members')
+        .insert({
+          club_id: clubId,
+          user_id: user.id,
+          role: 'member'
+        });
+
+      if (error) throw error;
+
+      await Promise.all([
+        fetchUserClubs(),
+        fetchDiscoverClubs()
+      ]);
+    } catch (err) {
+      console.error('Error joining club:', err);
+      throw err;
+    }
+  };
+
+  // Apply to an application-based club with answers to its questions
+  const applyToClub = async (clubId: string, answers: { question: string; answer: string }[]) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('club_applications')
+        .insert({
+          club_id: clubId,
+          user_id: user.id,
+          answers
+        });
+
+      if (error) throw error;
+
+      await fetchDiscoverClubs();
+    } catch (err) {
+      console.error('Error applying to club:', err);
+      throw err;
+    }
+  };
+
+  // Withdraw a pending application
+  const withdrawApplication = async (clubId: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('club_applications')
+        .delete()
+        .eq('club_id', clubId)
+        .eq('user_id', user.id)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+
+      await fetchDiscoverClubs();
+    } catch (err) {
+      console.error('Error withdrawing application:', err);
+      throw err;
+    }
+  };
+
+  // Add a member directly (officers only, used by invite-only clubs)
+  const addMember = async (clubId: string, userId: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { data, error } = await supabase.rpc('add_club_member', {
+        target_club_id: clubId,
+        target_user_id: userId
+      });
+
+      if (error) throw error;
+      assertRpcSuccess(data);
+    } catch (err) {
+      console.error('Error adding club member:', err);
+      throw err;
+    }
+  };
+
+  // Change a member's role within the hierarchy
+  const setMemberRole = async (clubId: string, userId: string, role: ClubRole) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { data, error } = await supabase.rpc('set_club_member_role', {
+        target_club_id: clubId,
+        target_user_id: userId,
+        new_role: role
+      });
+
+      if (error) throw error;
+      assertRpcSuccess(data);
+
+      await fetchUserClubs();
+    } catch (err) {
+      console.error('Error changing member role:', err);
+      throw err;
+    }
+  };
+
+  // Leave a club. Presidents have to hand the role to another member first
+  const leaveClub = async (clubId: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      if (clubs.find(club => club.id === clubId)?.role === 'president') {
+        throw new Error('Make another member president before leaving the club');
+      }
+
+      const { data, error } = await supabase
+        .from('club_members')
+        .delete()
+        .eq('club_id', clubId)
+        .eq('user_id', user.id)
+        .select('club_id');
+
+      if (error) throw error;
+      // The database refuses to remove a president without an error
+      if (!data?.length) throw new Error('Make another member president before leaving the club');
+
+      await Promise.all([
+        fetchUserClubs(),
+        fetchDiscoverClubs()
+      ]);
+    } catch (err) {
+      console.error('Error leaving club:', err);
+      throw err;
+    }
+  };
+
+  // Get a single club by id, whether or not the user is a member
+  const getClub = async (clubId: string): Promise<Club | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('clubs')
+        .select('*, club_members(count)')
+        .eq('id', clubId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const joined = clubs.find(c => c.id === clubId);
+      const discovered = discoverClubs.find(c => c.id === clubId);
+      return {
+        ...toClub(data as ClubRow, joined?.role),
+        has_pending_application: discovered?.has_pending_application ?? false
+      };
+    } catch (err) {
+      console.error('Error fetching club:', err);
+      return null;
+    }
+  };
+
+  // Get club members with their roles
+  const getClubMembers = async (clubId: string): Promise<ClubMember[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('club_members')
+        .select(`
+          *,
+          profiles:user_id(username, full_name, profile_pic_url)
+        `)
+        .eq('club_id', clubId)
+        .order('joined_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(({ profiles, ...member }) => ({
+        ...member,
+        profile: profiles
+      }) as ClubMember);
+    } catch (err) {
+      console.error('Error fetching club members:', err);
+      throw err;
+    }
+  };
+
+  // Check if user is member of a club
+  const isClubMember = (clubId: string): boolean => {
+    return clubs.some(club => club.id === clubId);
+  };
+
+  // Set up real-time subscriptions
+  useEffect(() => {
+    if (!user) return;
+
+    const clubsChannel = supabase
+      .channel('clubs-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'clubs'
+        },
+        () => {
+          fetchUserClubs();
+          fetchDiscoverClubs();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'club_members'
+        },
+        () => {
+          fetchUserClubs();
+          fetchDiscoverClubs();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'club_applications',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchDiscoverClubs(); // Keep "Pending" badges in sync with review decisions
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(clubsChannel);
+    };
+  }, [user]);
+
+  // Initial data fetch
+  useEffect(() => {
+    const loadData = async () => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        await Promise.all([
+          fetchUserClubs(),
+          fetchDiscoverClubs()
+        ]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user]);
+
+  return {
+    clubs,
+    discoverClubs,
+    loading,
+    error,
+    createClub,
+    updateClub,
+    joinClub,
+    applyToClub,
+    withdrawApplication,
+    leaveClub,
+    addMember,
+    setMemberRole,
+    getClub,
+    getClubMembers,
+    isClubMember,
+    refreshClubs: fetchUserClubs,
+    refreshDiscoverClubs: fetchDiscoverClubs
+  };
+}
@@ -7,9 +7,12 @@ export interface Comment {
   id: string;
   post_id: string;
   author_id: string;
+  parent_comment_id: string | null;
   content: string;
   created_at: string;
   updated_at: string;
+  // Set when a moderator hid the comment; only its author still sees it
+  hidden_at?: string | null;
   author?: {
     id: string;
     full_name: string;
@@ -20,6 +23,43 @@ export interface Comment {
   };
 }
 
+export interface CommentThread extends Comment {
+  replies: CommentThread[];
+}
+
+const COMMENT_SELECT = `
+  *,
+  author:profiles!author_id(
+    id,
+    full_name,
+    username,
+    profile_pic_url,
+    branch,
+    year_of_study
+  )
+`;
+
+// updated_at only moves when a comment is edited
+export const isEditedComment = (comment: Comment) =>
+  !!comment.updated_at && new Date(comment.updated_at).getTime() > new Date(comment.created_at).getTime();
+
+// Nest a flat, oldest-first comment list into threads. Replies whose parent
+// is missing (e.g. deleted while we were offline) are dropped with it
+export const buildCommentThreads = (comments: Comment[]): CommentThread[] => {
+  const nodes = new Map<string, CommentThread>();
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, replies: [] }));
+
+  const roots: CommentThread[] = [];
+  nodes.forEach(node => {
+    if (!node.parent_comment_id) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parent_comment_id)?.replies.push(node);
+    }
+  });
+  return roots;
+};
+
 export const useComments = (postId: string) => {
   const { user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
@@ -33,17 +73,7 @@ export const useComments = (postId: string) => {
       
       const { data, error } = await supabase
         .from('comments')
-        .select(`
-          *,
-          author:profiles!author_id(
-            id,
-            full_name,
-            username,
-            profile_pic_url,
-            branch,
-            year_of_study
-          )
-        `)
+        .select(COMMENT_SELECT)
         .eq('post_id', postId)
         .order('created_at', { ascending: true });
 
@@ -62,30 +92,21 @@ export const useComments = (postId: string) => {
     }
   };
 
-  const createComment = async (content: string) => {
+  const createComment = async (content: string, parentId?: string) => {
     if (!user || !postId || !content.trim()) return null;
 
     try {
-      console.log('Creating comment:', { postId, content });
+      console.log('Creating comment:', { postId, content, parentId });
       
       const { data, error } = await supabase
         .from('comments')
         .insert({
           post_id: postId,
           author_id: user.id,
-          content: content.trim()
+          content: content.trim(),
+          parent_comment_id: parentId ?? null
         })
-        .select(`
-          *,
-          author:profiles!author_id(
-            id,
-            full_name,
-            username,
-            profile_pic_url,
-            branch,
-            year_of_study
-          )
-        `)
+        .select(COMMENT_SELECT)
         .single();
 
       if (error) {
@@ -97,9 +118,9 @@ export const useComments = (postId: string) => {
       console.log('Comment created successfully:', data);
       
       // Add comment to local state immediately
-      setComments(prev => [...prev, data]);
+      setComments(prev => prev.some(comment => comment.id === data.id) ? prev : [...prev, data]);
       
-      toast.success('Comment posted!');
+      toast.success(parentId ? 'Reply posted!' : 'Comment posted!');
       return data;
     } catch (error) {
       console.error('Error in createComment:', error);
@@ -108,6 +129,35 @@ export const useComments = (postId: string) => {
     }
   };
 
+  const updateComment = async (commentId: string, content: string) => {
+    if (!user || !content.trim()) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('comments')
+        .update({ content: content.trim() })
+        .eq('id', commentId)
+        .eq('author_id', user.id)
+        .select('id, content, updated_at')
+        .single();
+
+      if (error) {
+        console.error('Error updating comment:', error);
+        toast.error('Failed to update comment');
+        return false;
+      }
+
+      setComments(prev => prev.map(comment =>
+        comment.id === commentId ? { ...comment, content: data.content, updated_at: data.updated_at } : comment
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error in updateComment:', error);
+      toast.error('Failed to update comment');
+      return false;
+    }
+  };
+
   const deleteComment = async (commentId: string) => {
     if (!user) return false;
 
@@ -124,8 +174,17 @@ export const useComments = (postId: string) => {
         return false;
       }
 
-      // Remove comment from local state
-      setComments(prev => prev.filter(comment => comment.id !== commentId));
+      // Remove comment and its replies from local state; the database
+      // cascades the delete to the whole subtree
+      setComments(prev => {
+        const removed = new Set([commentId]);
+        prev.forEach(comment => {
+          if (comment.parent_comment_id && removed.has(comment.parent_comment_id)) {
+            removed.add(comment.id);
+          }
+        });
+        return prev.filter(comment => !removed.has(comment.id));
+      });
       toast.success('Comment deleted');
       return true;
     } catch (error) {
@@ -139,7 +198,7 @@ export const useComments = (postId: string) => {
     if (postId) {
       fetchComments();
 
-      // Set up real-time subscription for new comments
+      // Set up real-time subscription for new, edited and deleted comments
       const channel = supabase
         .channel(`comments-${postId}`)
         .on(
@@ -156,17 +215,7 @@ export const useComments = (postId: string) => {
             // Fetch the complete comment with author info
             const { data } = await supabase
               .from('comments')
-              .select(`
-                *,
-                author:profiles!author_id(
-                  id,
-                  full_name,
-                  username,
-                  profile_pic_url,
-                  branch,
-                  year_of_study
-                )
-              `)
+              .select(COMMENT_SELECT)
               .eq('id', payload.new.id)
               .single();
 
@@ -181,6 +230,34 @@ export const useComments = (postId: string) => {
             }
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'comments',
+            filter: `post_id=eq.${postId}`,
+          },
+          (payload) => {
+            const updated = payload.new as Comment;
+            setComments(prev => prev.map(comment =>
+              comment.id === updated.id ? { ...comment, content: updated.content, updated_at: updated.updated_at } : comment
+            ));
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'comments',
+            filter: `post_id=eq.${postId}`,
+          },
+          (payload) => {
+            // Cascaded replies arrive as their own DELETE events
+            setComments(prev => prev.filter(comment => comment.id !== payload.old.id));
+          }
+        )
         .subscribe();
 
       console.log('Real-time subscription set up for comments');
@@ -193,8 +270,10 @@ export const useComments = (postId: string) => {
 
   return {
     comments,
+    threads: buildCommentThreads(comments),
     loading,
     createComment,
+    updateComment,
     deleteComment,
     refreshComments: fetchComments
   };
@@ -0,0 +1,83 @@
+import { useEffect, useId } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface Conversation {
+  partner_id: string;
+  partner_name: string;
+  partner_username: string;
+  partner_pic: string | null;
+  partner_online: boolean;
+  last_message_id: string;
+  last_message_content: string | null;
+  last_message_has_media: boolean;
+  last_message_deleted: boolean;
+  last_message_sender_id: string;
+  last_message_at: string;
+  unread_count: number;
+}
+
+// The signed-in user's direct message conversations, latest activity first,
+// kept live as messages arrive or are read (also from other tabs)
+export const useConversations = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Header and Friends page both subscribe; each needs its own channel
+  const instanceId = useId();
+
+  const query = useQuery({
+    queryKey: ['conversations', user?.id ?? null],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_conversations');
+
+      if (error) {
+        console.error('Error fetching conversations:', error);
+        throw error;
+      }
+
+      return (data || []) as Conversation[];
+    },
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ['conversations', user.id] });
+
+    const channel = supabase
+      .channel(`conversations-${user.id}-${instanceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'direct_messages', filter: `receiver_id=eq.${user.id}` },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'direct_messages', filter: `sender_id=eq.${user.id}` },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient, instanceId]);
+
+  const conversations = query.data ?? [];
+
+  return {
+    conversations,
+    unreadTotal: conversations.reduce((sum, c) => sum + c.unread_count, 0),
+    loading: query.isLoading,
+  };
+};
+
+// A short preview of a conversation's latest message
+export const conversationPreview = (conversation: Conversation, userId?: string) => {
+  const text = conversation.last_message_deleted
+    ? 'Message deleted'
+    : conversation.last_message_content?.trim() || (conversation.last_message_has_media ? '📎 Attachment' : '');
+  return conversation.last_message_sender_id === userId ? `You: ${text}` : text;
+};
@@ -0,0 +1,276 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
+import type { RsvpStatus } from '@/hooks/useEvents';
+
+export interface AttendanceRecord {
+  id: string;
+  event_id: string;
+  user_id: string;
+  method: 'qr' | 'manual';
+  checked_in_at: string;
+  profile?: {
+    username: string;
+    full_name: string;
+    profile_pic_url: string | null;
+  };
+}
+
+export interface ExpectedAttendee {
+  user_id: string;
+  status: RsvpStatus;
+  profile?: {
+    username: string;
+    full_name: string;
+    profile_pic_url: string | null;
+  };
+}
+
+export interface CheckInResult {
+  success: boolean;
+  duplicate?: boolean;
+  error?: string;
+  user_id?: string;
+  full_name?: string;
+  checked_in_at?: string;
+}
+
+export interface ClubEventAttendance {
+  id: string;
+  name: string;
+  start_date: string | null;
+  cancelled_at: string | null;
+  going_count: number;
+  attended_count: number;
+}
+
+const ATTENDEE_PROFILE = 'profiles!event_attendance_user_id_fkey(username, full_name, profile_pic_url)';
+
+// Check-in RPCs report failures (including duplicates) in their JSON payload
+const toCheckInResult = (data: Json): CheckInResult =>
+  (data as unknown as CheckInResult | null) ?? { success: false, error: 'Request failed' };
+
+// Organizer-side check-in for a single event
+export function useEventCheckIn(eventId: string | null) {
+  const { user } = useAuth();
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [expected, setExpected] = useState<ExpectedAttendee[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAttendance = async () => {
+    if (!eventId) {
+      setAttendance([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('event_attendance')
+        .select(`*, ${ATTENDEE_PROFILE}`)
+        .eq('event_id', eventId)
+        .order('checked_in_at', { ascending: false });
+
+      if (error) throw error;
+
+      setAttendance((data || []).map(({ profiles, ...record }) => ({
+        ...record,
+        profile: profiles
+      }) as AttendanceRecord));
+    } catch (err) {
+      console.error('Error fetching attendance:', err);
+      setAttendance([]);
+    }
+  };
+
+  // Everyone who RSVP'd, for the manual check-in list
+  const fetchExpected = async () => {
+    if (!eventId) {
+      setExpected([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('event_rsvps')
+        .select('user_id, status, profiles:user_id(username, full_name, profile_pic_url)')
+        .eq('event_id', eventId)
+        .in('status', ['going', 'maybe', 'waitlisted']);
+
+      if (error) throw error;
+
+      setExpected((data || []).map(({ profiles, ...rsvp }) => ({
+        ...rsvp,
+        profile: profiles
+      }) as ExpectedAttendee));
+    } catch (err) {
+      console.error('Error fetching expected attendees:', err);
+      setExpected([]);
+    }
+  };
+
+  // Validate a scanned or typed check-in code
+  const checkInWithCode = async (code: string): Promise<CheckInResult> => {
+    if (!user) throw new Error('User not authenticated');
+    if (!eventId) throw new Error('No event selected');
+
+    try {
+      const { data, error } = await supabase.rpc('check_in_with_code', {
+        target_event_id: eventId,
+        checkin_code: code
+      });
+
+      if (error) throw error;
+
+      const result = toCheckInResult(data);
+      if (result.success) await fetchAttendance();
+      return result;
+    } catch (err) {
+      console.error('Error checking in with code:', err);
+      throw err;
+    }
+  };
+
+  // Check an attendee in without a code
+  const manualCheckIn = async (userId: string): Promise<CheckInResult> => {
+    if (!user) throw new Error('User not authenticated');
+    if (!eventId) throw new Error('No event selected');
+
+    try {
+      const { data, error } = await supabase.rpc('manual_check_in', {
+        target_event_id: eventId,
+        target_user_id: userId
+      });
+
+      if (error) throw error;
+
+      const result = toCheckInResult(data);
+      if (result.success) await fetchAttendance();
+      return result;
+    } catch (err) {
+      console.error('Error with manual check-in:', err);
+      throw err;
+    }
+  };
+
+  // Keep every organizer's scanner in sync
+  useEffect(() => {
+    if (!user || !eventId) return;
+
+    const attendanceChannel = supabase
+      .channel(`event-attendance-${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_attendance',
+          filter: `event_id=eq.${eventId}`
+        },
+        () => {
+          fetchAttendance();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(attendanceChannel);
+    };
+  }, [user, eventId]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        await Promise.all([
+          fetchAttendance(),
+          fetchExpected()
+        ]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, eventId]);
+
+  return {
+    attendance,
+    expected,
+    loading,
+    checkInWithCode,
+    manualCheckIn,
+    refreshAttendance: fetchAttendance
+  };
+}
+
+// Attendance history across a club's events
+export function useClubAttendance(clubId: string) {
+  const [events, setEvents] = useState<ClubEventAttendance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchClubAttendance = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, name, start_date, cancelled_at, event_rsvps(status), event_attendance(count)')
+        .eq('organizer_type', 'club')
+        .eq('organizer_id', clubId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      setEvents((data || []).map(({ event_rsvps, event_attendance, ...event }) => ({
+        ...event,
+        going_count: (event_rsvps || []).filter(r => r.status === 'going').length,
+        attended_count: event_attendance?.[0]?.count ?? 0
+      })));
+    } catch (err) {
+      console.error('Error fetching club attendance:', err);
+      setEvents([]);
+    }
+  };
+
+  // Full attendance records for CSV export
+  const getAttendanceRecords = async (eventIds: string[]): Promise<AttendanceRecord[]> => {
+    if (eventIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('event_attendance')
+        .select(`*, ${ATTENDEE_PROFILE}`)
+        .in('event_id', eventIds)
+        .order('checked_in_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(({ profiles, ...record }) => ({
+        ...record,
+        profile: profiles
+      }) as AttendanceRecord);
+    } catch (err) {
+      console.error('Error fetching attendance records:', err);
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        await fetchClubAttendance();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [clubId]);
+
+  return {
+    events,
+    loading,
+    getAttendanceRecords,
+    refreshClubAttendance: fetchClubAttendance
+  };
+}
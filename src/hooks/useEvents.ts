@@ -0,0 +1,564 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type EventOrganizerType = 'user' | 'club' | 'group';
+export type RsvpStatus = 'going' | 'maybe' | 'not_going' | 'waitlisted';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Weekdays use 0 = Sunday, matching Date.getDay()
+export interface EventRecurrence {
+  frequency: RecurrenceFrequency;
+  repeat_interval: number;
+  weekdays: number[];
+  until_date: string | null;
+  occurrence_count: number | null;
+}
+
+export interface CampusEvent {
+  id: string;
+  name: string;
+  description: string | null;
+  event_type: string | null;
+  organizer_type: EventOrganizerType;
+  organizer_id: string | null;
+  organizer_name?: string;
+  start_date: string | null;
+  end_date: string | null;
+  image_url: string | null;
+  location: string | null;
+  capacity: number | null;
+  cancelled_at: string | null;
+  created_by: string | null;
+  series_id: string | null;
+  original_start_date: string | null;
+  recurrence: EventRecurrence | null;
+  going_count: number;
+  maybe_count: number;
+  waitlist_count: number;
+  my_status: RsvpStatus | null;
+  waitlist_position: number | null;
+}
+
+export interface EventOrganizer {
+  type: EventOrganizerType;
+  id: string;
+  name: string;
+}
+
+export interface NewEvent {
+  name: string;
+  description?: string;
+  event_type?: string;
+  organizer_type: EventOrganizerType;
+  organizer_id: string;
+  start_date: string;
+  end_date?: string | null;
+  location?: string;
+  capacity?: number | null;
+  image_url?: string;
+  recurrence?: EventRecurrence;
+}
+
+type EventRow = Tables<'events'> & {
+  event_rsvps: { user_id: string | null; status: string; responded_at: string | null }[] | null;
+  event_series: Pick<Tables<'event_series'>, 'frequency' | 'repeat_interval' | 'weekdays' | 'until_date' | 'occurrence_count'> | null;
+};
+
+const EVENT_SELECT = '*, event_rsvps(user_id, status, responded_at), event_series(frequency, repeat_interval, weekdays, until_date, occurrence_count)';
+
+// Event RPCs report failures in their JSON payload rather than as errors
+const assertRpcSuccess = (result: Json) => {
+  const payload = result as { success?: boolean; error?: string; status?: RsvpStatus } | null;
+  if (!payload?.success) {
+    throw new Error(payload?.error || 'Request failed');
+  }
+  return payload;
+};
+
+const toEvent = (row: EventRow, userId?: string): CampusEvent => {
+  const { event_rsvps, event_series, ...event } = row;
+  const rsvps = event_rsvps || [];
+  const waitlist = rsvps
+    .filter(r => r.status === 'waitlisted')
+    .sort((a, b) => (a.responded_at || '').localeCompare(b.responded_at || ''));
+  const mine = rsvps.find(r => r.user_id === userId);
+  const position = waitlist.findIndex(r => r.user_id === userId);
+
+  return {
+    ...event,
+    organizer_type: (event.organizer_type as EventOrganizerType) || 'user',
+    recurrence: event_series ? { ...event_series, frequency: event_series.frequency as RecurrenceFrequency } : null,
+    going_count: rsvps.filter(r => r.status === 'going').length,
+    maybe_count: rsvps.filter(r => r.status === 'maybe').length,
+    waitlist_count: waitlist.length,
+    my_status: (mine?.status as RsvpStatus) ?? null,
+    waitlist_position: position >= 0 ? position + 1 : null
+  };
+};
+
+// Resolve "By: ..." labels for a batch of events in three queries
+const withOrganizerNames = async (events: CampusEvent[]): Promise<CampusEvent[]> => {
+  const idsOf = (type: EventOrganizerType) =>
+    [...new Set(events.filter(e => e.organizer_type === type && e.organizer_id).map(e => e.organizer_id as string))];
+
+  const [clubIds, groupIds, userIds] = [idsOf('club'), idsOf('group'), idsOf('user')];
+
+  const [clubs, groups, profiles] = await Promise.all([
+    clubIds.length ? supabase.from('clubs').select('id, name').in('id', clubIds) : Promise.resolve({ data: [] }),
+    groupIds.length ? supabase.from('groups').select('id, name').in('id', groupIds) : Promise.resolve({ data: [] }),
+    userIds.length ? supabase.from('profiles').select('id, full_name').in('id', userIds) : Promise.resolve({ data: [] })
+  ]);
+
+  const names = new Map<string, string>();
+  (clubs.data || []).forEach(c => names.set(c.id, c.name));
+  (groups.data || []).forEach(g => names.set(g.id, g.name));
+  (profiles.data || []).forEach(p => names.set(p.id, p.full_name));
+
+  return events.map(e => ({
+    ...e,
+    organizer_name: e.organizer_id ? names.get(e.organizer_id) : undefined
+  }));
+};
+
+export const isEventPast = (event: Pick<CampusEvent, 'start_date' | 'end_date'>) => {
+  const ends = event.end_date || event.start_date;
+  return !!ends && new Date(ends) < new Date();
+};
+
+// Downloadable .ics for a single event, served by the calendar-feed edge function
+export const getEventIcsUrl = (eventId: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?event=${eventId}`;
+
+// True when one occurrence of a series was moved away from its scheduled slot
+export const isRescheduledOccurrence = (event: Pick<CampusEvent, 'start_date' | 'original_start_date'>) =>
+  !!event.original_start_date && !!event.start_date &&
+  new Date(event.start_date).getTime() !== new Date(event.original_start_date).getTime();
+
+// Keep only the first listed occurrence of each series
+export const collapseSeries = (events: CampusEvent[]) => {
+  const seen = new Set<string>();
+  return events.filter(e => {
+    if (!e.series_id) return true;
+    if (seen.has(e.series_id)) return false;
+    seen.add(e.series_id);
+    return true;
+  });
+};
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+// e.g. "Every Tue & Thu until Dec 12" or "Every 2 weeks on Mon, 10 times"
+export const formatRecurrence = (rule: EventRecurrence) => {
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  const days = [...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_NAMES[d]);
+  const dayList = days.length > 1 ? `${days.slice(0, -1).join(', ')} & ${days[days.length - 1]}` : days[0];
+
+  let label = rule.repeat_interval > 1 ? `Every ${rule.repeat_interval} ${unit}s` : `Every ${unit}`;
+  if (rule.frequency === 'weekly' && dayList) {
+    label = rule.repeat_interval > 1 ? `${label} on ${dayList}` : `Every ${dayList}`;
+  }
+
+  if (rule.until_date) return `${label} until ${format(new Date(`${rule.until_date}T00:00:00`), 'MMM d')}`;
+  if (rule.occurrence_count) return `${label}, ${rule.occurrence_count} times`;
+  return label;
+};
+
+export const formatEventDate = (event: Pick<CampusEvent, 'start_date' | 'end_date'>) => {
+  if (!event.start_date) return 'Date to be announced';
+  const start = new Date(event.start_date);
+  if (!event.end_date) return format(start, 'EEE, MMM d • h:mm a');
+
+  const end = new Date(event.end_date);
+  return start.toDateString() === end.toDateString()
+    ? `${format(start, 'EEE, MMM d • h:mm a')} – ${format(end, 'h:mm a')}`
+    : `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+};
+
+export function useEvents(organizerType?: EventOrganizerType, organizerId?: string) {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<CampusEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch events, optionally scoped to one organizer, with RSVP tallies
+  const fetchEvents = async () => {
+    try {
+      setError(null);
+
+      let query = supabase
+        .from('events')
+        .select(EVENT_SELECT)
+        .order('start_date', { ascending: true });
+
+      if (organizerType && organizerId) {
+        query = query.eq('organizer_type', organizerType).eq('organizer_id', organizerId);
+      } else {
+        // Campus-wide listings only show what's still ahead, so one long
+        // series can't crowd everything else out
+        const now = new Date().toISOString();
+        query = query.or(`start_date.gte.${now},end_date.gte.${now}`);
+      }
+
+      const { data, error: eventsError } = await query.limit(100);
+
+      if (eventsError) throw eventsError;
+
+      const mapped = (data as EventRow[] || []).map(row => toEvent(row, user?.id));
+      setEvents(await withOrganizerNames(mapped));
+    } catch (err) {
+      console.error('Error fetching events:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch events');
+      setEvents([]);
+    }
+  };
+
+  // Create an event for the user, a club they run or a group they belong to
+  const createEvent = async ({ recurrence, ...eventData }: NewEvent) => {
+    if (!user) throw new Error('User not authenticated');
+    if (recurrence) return createRecurringEvent(eventData, recurrence);
+
+    try {
+      const { data: event, error: eventError } = await supabase
+        .from('events')
+        .insert({
+          ...eventData,
+          created_by: user.id
+        })
+        .select()
+        .single();
+
+      if (eventError) throw eventError;
+
+      await fetchEvents();
+      return event;
+    } catch (err) {
+      console.error('Error creating event:', err);
+      throw err;
+    }
+  };
+
+  // Create a series; the server expands the rule in the organizer's time zone
+  const createRecurringEvent = async (eventData: Omit<NewEvent, 'recurrence'>, recurrence: EventRecurrence) => {
+    try {
+      const { data, error } = await supabase.rpc('create_recurring_event', {
+        event_name: eventData.name,
+        event_description: eventData.description || undefined,
+        event_location: eventData.location || undefined,
+        event_capacity: eventData.capacity ?? undefined,
+        org_type: eventData.organizer_type,
+        org_id: eventData.organizer_id,
+        first_start: eventData.start_date,
+        first_end: eventData.end_date || undefined,
+        repeat_frequency: recurrence.frequency,
+        repeat_interval: recurrence.repeat_interval,
+        repeat_weekdays: recurrence.weekdays,
+        repeat_until: recurrence.until_date || undefined,
+        repeat_count: recurrence.occurrence_count ?? undefined,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      });
+
+      if (error) throw error;
+      const result = assertRpcSuccess(data);
+
+      await fetchEvents();
+      return result;
+    } catch (err) {
+      console.error('Error creating recurring event:', err);
+      throw err;
+    }
+  };
+
+  // Move an event, or a single occurrence of a series (organizers only)
+  const rescheduleEvent = async (eventId: string, startDate: string, endDate: string | null) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('events')
+        .update({ start_date: startDate, end_date: endDate })
+        .eq('id', eventId);
+
+      if (error) throw error;
+
+      await fetchEvents();
+    } catch (err) {
+      console.error('Error rescheduling event:', err);
+      throw err;
+    }
+  };
+
+  // Delete an event (organizers only)
+  const deleteEvent = async (eventId: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('events')
+        .delete()
+        .eq('id', eventId);
+
+      if (error) throw error;
+
+      setEvents(prev => prev.filter(e => e.id !== eventId));
+    } catch (err) {
+      console.error('Error deleting event:', err);
+      throw err;
+    }
+  };
+
+  // Cancel an event (organizers only); it stays listed so attendees and
+  // subscribed calendars see the cancellation
+  const cancelEvent = async (eventId: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { error } = await supabase
+        .from('events')
+        .update({ cancelled_at: new Date().toISOString() })
+        .eq('id', eventId);
+
+      if (error) throw error;
+
+      await fetchEvents();
+    } catch (err) {
+      console.error('Error cancelling event:', err);
+      throw err;
+    }
+  };
+
+  // RSVP going, maybe or not going; returns the resulting status
+  // ("going" becomes "waitlisted" when the event is full)
+  const rsvp = async (eventId: string, status: Exclude<RsvpStatus, 'waitlisted'>): Promise<RsvpStatus> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { data, error } = await supabase.rpc('rsvp_event', {
+        target_event_id: eventId,
+        new_status: status
+      });
+
+      if (error) throw error;
+      const result = assertRpcSuccess(data);
+
+      await fetchEvents();
+      return result.status || status;
+    } catch (err) {
+      console.error('Error updating RSVP:', err);
+      throw err;
+    }
+  };
+
+  // The user's signed check-in code for an event they're going to
+  const getCheckInCode = async (eventId: string): Promise<string> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const { data, error } = await supabase.rpc('get_event_checkin_code', {
+        target_event_id: eventId
+      });
+
+      if (error) throw error;
+
+      const result = data as { success?: boolean; error?: string; code?: string } | null;
+      if (!result?.success || !result.code) {
+        throw new Error(result?.error || 'Failed to load check-in code');
+      }
+      return result.code;
+    } catch (err) {
+      console.error('Error fetching check-in code:', err);
+      throw err;
+    }
+  };
+
+  // Organizers the user may create events for
+  const getOrganizerOptions = async (): Promise<EventOrganizer[]> => {
+    if (!user) return [];
+
+    try {
+      const [{ data: clubRoles }, { data: groupMemberships }, { data: profile }] = await Promise.all([
+        supabase
+          .from('club_members')
+          .select('club_id, clubs:club_id(name)')
+          .eq('user_id', user.id)
+          .in('role', ['president', 'officer']),
+        supabase
+          .from('group_members')
+          .select('group_id, groups:group_id(name)')
+          .eq('user_id', user.id),
+        supabase
+          .from('profiles')
+          .select('full_name')
+          .eq('id', user.id)
+          .maybeSingle()
+      ]);
+
+      return [
+        { type: 'user' as const, id: user.id, name: profile?.full_name || 'Myself' },
+        ...(clubRoles || [])
+          .filter(c => c.club_id && c.clubs)
+          .map(c => ({ type: 'club' as const, id: c.club_id as string, name: c.clubs!.name })),
+        ...(groupMemberships || [])
+          .filter(g => g.group_id && g.groups)
+          .map(g => ({ type: 'group' as const, id: g.group_id as string, name: g.groups!.name }))
+      ];
+    } catch (err) {
+      console.error('Error fetching event organizers:', err);
+      return [];
+    }
+  };
+
+  // Set up real-time subscriptions
+  useEffect(() => {
+    if (!user) return;
+
+    const eventsChannel = supabase
+      .channel(`events-changes-${organizerId || 'all'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'events'
+        },
+        () => {
+          fetchEvents();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_rsvps'
+        },
+        () => {
+          fetchEvents(); // Keep attendee counts and waitlist positions live
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(eventsChannel);
+    };
+  }, [user, organizerType, organizerId]);
+
+  // Initial data fetch
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        await fetchEvents();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, organizerType, organizerId]);
+
+  return {
+    events,
+    loading,
+    error,
+    createEvent,
+    cancelEvent,
+    rescheduleEvent,
+    deleteEvent,
+    rsvp,
+    getCheckInCode,
+    getOrganizerOptions,
+    refreshEvents: fetchEvents
+  };
+}
+
+export interface UpcomingRsvp {
+  status: RsvpStatus;
+  event: CampusEvent;
+}
+
+// The current user's upcoming events they're going to, might attend or are waitlisted for
+export function useUpcomingRsvps(limit = 5) {
+  const { user } = useAuth();
+  const [rsvps, setRsvps] = useState<UpcomingRsvp[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUpcomingRsvps = async () => {
+    if (!user) {
+      setRsvps([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('event_rsvps')
+        .select(`status, events!inner(${EVENT_SELECT})`)
+        .eq('user_id', user.id)
+        .in('status', ['going', 'maybe', 'waitlisted'])
+        .gte('events.start_date', new Date().toISOString());
+
+      if (error) throw error;
+
+      const upcoming = (data || [])
+        .map(r => ({ status: r.status as RsvpStatus, event: toEvent(r.events as EventRow, user.id) }))
+        .sort((a, b) => (a.event.start_date || '').localeCompare(b.event.start_date || ''))
+        .slice(0, limit);
+
+      const named = await withOrganizerNames(upcoming.map(r => r.event));
+      setRsvps(upcoming.map((r, i) => ({ ...r, event: named[i] })));
+    } catch (err) {
+      console.error('Error fetching upcoming RSVPs:', err);
+      setRsvps([]);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    const rsvpChannel = supabase
+      .channel(`my-rsvps-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_rsvps',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchUpcomingRsvps();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(rsvpChannel);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        await fetchUpcomingRsvps();
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, limit]);
+
+  return {
+    rsvps,
+    loading,
+    refreshUpcomingRsvps: fetchUpcomingRsvps
+  };
+}
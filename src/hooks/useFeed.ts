@@ -0,0 +1,358 @@
+import { useState, useEffect, useRef } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData, type QueryClient } from '@tanstack/react-query';
+import type { RealtimePostgresUpdatePayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Post } from '@/hooks/usePosts';
+
+const PAGE_SIZE = 10;
+
+export const POST_SELECT = `
+  *,
+  author:profiles!author_id(
+    id,
+    full_name,
+    username,
+    profile_pic_url,
+    branch,
+    year_of_study,
+    skills
+  )
+`;
+
+// 'latest' is newest first; 'for_you' is ranked by get_ranked_feed
+export type FeedMode = 'latest' | 'for_you';
+
+// Last post of a page; the next page starts strictly after it
+interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+// Position in a ranked feed, scored as of the time the first page loaded
+interface RankedCursor {
+  as_of: string;
+  offset: number;
+}
+
+type FeedData = InfiniteData<Post[], FeedCursor | RankedCursor | null>;
+
+export const feedQueryKey = (tag?: string, mode: FeedMode = 'latest') => ['feed', tag ?? null, mode] as const;
+
+// Topic pages inner-join post_tags so only tagged posts come back
+const selectPosts = (tag?: string) => tag
+  ? supabase.from('posts').select(`${POST_SELECT}, post_tags!inner(tag)`).eq('post_tags.tag', tag)
+  : supabase.from('posts').select(POST_SELECT);
+
+const fetchFeedPage = async (tag: string | undefined, cursor: FeedCursor | null): Promise<Post[]> => {
+  let query = selectPosts(tag)
+    .eq('is_published', true)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching posts:', error);
+    toast.error('Failed to load posts');
+    throw error;
+  }
+
+  return (data || []) as Post[];
+};
+
+const fetchRankedPage = async (cursor: RankedCursor): Promise<Post[]> => {
+  const { data: ranked, error: rankError } = await supabase.rpc('get_ranked_feed', {
+    as_of: cursor.as_of,
+    page_offset: cursor.offset,
+    page_size: PAGE_SIZE
+  });
+
+  if (rankError) {
+    console.error('Error ranking posts:', rankError);
+    toast.error('Failed to load posts');
+    throw rankError;
+  }
+
+  const ids = (ranked || []).map(row => row.post_id);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select(POST_SELECT)
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error fetching posts:', error);
+    toast.error('Failed to load posts');
+    throw error;
+  }
+
+  // Keep the ranked order
+  const byId = new Map((data || []).map(post => [post.id, post as Post]));
+  return ids.map(id => byId.get(id)).filter((post): post is Post => !!post);
+};
+
+// Insert posts at the top of a loaded feed, skipping ones already in it.
+// Later pages are unaffected because their cursors don't depend on page 1
+const mergeIntoFeed = (queryClient: QueryClient, tag: string | undefined, mode: FeedMode, posts: Post[]) => {
+  queryClient.setQueryData<FeedData>(feedQueryKey(tag, mode), old => {
+    if (!old) return old;
+
+    const loaded = new Set(old.pages.flat().map(post => post.id));
+    const fresh = posts.filter(post => !loaded.has(post.id));
+    if (fresh.length === 0) return old;
+
+    return {
+      ...old,
+      pages: [[...fresh, ...(old.pages[0] || [])], ...old.pages.slice(1)]
+    };
+  });
+};
+
+export const prependToFeed = (queryClient: QueryClient, post: Post) => {
+  mergeIntoFeed(queryClient, undefined, 'latest', [post]);
+  mergeIntoFeed(queryClient, undefined, 'for_you', [post]);
+};
+
+// Apply an edited post to every loaded feed and to a linked post
+export const replaceInFeeds = (queryClient: QueryClient, post: Post) => {
+  queryClient.setQueriesData<FeedData>({ queryKey: ['feed'] }, old => old && {
+    ...old,
+    pages: old.pages.map(page => page.map(p => (p.id === post.id ? post : p)))
+  });
+  queryClient.setQueryData<Post | null>(['post', post.id], old => old && post);
+};
+
+export const removeFromFeeds = (queryClient: QueryClient, postId: string) => {
+  queryClient.setQueriesData<FeedData>({ queryKey: ['feed'] }, old => old && {
+    ...old,
+    pages: old.pages.map(page => page.filter(p => p.id !== postId))
+  });
+  queryClient.setQueryData<Post | null>(['post', postId], old => old && null);
+};
+
+// Published posts loaded a page at a time, newest first or ranked for the
+// viewer. Pass a tag to only list posts carrying that #tag (topic pages).
+// Other people's new posts are held back in newPosts until showNewPosts() so
+// the list doesn't jump
+export const useFeed = (tag?: string, mode: FeedMode = 'latest') => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [newPosts, setNewPosts] = useState<Post[]>([]);
+  // For the realtime handlers, which outlive a render
+  const newPostsRef = useRef<Post[]>([]);
+  newPostsRef.current = newPosts;
+
+  const query = useInfiniteQuery({
+    queryKey: feedQueryKey(tag, mode),
+    queryFn: ({ pageParam }) => mode === 'for_you'
+      ? fetchRankedPage(pageParam as RankedCursor)
+      : fetchFeedPage(tag, pageParam as FeedCursor | null),
+    initialPageParam: (mode === 'for_you'
+      ? { as_of: new Date().toISOString(), offset: 0 }
+      : null) as FeedCursor | RankedCursor | null,
+    getNextPageParam: (lastPage, _allPages, lastPageParam): FeedCursor | RankedCursor | null | undefined => {
+      if (lastPage.length < PAGE_SIZE) return undefined;
+      if (mode === 'for_you') {
+        const ranked = lastPageParam as RankedCursor;
+        return { as_of: ranked.as_of, offset: ranked.offset + PAGE_SIZE };
+      }
+      const last = lastPage[lastPage.length - 1];
+      return { created_at: last.created_at, id: last.id };
+    },
+    // Realtime keeps the feed current; refetching on focus would reshuffle it
+    refetchOnWindowFocus: false,
+  });
+
+  const posts = query.data?.pages.flat() ?? [];
+
+  const showNewPosts = () => {
+    mergeIntoFeed(queryClient, tag, mode, newPosts);
+    setNewPosts([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  useEffect(() => {
+    setNewPosts([]);
+
+    // New posts arrive as inserts; scheduled posts arrive as updates when
+    // they're published
+    const handleNewPost = async (payload: { new: { id?: string } }) => {
+      // Fetch the complete post with author info
+      const { data } = await selectPosts(tag)
+        .eq('id', payload.new.id)
+        .maybeSingle();
+
+      if (!data) return;
+
+      // Your own posts go straight in; everyone else's wait behind the pill
+      if (data.author_id === user?.id) {
+        mergeIntoFeed(queryClient, tag, mode, [data]);
+        return;
+      }
+
+      setNewPosts(prev => prev.some(post => post.id === data.id) ? prev : [data, ...prev]);
+    };
+
+    const loadedPostIds = () => {
+      const loaded = queryClient.getQueryData<FeedData>(feedQueryKey(tag, mode));
+      return new Set([...(loaded?.pages.flat() ?? []), ...newPostsRef.current].map(post => post.id));
+    };
+
+    const dropPost = (postId: string) => {
+      removeFromFeeds(queryClient, postId);
+      setNewPosts(prev => prev.filter(post => post.id !== postId));
+    };
+
+    // Any other update to a published post (an edit, a revision, an
+    // audience change) only matters if the post is already loaded. posts has
+    // REPLICA IDENTITY FULL, so the old row tells the two apart. A post the
+    // viewer can no longer see comes back empty and is dropped
+    const handleUpdatedPost = async (payload: RealtimePostgresUpdatePayload<{ id?: string; is_published?: boolean }>) => {
+      if (payload.old.is_published === false) {
+        await handleNewPost(payload);
+        return;
+      }
+
+      const postId = payload.new.id;
+      if (!postId || !loadedPostIds().has(postId)) return;
+
+      const { data, error } = await supabase
+        .from('posts')
+        .select(POST_SELECT)
+        .eq('id', postId)
+        .maybeSingle();
+
+      if (error) return;
+      if (!data) {
+        dropPost(postId);
+        return;
+      }
+
+      replaceInFeeds(queryClient, data as Post);
+      setNewPosts(prev => prev.map(post => post.id === postId ? data as Post : post));
+    };
+
+    // Realtime doesn't deliver updates to viewers who can no longer see the
+    // post, e.g. once a moderator hides it. Loaded posts are checked again
+    // whenever the tab comes back or the channel reconnects
+    const dropUnavailablePosts = async () => {
+      const ids = [...loadedPostIds()];
+      if (ids.length === 0) return;
+
+      const { data, error } = await supabase
+        .from('posts')
+        .select('id')
+        .in('id', ids)
+        .eq('is_published', true);
+
+      if (error) {
+        console.error('Error checking loaded posts:', error);
+        return;
+      }
+
+      const visible = new Set((data || []).map(row => row.id));
+      ids.filter(id => !visible.has(id)).forEach(dropPost);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') dropUnavailablePosts();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    let subscribed = false;
+
+    const channel = supabase
+      .channel(tag ? `posts-tag-${tag}` : `posts-${mode}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'posts',
+          filter: 'is_published=eq.true',
+        },
+        handleNewPost
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'posts',
+          filter: 'is_published=eq.true',
+        },
+        handleUpdatedPost
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'posts',
+        },
+        (payload) => {
+          const postId = (payload.old as { id?: string }).id;
+          if (postId) dropPost(postId);
+        }
+      )
+      .subscribe(status => {
+        if (status !== 'SUBSCRIBED') return;
+        if (subscribed) dropUnavailablePosts();
+        subscribed = true;
+      });
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      supabase.removeChannel(channel);
+    };
+  }, [tag, mode, user?.id, queryClient]);
+
+  return {
+    posts,
+    loading: query.isLoading,
+    hasMore: query.hasNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+    newPosts,
+    showNewPosts,
+    refreshPosts: query.refetch
+  };
+};
+
+// A single post, for links to posts that aren't in the loaded pages
+export const usePost = (postId: string | null) => {
+  const query = useQuery({
+    queryKey: ['post', postId],
+    enabled: !!postId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select(POST_SELECT)
+        .eq('id', postId!)
+        .eq('is_published', true)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching post:', error);
+        throw error;
+      }
+
+      return data as Post | null;
+    },
+  });
+
+  return {
+    post: query.data ?? null,
+    loading: query.isLoading
+  };
+};
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { pollDraftArgs, type PollDraft } from '@/hooks/usePolls';
+import { removeMediaFiles, uploadMediaFile } from '@/lib/images';
 
 export interface GroupMessage {
   id: string;
@@ -8,8 +10,14 @@ export interface GroupMessage {
   sender_id: string;
   content: string;
   media_urls: string[];
+  // 'poll' messages carry a poll; the content is its question
+  message_type: string;
   is_edited: boolean;
   edited_at: string | null;
+  // Set when a moderator hid the message; only its sender still sees it
+  hidden_at: string | null;
+  // Deleted messages stay as tombstones, without content or attachments
+  deleted_at: string | null;
   created_at: string;
   sender: {
     id: string;
@@ -19,13 +27,63 @@ export interface GroupMessage {
   };
 }
 
-export function useGroupMessages(groupId: string | null) {
+const MESSAGE_PAGE_SIZE = 50;
+// How far back a focused message (from a notification link) is looked for
+const MAX_FOCUS_PAGES = 20;
+
+// Messages are loaded newest page first; older pages are prepended as the
+// user scrolls up
+export function useGroupMessages(groupId: string | null, focusMessageId?: string | null) {
   const { user } = useAuth();
   const [messages, setMessages] = useState<GroupMessage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sending, setSending] = useState(false);
 
+  // The page of messages before `before` (or the latest page), oldest first
+  const fetchPage = useCallback(async (before?: GroupMessage) => {
+    let query = supabase
+      .from('group_messages')
+      .select(`
+        *,
+        profiles:sender_id(
+          id,
+          username,
+          full_name,
+          profile_pic_url
+        )
+      `)
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    const processedMessages: GroupMessage[] = data.map((msg: any) => ({
+      ...msg,
+      media_urls: msg.media_urls || [],
+      sender: {
+        id: msg.profiles.id,
+        username: msg.profiles.username,
+        full_name: msg.profiles.full_name,
+        profile_pic_url: msg.profiles.profile_pic_url
+      }
+    }));
+
+    return processedMessages.reverse();
+  }, [groupId]);
+
   // Fetch messages for a specific group
   const fetchMessages = useCallback(async () => {
     if (!groupId || !user) return;
@@ -34,41 +92,42 @@ export function useGroupMessages(groupId: string | null) {
     setError(null);
 
     try {
-      const { data, error } = await supabase
-        .from('group_messages')
-        .select(`
-          *,
-          profiles:sender_id(
-            id,
-            username,
-            full_name,
-            profile_pic_url
-          )
-        `)
-        .eq('group_id', groupId)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-
-      const processedMessages: GroupMessage[] = data.map((msg: any) => ({
-        ...msg,
-        media_urls: msg.media_urls || [],
-        sender: {
-          id: msg.profiles.id,
-          username: msg.profiles.username,
-          full_name: msg.profiles.full_name,
-          profile_pic_url: msg.profiles.profile_pic_url
-        }
-      }));
-
-      setMessages(processedMessages);
+      let page = await fetchPage();
+      let more = page.length === MESSAGE_PAGE_SIZE;
+
+      // A focused message further back is loaded a page at a time
+      for (let i = 0; focusMessageId && more && i < MAX_FOCUS_PAGES; i++) {
+        if (page.some(msg => msg.id === focusMessageId)) break;
+        const older = await fetchPage(page[0]);
+        more = older.length === MESSAGE_PAGE_SIZE;
+        page = [...older, ...page];
+      }
+
+      setMessages(page);
+      setHasMore(more);
     } catch (err) {
       console.error('Error fetching group messages:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch messages');
     } finally {
       setLoading(false);
     }
-  }, [groupId, user]);
+  }, [groupId, user, fetchPage, focusMessageId]);
+
+  const loadOlderMessages = async () => {
+    if (!groupId || !user || loadingOlder || !hasMore || messages.length === 0) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchPage(messages[0]);
+      setHasMore(page.length === MESSAGE_PAGE_SIZE);
+      setMessages(prev => [...page.filter(msg => !prev.some(p => p.id === msg.id)), ...prev]);
+    } catch (err) {
+      console.error('Error loading older group messages:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load older messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
 
   // Send a new message
   const sendMessage = async (content: string, mediaUrls: string[] = []) => {
@@ -129,24 +188,53 @@ export function useGroupMessages(groupId: string | null) {
     }
   };
 
-  // Edit a message
+  // Send a poll; the message and its poll are created together
+  const sendPoll = async (question: string, draft: PollDraft) => {
+    if (!groupId || !user || !question.trim()) return;
+
+    setSending(true);
+    setError(null);
+
+    try {
+      const poll = pollDraftArgs(draft);
+      const { data, error } = await supabase.rpc('send_group_poll', {
+        target_group_id: groupId,
+        question: question.trim(),
+        option_labels: poll.options,
+        allows_multiple: poll.allowsMultiple,
+        is_anonymous: poll.isAnonymous,
+        closes_at: poll.closesAt
+      });
+
+      if (error) throw error;
+
+      const result = data as { success?: boolean; error?: string } | null;
+      if (!result?.success) throw new Error(result?.error || 'Failed to send poll');
+
+      // The real-time subscription adds the message to the list
+    } catch (err) {
+      console.error('Error sending poll:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send poll');
+      throw err;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Edit a message, within the edit window. The database marks it edited
   const editMessage = async (messageId: string, newContent: string) => {
     if (!user || !newContent.trim()) return;
 
     try {
       const { error } = await supabase
         .from('group_messages')
-        .update({
-          content: newContent.trim(),
-          is_edited: true,
-          edited_at: new Date().toISOString()
-        })
+        .update({ content: newContent.trim() })
         .eq('id', messageId)
         .eq('sender_id', user.id); // Ensure user can only edit their own messages
 
       if (error) throw error;
 
-      // Update local state
+      // Update local state; the realtime update brings the stored edited_at
       setMessages(prev => prev.map(msg => 
         msg.id === messageId 
           ? { 
@@ -164,21 +252,31 @@ export function useGroupMessages(groupId: string | null) {
     }
   };
 
-  // Delete a message
-  const deleteMessage = async (messageId: string) => {
+  // Delete a message for everyone, leaving a tombstone, and remove its
+  // attachments from storage
+  const deleteMessage = async (message: GroupMessage) => {
     if (!user) return;
 
     try {
+      const deletedAt = new Date().toISOString();
       const { error } = await supabase
         .from('group_messages')
-        .delete()
-        .eq('id', messageId)
+        .update({ deleted_at: deletedAt })
+        .eq('id', message.id)
         .eq('sender_id', user.id); // Ensure user can only delete their own messages
 
       if (error) throw error;
 
       // Update local state
-      setMessages(prev => prev.filter(msg => msg.id !== messageId));
+      setMessages(prev => prev.map(msg =>
+        msg.id === message.id ? { ...msg, content: '', media_urls: [], deleted_at: deletedAt } : msg
+      ));
+
+      try {
+        await removeMediaFiles('chat-attachments', message.media_urls);
+      } catch (storageError) {
+        console.error('Error removing message attachments:', storageError);
+      }
     } catch (err) {
       console.error('Error deleting message:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete message');
@@ -190,21 +288,8 @@ export function useGroupMessages(groupId: string | null) {
   const uploadMedia = async (file: File): Promise<string> => {
     if (!user) throw new Error('User not authenticated');
 
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
     try {
-      const { data, error } = await supabase.storage
-        .from('chat-attachments')
-        .upload(fileName, file);
-
-      if (error) throw error;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('chat-attachments')
-        .getPublicUrl(data.path);
-
-      return publicUrl;
+      return await uploadMediaFile('chat-attachments', `${user.id}/${Date.now()}`, file);
     } catch (err) {
       console.error('Error uploading media:', err);
       throw err;
@@ -273,7 +358,7 @@ export function useGroupMessages(groupId: string | null) {
         (payload) => {
           setMessages(prev => prev.map(msg => 
             msg.id === payload.new.id 
-              ? { ...msg, ...payload.new }
+              ? { ...msg, ...payload.new, media_urls: payload.new.media_urls || [] }
               : msg
           ));
         }
@@ -310,9 +395,13 @@ export function useGroupMessages(groupId: string | null) {
   return {
     messages,
     loading,
+    loadingOlder,
+    hasMore,
+    loadOlderMessages,
     error,
     sending,
     sendMessage,
+    sendPoll,
     editMessage,
     deleteMessage,
     uploadMedia,
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useId } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface GroupReader {
+  user_id: string;
+  last_read_at: string;
+  profile: {
+    full_name: string;
+    profile_pic_url: string | null;
+  } | null;
+}
+
+// Every member's read cursor in a group, kept live as they read. A message
+// has been seen by the members whose cursor is at or past it
+export const useGroupReadReceipts = (groupId: string | null) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // Each mounted instance needs its own channel
+  const instanceId = useId();
+
+  const query = useQuery({
+    queryKey: ['group-read-cursors', groupId],
+    enabled: !!user && !!groupId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('group_read_cursors')
+        .select('user_id, last_read_at, profile:profiles!user_id(full_name, profile_pic_url)')
+        .eq('group_id', groupId!);
+
+      if (error) {
+        console.error('Error fetching read receipts:', error);
+        throw error;
+      }
+
+      return (data || []) as GroupReader[];
+    },
+  });
+
+  useEffect(() => {
+    if (!user || !groupId) return;
+
+    const channel = supabase
+      .channel(`group-read-cursors-${groupId}-${instanceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'group_read_cursors', filter: `group_id=eq.${groupId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['group-read-cursors', groupId] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, groupId, queryClient, instanceId]);
+
+  const readers = query.data ?? [];
+
+  // Members other than the sender who have read up to this message
+  const seenBy = (message: { sender_id: string; created_at: string }) => {
+    const sentAt = new Date(message.created_at).getTime();
+    return readers.filter(reader =>
+      reader.user_id !== message.sender_id && new Date(reader.last_read_at).getTime() >= sentAt
+    );
+  };
+
+  // Moves the signed-in user's cursor up to a message, or to the latest one
+  const markRead = useCallback(async (messageId?: string) => {
+    if (!user || !groupId) return false;
+
+    const { data, error } = await supabase.rpc('mark_group_read', {
+      target_group_id: groupId,
+      up_to_message_id: messageId,
+    });
+
+    const result = data as { success?: boolean; error?: string } | null;
+    if (error || !result?.success) {
+      console.error('Error marking group as read:', error || result?.error);
+      return false;
+    }
+
+    return true;
+  }, [user, groupId]);
+
+  return { readers, seenBy, markRead, loading: query.isLoading };
+};
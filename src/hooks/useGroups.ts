@@ -107,10 +107,19 @@ export function useGroups() {
         return;
       }
 
+      // Unread messages since each group's read cursor
+      const { data: unreadData, error: unreadError } = await supabase.rpc('get_group_unread_counts');
+
+      if (unreadError) {
+        console.error('Error fetching unread counts:', unreadError);
+      }
+
+      const unreadCounts = new Map((unreadData || []).map(row => [row.group_id, row.unread_count]));
+
       const processedGroups = allUserGroups.map((group: any) => ({
         ...group,
         member_count: 0, // Will be calculated separately if needed
-        unread_count: 0, // Will be implemented after migration
+        unread_count: unreadCounts.get(group.id) ?? 0,
         latest_message: null // Will be implemented after migration
       }));
 
@@ -332,6 +341,31 @@ export function useGroups() {
     }
   };
 
+  // Mark every group with unread messages as read, up to its latest message
+  const markAllGroupsRead = async () => {
+    if (!user) throw new Error('User not authenticated');
+
+    const unreadGroups = groups.filter(group => (group.unread_count ?? 0) > 0);
+
+    try {
+      const results = await Promise.all(
+        unreadGroups.map(group => supabase.rpc('mark_group_read', { target_group_id: group.id }))
+      );
+
+      for (const { data, error } of results) {
+        const result = data as { success?: boolean; error?: string } | null;
+        if (error || !result?.success) {
+          throw error || new Error(result?.error || 'Failed to mark groups as read');
+        }
+      }
+
+      await fetchUserGroups();
+    } catch (err) {
+      console.error('Error marking groups as read:', err);
+      throw err;
+    }
+  };
+
   // Get group members
   const getGroupMembers = async (groupId: string): Promise<GroupMember[]> => {
     try {
@@ -624,6 +658,18 @@ export function useGroups() {
           fetchUserGroups(); // Refresh to update latest message and unread counts
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'group_read_cursors',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          fetchUserGroups(); // Read elsewhere, e.g. in the open chat or another tab
+        }
+      )
       .subscribe();
 
     return () => {
@@ -671,6 +717,7 @@ export function useGroups() {
     updateGroup,
     addMember,
     removeMember,
+    markAllGroupsRead,
     getUserRoleInGroup,
     testPermissions,
     refreshGroups: fetchUserGroups,
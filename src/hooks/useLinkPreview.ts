@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+// Open Graph details for a link, unfurled by the unfurl edge function. Links
+// without a preview (dead, not a web page, or refused) resolve to null
+export const useLinkPreview = (url: string | null) => {
+  const query = useQuery({
+    queryKey: ['link-preview', url],
+    enabled: !!url,
+    // The function caches previews for a week; there's no need to ask again
+    // during a session
+    staleTime: Infinity,
+    retry: false,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('unfurl', {
+        body: { url }
+      });
+
+      if (error) {
+        console.error('Error fetching link preview:', error);
+        return null;
+      }
+
+      return (data?.data ?? null) as LinkPreview | null;
+    },
+  });
+
+  return { preview: query.data ?? null, loading: query.isLoading };
+};
@@ -0,0 +1,196 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { ReportTargetType } from '@/hooks/useReports';
+
+export type ReportStatus = 'open' | 'dismissed' | 'actioned';
+export type ModerationResolution = 'dismiss' | 'hide' | 'warn' | 'suspend';
+
+export interface ModerationAction {
+  id: string;
+  action: ModerationResolution;
+  content_hidden: boolean;
+  suspended_until: string | null;
+  note: string | null;
+  created_at: string;
+  moderator?: { id: string; full_name: string } | null;
+}
+
+export interface Report {
+  id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  reason: string;
+  details: string | null;
+  content_snapshot: string | null;
+  status: ReportStatus;
+  created_at: string;
+  resolved_at: string | null;
+  reporter?: { id: string; full_name: string; username: string } | null;
+  target_author?: { id: string; full_name: string; username: string } | null;
+  action?: ModerationAction | null;
+}
+
+// One piece of content around (or being) the reported one
+export interface ReportContextItem {
+  id: string;
+  content: string | null;
+  media_urls: string[] | null;
+  created_at: string;
+  hidden_at: string | null;
+  author_name: string | null;
+  is_target: boolean;
+}
+
+export interface ReportContext {
+  // The post a reported comment was left on
+  parent_post: { id: string; content: string; created_at: string; author_name: string | null } | null;
+  // The group a reported group message was sent in
+  group_name: string | null;
+  items: ReportContextItem[];
+}
+
+export interface ResolveOptions {
+  note?: string;
+  // Warnings and suspensions can also hide the content
+  hideContent?: boolean;
+  suspendDays?: number;
+}
+
+const REPORT_SELECT = `
+  id,
+  target_type,
+  target_id,
+  reason,
+  details,
+  content_snapshot,
+  status,
+  created_at,
+  resolved_at,
+  reporter:profiles!reporter_id(id, full_name, username),
+  target_author:profiles!target_author_id(id, full_name, username),
+  action:moderation_actions(
+    id,
+    action,
+    content_hidden,
+    suspended_until,
+    note,
+    created_at,
+    moderator:profiles!moderator_id(id, full_name)
+  )
+`;
+
+// Whether the signed-in user is a site moderator. Everyone can read their
+// own row in moderators, if they have one
+export const useIsModerator = () => {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['moderator', user?.id ?? null],
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('moderators')
+        .select('user_id')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking moderator status:', error);
+        throw error;
+      }
+
+      return !!data;
+    },
+  });
+
+  return { isModerator: query.data ?? false, loading: query.isLoading };
+};
+
+// The moderation queue: open reports oldest first, or resolved ones newest
+// first
+export const useModerationQueue = (view: 'open' | 'resolved', enabled = true) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['reports', view],
+    enabled,
+    queryFn: async () => {
+      let request = supabase.from('reports').select(REPORT_SELECT);
+
+      request = view === 'open'
+        ? request.eq('status', 'open').order('created_at', { ascending: true })
+        : request.neq('status', 'open').order('resolved_at', { ascending: false }).limit(50);
+
+      const { data, error } = await request;
+
+      if (error) {
+        console.error('Error fetching reports:', error);
+        throw error;
+      }
+
+      return (data || []) as unknown as Report[];
+    },
+  });
+
+  const resolveReport = async (reportId: string, resolution: ModerationResolution, options: ResolveOptions = {}) => {
+    try {
+      const { data, error } = await supabase.rpc('resolve_report', {
+        target_report_id: reportId,
+        resolution,
+        moderator_note: options.note?.trim() || undefined,
+        hide_content: options.hideContent ?? false,
+        suspend_days: options.suspendDays,
+      });
+
+      const result = data as { success?: boolean; error?: string } | null;
+      if (error || !result?.success) {
+        console.error('Error resolving report:', error || result?.error);
+        toast.error(result?.error || 'Failed to resolve report');
+        return false;
+      }
+
+      toast.success(resolution === 'dismiss' ? 'Report dismissed' : 'Action recorded');
+      await queryClient.invalidateQueries({ queryKey: ['reports'] });
+      // Hidden posts drop out of every feed
+      if (resolution !== 'dismiss') await queryClient.invalidateQueries({ queryKey: ['feed'] });
+      return true;
+    } catch (error) {
+      console.error('Error in resolveReport:', error);
+      toast.error('Failed to resolve report');
+      return false;
+    }
+  };
+
+  return {
+    reports: query.data ?? [],
+    loading: query.isLoading,
+    resolveReport
+  };
+};
+
+// The reported content in context. Only loads while enabled, i.e. while the
+// moderator has it open
+export const useReportContext = (reportId: string, enabled: boolean) => {
+  const query = useQuery({
+    queryKey: ['report-context', reportId],
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_report_context', {
+        target_report_id: reportId
+      });
+
+      const result = data as unknown as ({ success?: boolean; error?: string } & ReportContext) | null;
+      if (error || !result?.success) {
+        console.error('Error fetching report context:', error || result?.error);
+        throw error || new Error(result?.error);
+      }
+
+      return result as ReportContext;
+    },
+  });
+
+  return { context: query.data ?? null, loading: query.isLoading, error: query.error };
+};
@@ -7,6 +7,7 @@ export interface Notification {
   type: string | null;
   content: string | null;
   related_id: string | null;
+  link?: string | null;
   is_read: boolean | null;
   created_at: string | null;
   user_id: string | null;
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+export interface PollOption {
+  id: string;
+  label: string;
+  position: number;
+  vote_count: number;
+}
+
+// One row per option a user picked. Other people's votes are only visible
+// in polls that aren't anonymous
+export interface PollVote {
+  option_id: string;
+  user_id: string;
+  user?: {
+    id: string;
+    full_name: string;
+    username: string;
+  };
+}
+
+export interface Poll {
+  id: string;
+  post_id: string | null;
+  group_message_id: string | null;
+  created_by: string;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: string | null;
+  voter_count: number;
+  options: PollOption[];
+}
+
+// A poll being composed. The question is the post or message text;
+// closesAt is a datetime-local value, empty for no deadline
+export interface PollDraft {
+  options: string[];
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt: string;
+}
+
+export const emptyPollDraft = (): PollDraft => ({
+  options: ['', ''],
+  allowsMultiple: false,
+  isAnonymous: false,
+  closesAt: ''
+});
+
+// Mirrors the checks in add_poll so mistakes show before submitting
+export const pollDraftError = (draft: PollDraft): string | null => {
+  const options = draft.options.map(o => o.trim()).filter(Boolean);
+
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return `Polls need between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`;
+  }
+  if (new Set(options.map(o => o.toLowerCase())).size !== options.length) {
+    return 'Poll options must be different';
+  }
+  if (draft.closesAt && new Date(draft.closesAt) <= new Date()) {
+    return 'The poll deadline must be in the future';
+  }
+  return null;
+};
+
+// Arguments shared by create_post and send_group_poll
+export const pollDraftArgs = (draft: PollDraft) => ({
+  options: draft.options.map(o => o.trim()).filter(Boolean),
+  allowsMultiple: draft.allowsMultiple,
+  isAnonymous: draft.isAnonymous,
+  closesAt: draft.closesAt ? new Date(draft.closesAt).toISOString() : undefined
+});
+
+export const isPollClosed = (poll: Pick<Poll, 'closes_at'>) =>
+  !!poll.closes_at && new Date(poll.closes_at) <= new Date();
+
+// The poll attached to a post or group message, with live results
+export const usePoll = (parent: 'post' | 'group_message', parentId: string) => {
+  const { user } = useAuth();
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [votes, setVotes] = useState<PollVote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [voting, setVoting] = useState(false);
+
+  const parentColumn = parent === 'post' ? 'post_id' : 'group_message_id';
+
+  const fetchPoll = useCallback(async () => {
+    if (!parentId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('polls')
+        .select(`
+          *,
+          options:poll_options(
+            id,
+            label,
+            position,
+            vote_count
+          )
+        `)
+        .eq(parentColumn, parentId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching poll:', error);
+        return;
+      }
+
+      if (!data) {
+        setPoll(null);
+        return;
+      }
+
+      const { data: voteRows, error: votesError } = await supabase
+        .from('poll_votes')
+        .select(`
+          option_id,
+          user_id,
+          user:profiles!user_id(
+            id,
+            full_name,
+            username
+          )
+        `)
+        .eq('poll_id', data.id);
+
+      if (votesError) {
+        console.error('Error fetching poll votes:', votesError);
+      }
+
+      setPoll({
+        ...data,
+        options: [...(data.options || [])].sort((a, b) => a.position - b.position)
+      } as Poll);
+      setVotes((voteRows || []) as PollVote[]);
+    } catch (error) {
+      console.error('Error in fetchPoll:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [parentColumn, parentId]);
+
+  const myVotes = votes.filter(v => v.user_id === user?.id).map(v => v.option_id);
+
+  // Replaces the user's ballot; an empty list retracts it
+  const vote = async (optionIds: string[]) => {
+    if (!user || !poll) return false;
+
+    setVoting(true);
+    try {
+      const { data, error } = await supabase.rpc('cast_poll_vote', {
+        target_poll_id: poll.id,
+        option_ids: optionIds
+      });
+
+      const result = data as { success?: boolean; error?: string } | null;
+      if (error || !result?.success) {
+        console.error('Error voting in poll:', error || result?.error);
+        toast.error(result?.error || 'Failed to record your vote');
+        return false;
+      }
+
+      await fetchPoll();
+      return true;
+    } catch (error) {
+      console.error('Error in vote:', error);
+      toast.error('Failed to record your vote');
+      return false;
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPoll();
+  }, [fetchPoll]);
+
+  // Counts are kept on polls and poll_options, so other people's votes show
+  // up live even in anonymous polls
+  useEffect(() => {
+    if (!poll?.id) return;
+
+    const channel = supabase
+      .channel(`poll-${poll.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'poll_options',
+          filter: `poll_id=eq.${poll.id}`,
+        },
+        (payload) => {
+          const updated = payload.new as PollOption;
+          setPoll(prev => prev && {
+            ...prev,
+            options: prev.options.map(o => o.id === updated.id ? { ...o, vote_count: updated.vote_count } : o)
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'polls',
+          filter: `id=eq.${poll.id}`,
+        },
+        () => {
+          // Voter count changed; reload to pick up who voted as well
+          fetchPoll();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [poll?.id, fetchPoll]);
+
+  return {
+    poll,
+    votes,
+    myVotes,
+    loading,
+    voting,
+    vote
+  };
+};
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export type ReactionType = 'like' | 'celebrate' | 'insightful' | 'funny';
+
+export const REACTIONS: { type: ReactionType; label: string; emoji: string }[] = [
+  { type: 'like', label: 'Like', emoji: '👍' },
+  { type: 'celebrate', label: 'Celebrate', emoji: '🎉' },
+  { type: 'insightful', label: 'Insightful', emoji: '💡' },
+  { type: 'funny', label: 'Funny', emoji: '😂' },
+];
+
+const REACTION_TYPES = REACTIONS.map(r => r.type);
+
+export interface PostReaction {
+  id: string;
+  user_id: string;
+  interaction_type: ReactionType;
+  created_at: string;
+  user?: {
+    id: string;
+    full_name: string;
+    username: string;
+    profile_pic_url?: string;
+  };
+}
+
+export const usePostReactions = (postId: string) => {
+  const { user } = useAuth();
+  const [reactions, setReactions] = useState<PostReaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReactions = async () => {
+    if (!postId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('post_interactions')
+        .select(`
+          id,
+          user_id,
+          interaction_type,
+          created_at,
+          user:profiles!user_id(
+            id,
+            full_name,
+            username,
+            profile_pic_url
+          )
+        `)
+        .eq('post_id', postId)
+        .in('interaction_type', REACTION_TYPES)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching reactions:', error);
+        return;
+      }
+
+      setReactions((data || []) as PostReaction[]);
+    } catch (error) {
+      console.error('Error in fetchReactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const myReaction = reactions.find(r => r.user_id === user?.id)?.interaction_type ?? null;
+
+  const counts = REACTION_TYPES.reduce((acc, type) => {
+    acc[type] = reactions.filter(r => r.interaction_type === type).length;
+    return acc;
+  }, {} as Record<ReactionType, number>);
+
+  // Picking the current reaction again clears it; picking another one switches
+  const react = async (reaction: ReactionType) => {
+    if (!user || !postId) return false;
+
+    const next = myReaction === reaction ? null : reaction;
+    const previous = reactions;
+
+    // Optimistic update so the counts move immediately
+    setReactions(prev => {
+      const others = prev.filter(r => r.user_id !== user.id);
+      if (!next) return others;
+      const mine = prev.find(r => r.user_id === user.id);
+      return [
+        {
+          id: mine?.id ?? `pending-${user.id}`,
+          user_id: user.id,
+          interaction_type: next,
+          created_at: new Date().toISOString(),
+          user: mine?.user
+        },
+        ...others
+      ];
+    });
+
+    try {
+      const { data, error } = await supabase.rpc('set_post_reaction', {
+        target_post_id: postId,
+        reaction: next ?? undefined
+      });
+
+      const result = data as { success?: boolean; error?: string } | null;
+      if (error || !result?.success) {
+        console.error('Error setting reaction:', error || result?.error);
+        toast.error(result?.error || 'Failed to update reaction');
+        setReactions(previous);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in react:', error);
+      toast.error('Failed to update reaction');
+      setReactions(previous);
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    if (postId) {
+      fetchReactions();
+
+      // Keep counts live as other people react
+      const channel = supabase
+        .channel(`reactions-${postId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'post_interactions',
+            filter: `post_id=eq.${postId}`,
+          },
+          () => {
+            fetchReactions();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [postId]);
+
+  return {
+    reactions,
+    counts,
+    myReaction,
+    loading,
+    react,
+    refreshReactions: fetchReactions
+  };
+};
@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// An earlier version of a post, replaced by an edit
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  content: string;
+  written_at: string;
+  replaced_at: string | null;
+}
+
+// Earlier versions of a post, newest first. Only loads while enabled, i.e.
+// while the history is open
+export const usePostRevisions = (postId: string, enabled: boolean) => {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !postId) return;
+
+    const fetchRevisions = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('post_revisions')
+          .select('*')
+          .eq('post_id', postId)
+          .order('replaced_at', { ascending: false });
+
+        if (error) {
+          console.error('Error fetching post revisions:', error);
+          return;
+        }
+
+        setRevisions((data || []) as PostRevision[]);
+      } catch (error) {
+        console.error('Error in fetchRevisions:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [postId, enabled]);
+
+  return {
+    revisions,
+    loading
+  };
+};
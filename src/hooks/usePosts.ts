@@ -1,7 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { POST_SELECT, prependToFeed, removeFromFeeds, replaceInFeeds } from '@/hooks/useFeed';
+import { pollDraftArgs, type PollDraft } from '@/hooks/usePolls';
+import { removeMediaFiles, uploadMediaFile } from '@/lib/images';
 
 export interface Post {
   id: string;
@@ -13,6 +17,12 @@ export interface Post {
   visibility: string | null;
   media_urls: string[] | null;
   scheduled_time: string | null;
+  // Set when a published post's content was last edited
+  edited_at: string | null;
+  // 'poll' posts carry a poll; the content is its question
+  post_type: string;
+  // Set when a moderator hid the post; only its author still sees it
+  hidden_at: string | null;
   author?: {
     id: string;
     full_name: string;
@@ -24,194 +34,210 @@ export interface Post {
   };
 }
 
+export type PostAudienceType = 'person' | 'group' | 'club';
+
+// A person, group or club an "Only For" post is aimed at
+export interface PostAudienceTarget {
+  type: PostAudienceType;
+  id: string;
+  name: string;
+}
+
+// Creating, editing and deleting posts and picking their audience. The feed
+// itself is loaded page by page in useFeed
 export const usePosts = () => {
   const { user } = useAuth();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+
+  // Posts with a scheduledTime are saved unpublished and go out when the
+  // publish_scheduled_posts() job reaches them. Posts with an audience are
+  // only visible to those people, group members and club members. A poll is
+  // created with the post, and the post text is its question
+  const createPost = async (
+    content: string,
+    visibility: string = 'everyone',
+    mediaUrls?: string[],
+    scheduledTime?: Date,
+    audience: PostAudienceTarget[] = [],
+    poll?: PollDraft
+  ) => {
+    if (!user || !content.trim()) return null;
 
-  const fetchPosts = async () => {
     try {
-      console.log('Fetching posts...');
-      
+      console.log('Creating post:', { content, visibility, mediaUrls, scheduledTime, audience, poll });
+
+      const targetsOf = (type: PostAudienceType) => audience.filter(t => t.type === type).map(t => t.id);
+      const pollArgs = poll ? pollDraftArgs(poll) : null;
+
+      const { data: result, error: createError } = await supabase.rpc('create_post', {
+        post_content: content.trim(),
+        audience: audience.length > 0 ? 'specific' : visibility,
+        media: mediaUrls?.length ? mediaUrls : undefined,
+        publish_at: scheduledTime?.toISOString(),
+        audience_user_ids: targetsOf('person'),
+        audience_group_ids: targetsOf('group'),
+        audience_club_ids: targetsOf('club'),
+        poll_options: pollArgs?.options,
+        poll_allows_multiple: pollArgs?.allowsMultiple,
+        poll_is_anonymous: pollArgs?.isAnonymous,
+        poll_closes_at: pollArgs?.closesAt
+      });
+
+      const created = result as { success?: boolean; error?: string; post_id?: string } | null;
+      if (createError || !created?.success || !created.post_id) {
+        console.error('Error creating post:', createError || created?.error);
+        toast.error(created?.error || 'Failed to create post');
+        return null;
+      }
+
       const { data, error } = await supabase
         .from('posts')
-        .select(`
-          *,
-          author:profiles!author_id(
-            id,
-            full_name,
-            username,
-            profile_pic_url,
-            branch,
-            year_of_study,
-            skills
-          )
-        `)
-        .eq('is_published', true)
-        .order('created_at', { ascending: false });
+        .select(POST_SELECT)
+        .eq('id', created.post_id)
+        .single();
 
       if (error) {
-        console.error('Error fetching posts:', error);
-        toast.error('Failed to load posts');
-        return;
+        console.error('Error loading created post:', error);
+        toast.error('Failed to create post');
+        return null;
       }
 
-      console.log('Fetched posts count:', data?.length);
-      console.log('Posts data:', data);
-      setPosts(data || []);
+      console.log('Post created successfully:', data);
+
+      if (scheduledTime) {
+        toast.success(`Post scheduled for ${format(scheduledTime, 'MMM d, h:mm a')}`);
+        return data;
+      }
+      
+      // Add post to the home feed immediately for better UX; topic pages
+      // pick it up through realtime
+      prependToFeed(queryClient, data);
+      
+      toast.success('Post created successfully!');
+      return data;
     } catch (error) {
-      console.error('Error in fetchPosts:', error);
-    } finally {
-      setLoading(false);
+      console.error('Error in createPost:', error);
+      toast.error('Failed to create post');
+      return null;
     }
   };
 
-  const createPost = async (content: string, visibility: string = 'everyone', mediaUrls?: string[]) => {
+  // Edits to published posts keep the previous version in post_revisions
+  const updatePost = async (postId: string, content: string) => {
     if (!user || !content.trim()) return null;
 
     try {
-      console.log('Creating post:', { content, visibility, mediaUrls });
-      
       const { data, error } = await supabase
         .from('posts')
-        .insert({
-          content: content.trim(),
-          author_id: user.id,
-          visibility,
-          is_published: true,
-          media_urls: mediaUrls || null
-        })
-        .select(`
-          *,
-          author:profiles!author_id(
-            id,
-            full_name,
-            username,
-            profile_pic_url,
-            branch,
-            year_of_study,
-            skills
-          )
-        `)
+        .update({ content: content.trim() })
+        .eq('id', postId)
+        .eq('author_id', user.id)
+        .select(POST_SELECT)
         .single();
 
       if (error) {
-        console.error('Error creating post:', error);
-        toast.error('Failed to create post');
+        console.error('Error updating post:', error);
+        toast.error('Failed to update post');
         return null;
       }
 
-      console.log('Post created successfully:', data);
-      
-      // Add post to local state immediately for better UX
-      setPosts(prev => [data, ...prev]);
-      
-      // Also refresh posts to ensure consistency
-      await fetchPosts();
-      
-      toast.success('Post created successfully!');
+      replaceInFeeds(queryClient, data as Post);
+      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+      toast.success('Post updated');
       return data;
     } catch (error) {
-      console.error('Error in createPost:', error);
-      toast.error('Failed to create post');
+      console.error('Error in updatePost:', error);
+      toast.error('Failed to update post');
       return null;
     }
   };
 
-  const uploadPostMedia = async (file: File): Promise<string | null> => {
-    if (!user) return null;
+  // Comments, reactions, tags and polls go with the post (ON DELETE CASCADE);
+  // its media is removed from storage afterwards
+  const deletePost = async (postId: string, mediaUrls: string[] = []) => {
+    if (!user) return false;
 
     try {
-      console.log('Uploading post media:', file.name);
-      const fileExt = file.name.split('.').pop();
-      const fileName = `posts/${user.id}/${Date.now()}.${fileExt}`;
-      
-      const { data, error } = await supabase.storage
-        .from('post-media')
-        .upload(fileName, file);
+      const { error } = await supabase
+        .from('posts')
+        .delete()
+        .eq('id', postId)
+        .eq('author_id', user.id);
 
       if (error) {
-        console.error('Error uploading media:', error);
-        toast.error('Failed to upload media');
-        return null;
+        console.error('Error deleting post:', error);
+        toast.error('Failed to delete post');
+        return false;
+      }
+
+      try {
+        await removeMediaFiles('post-media', mediaUrls);
+      } catch (storageError) {
+        console.error('Error removing post media:', storageError);
       }
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('post-media')
-        .getPublicUrl(data.path);
+      removeFromFeeds(queryClient, postId);
+      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+      toast.success('Post deleted');
+      return true;
+    } catch (error) {
+      console.error('Error in deletePost:', error);
+      toast.error('Failed to delete post');
+      return false;
+    }
+  };
+
+  // Groups and clubs the user can aim an "Only For" post at
+  const getAudienceOptions = async (): Promise<PostAudienceTarget[]> => {
+    if (!user) return [];
+
+    try {
+      const [{ data: groupMemberships }, { data: clubMemberships }] = await Promise.all([
+        supabase
+          .from('group_members')
+          .select('group_id, groups:group_id(name)')
+          .eq('user_id', user.id),
+        supabase
+          .from('club_members')
+          .select('club_id, clubs:club_id(name)')
+          .eq('user_id', user.id)
+      ]);
+
+      return [
+        ...(groupMemberships || [])
+          .filter(g => g.group_id && g.groups)
+          .map(g => ({ type: 'group' as const, id: g.group_id as string, name: g.groups!.name })),
+        ...(clubMemberships || [])
+          .filter(c => c.club_id && c.clubs)
+          .map(c => ({ type: 'club' as const, id: c.club_id as string, name: c.clubs!.name }))
+      ];
+    } catch (error) {
+      console.error('Error in getAudienceOptions:', error);
+      return [];
+    }
+  };
+
+  const uploadPostMedia = async (file: File): Promise<string | null> => {
+    if (!user) return null;
+
+    try {
+      console.log('Uploading post media:', file.name);
+      const publicUrl = await uploadMediaFile('post-media', `posts/${user.id}/${Date.now()}`, file);
 
       console.log('Media uploaded successfully:', publicUrl);
       return publicUrl;
     } catch (error) {
       console.error('Error in uploadPostMedia:', error);
-      toast.error('Failed to upload media');
+      toast.error(error instanceof Error ? error.message : 'Failed to upload media');
       return null;
     }
   };
 
-  useEffect(() => {
-    fetchPosts();
-
-    // Set up real-time subscription for new posts
-    const channel = supabase
-      .channel('posts')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'posts',
-          filter: 'is_published.eq.true',
-        },
-        async (payload) => {
-          console.log('Real-time post received:', payload);
-          
-          // Fetch the complete post with author info
-          const { data } = await supabase
-            .from('posts')
-            .select(`
-              *,
-              author:profiles!author_id(
-                id,
-                full_name,
-                username,
-                profile_pic_url,
-                branch,
-                year_of_study,
-                skills
-              )
-            `)
-            .eq('id', payload.new.id)
-            .single();
-
-          if (data) {
-            console.log('Adding real-time post to feed:', data);
-            setPosts(prev => {
-              // Check if post already exists to avoid duplicates
-              if (prev.some(post => post.id === data.id)) {
-                console.log('Post already exists in feed, skipping');
-                return prev;
-              }
-              console.log('Adding new post to beginning of feed');
-              return [data, ...prev];
-            });
-          }
-        }
-      )
-      .subscribe();
-
-    console.log('Real-time subscription set up for posts');
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
-
   return {
-    posts,
-    loading,
     createPost,
+    updatePost,
+    deletePost,
     uploadPostMedia,
-    refreshPosts: fetchPosts
+    getAudienceOptions
   };
 };
@@ -0,0 +1,324 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+// What each open tab reports about itself
+type TabStatus = Exclude<PresenceStatus, 'offline'>;
+
+interface PresenceContextType {
+  // This user's status across all of their tabs
+  status: PresenceStatus;
+  // Offline for anyone who isn't being watched
+  getStatus: (userId: string) => PresenceStatus;
+  // Follow these users' presence until the returned function is called
+  watch: (userIds: string[]) => () => void;
+}
+
+// A tab without input for this long, or hidden, counts as idle
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+// While a tab is open, last_seen is refreshed this often. A tab closed
+// without getting to write it goes stale, and the server stops counting
+// the user as online
+const HEARTBEAT_MS = 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'focus'] as const;
+// Every watched friend is a realtime channel, and clients get a limited
+// number of those, so only this many are followed at once
+const MAX_WATCHED = 50;
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+const persistPresence = async (userId: string, online: boolean) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ is_online: online, last_seen: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error updating last seen:', error);
+  }
+};
+
+// Everyone whose tabs are on a presence channel, as one status
+const channelStatus = (channel: RealtimeChannel): TabStatus | null => {
+  const tabs = Object.values(channel.presenceState<{ status: TabStatus }>()).flat();
+  if (tabs.length === 0) return null;
+  return tabs.some(tab => tab.status === 'online') ? 'online' : 'idle';
+};
+
+// A user is online while any of their tabs is active, idle while all of
+// them are idle and offline once none are open. Each user's tabs track
+// themselves on their own private channel, presence:<user id>, which only
+// they can track on and only their friends can join. Friends' channels are
+// only joined while something on screen watches them. profiles.is_online
+// and last_seen are kept in step for everything that reads them from the
+// database
+export function PresenceProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [statuses, setStatuses] = useState<Record<string, TabStatus>>({});
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const tabStatus = useRef<TabStatus>('online');
+
+  const setStatus = useCallback((userId: string, status: TabStatus | null) => {
+    setStatuses(prev => {
+      if ((prev[userId] ?? null) === status) return prev;
+      const next = { ...prev };
+      if (status) next[userId] = status;
+      else delete next[userId];
+      return next;
+    });
+  }, []);
+
+  const { data: friendIds = [] } = useQuery({
+    queryKey: ['presence-friend-ids', user?.id ?? null],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('connections')
+        .select('requester_id, receiver_id')
+        .eq('status', 'accepted')
+        .or(`requester_id.eq.${user!.id},receiver_id.eq.${user!.id}`);
+
+      if (error) {
+        console.error('Error fetching friends for presence:', error);
+        throw error;
+      }
+
+      return (data || [])
+        .map(connection => connection.requester_id === user!.id ? connection.receiver_id : connection.requester_id)
+        .filter((id): id is string => !!id)
+        .sort();
+    },
+  });
+
+  // How many watchers each user has
+  const watchCounts = useRef(new Map<string, number>());
+  const [watched, setWatched] = useState<string[]>([]);
+
+  const watch = useCallback((userIds: string[]) => {
+    const counts = watchCounts.current;
+    const sync = () => setWatched([...counts.keys()].sort());
+
+    userIds.forEach(userId => counts.set(userId, (counts.get(userId) ?? 0) + 1));
+    sync();
+
+    return () => {
+      userIds.forEach(userId => {
+        const count = (counts.get(userId) ?? 0) - 1;
+        if (count > 0) counts.set(userId, count);
+        else counts.delete(userId);
+      });
+      sync();
+    };
+  }, []);
+
+  // Only friends' channels can be joined
+  const watchedKey = watched
+    .filter(userId => friendIds.includes(userId))
+    .slice(0, MAX_WATCHED)
+    .join(',');
+  const friendChannels = useRef(new Map<string, RealtimeChannel>());
+
+  useEffect(() => {
+    if (!user) {
+      setStatuses({});
+      return;
+    }
+
+    const channel = supabase.channel(`presence:${user.id}`, {
+      config: { private: true, presence: { key: user.id } },
+    });
+    channelRef.current = channel;
+
+    // This user's other tabs; closing the last one takes them offline
+    const otherTabsOpen = () => (channel.presenceState()[user.id]?.length ?? 0) > 1;
+
+    channel
+      .on('presence', { event: 'sync' }, () => setStatus(user.id, channelStatus(channel)))
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ status: tabStatus.current });
+          persistPresence(user.id, true);
+        }
+      });
+
+    const handlePageHide = () => {
+      if (!otherTabsOpen()) persistPresence(user.id, false);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    const heartbeat = setInterval(() => persistPresence(user.id, true), HEARTBEAT_MS);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      clearInterval(heartbeat);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+      setStatus(user.id, null);
+    };
+  }, [user, setStatus]);
+
+  // Join the channels of watched friends and leave the rest, keeping the
+  // ones that are still watched
+  useEffect(() => {
+    const channels = friendChannels.current;
+    const wanted = new Set(user && watchedKey ? watchedKey.split(',') : []);
+
+    channels.forEach((channel, friendId) => {
+      if (wanted.has(friendId)) return;
+      supabase.removeChannel(channel);
+      channels.delete(friendId);
+      setStatus(friendId, null);
+    });
+
+    wanted.forEach(friendId => {
+      if (channels.has(friendId)) return;
+      const channel = supabase.channel(`presence:${friendId}`, { config: { private: true } });
+      channel
+        .on('presence', { event: 'sync' }, () => setStatus(friendId, channelStatus(channel)))
+        .subscribe();
+      channels.set(friendId, channel);
+    });
+  }, [user, watchedKey, setStatus]);
+
+  useEffect(() => {
+    const channels = friendChannels.current;
+    return () => {
+      channels.forEach(channel => supabase.removeChannel(channel));
+      channels.clear();
+    };
+  }, []);
+
+  // Track whether this tab is active or idle
+  useEffect(() => {
+    if (!user) return;
+
+    let lastActivity = Date.now();
+
+    const setTabStatus = (status: TabStatus) => {
+      if (tabStatus.current === status) return;
+      tabStatus.current = status;
+      channelRef.current?.track({ status });
+      // A hidden tab may be closed next, so last_seen is written now
+      if (status === 'idle') persistPresence(user.id, true);
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (document.visibilityState === 'visible') setTabStatus('online');
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') handleActivity();
+      else setTabStatus('idle');
+    };
+
+    const idleCheck = setInterval(() => {
+      if (Date.now() - lastActivity > IDLE_AFTER_MS) setTabStatus('idle');
+    }, 30 * 1000);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(idleCheck);
+    };
+  }, [user]);
+
+  const getStatus = useCallback(
+    (userId: string): PresenceStatus => statuses[userId] ?? 'offline',
+    [statuses]
+  );
+
+  const value = {
+    status: user ? getStatus(user.id) : 'offline' as PresenceStatus,
+    getStatus,
+    watch,
+  };
+
+  return <PresenceContext.Provider value={value}>{children}</PresenceContext.Provider>;
+}
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
+
+// Follows these users' presence while the component is mounted, e.g. the
+// friend in an open chat
+export const useWatchPresence = (userIds: string[]) => {
+  const { watch } = usePresence();
+  const key = [...userIds].sort().join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    return watch(key.split(','));
+  }, [watch, key]);
+};
+
+// Follows the presence of users whose rows are on screen, for long lists.
+// Give each row ref={presenceRef(userId)}
+export const useOnScreenPresence = () => {
+  const [onScreen, setOnScreen] = useState<string[]>([]);
+  const [elementIds] = useState(() => new Map<Element, string>());
+  const refs = useRef(new Map<string, (node: Element | null) => void>());
+
+  const [observer] = useState(() => new IntersectionObserver(entries => {
+    setOnScreen(prev => {
+      const next = new Set(prev);
+      entries.forEach(entry => {
+        const userId = elementIds.get(entry.target);
+        if (!userId) return;
+        if (entry.isIntersecting) next.add(userId);
+        else next.delete(userId);
+      });
+      return next.size === prev.length && prev.every(userId => next.has(userId)) ? prev : [...next];
+    });
+  }));
+
+  useEffect(() => {
+    elementIds.forEach((_userId, element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, [observer, elementIds]);
+
+  useWatchPresence(onScreen);
+
+  const presenceRef = useCallback((userId: string) => {
+    let ref = refs.current.get(userId);
+    if (!ref) {
+      let current: Element | null = null;
+      ref = (node: Element | null) => {
+        if (current) {
+          observer.unobserve(current);
+          elementIds.delete(current);
+          setOnScreen(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : prev);
+        }
+        current = node;
+        if (node) {
+          elementIds.set(node, userId);
+          observer.observe(node);
+        }
+      };
+      refs.current.set(userId, ref);
+    }
+    return ref;
+  }, [observer, elementIds]);
+
+  return presenceRef;
+};
+
+// Short label for a user's status, e.g. in a chat header
+export const presenceLabel = (status: PresenceStatus, lastSeen?: string | null) => {
+  if (status === 'online') return 'Active now';
+  if (status === 'idle') return 'Idle';
+  return lastSeen ? `Last seen ${formatDistanceToNow(new Date(lastSeen), { addSuffix: true })}` : 'Offline';
+};
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { uploadMediaFile } from '@/lib/images';
 
 export interface Profile {
   id: string;
@@ -87,14 +88,10 @@ export function useProfile() {
     if (!user) return { error: 'No user found' };
 
     try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/avatar.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('profile-pictures')
-        .upload(fileName, file, { upsert: true });
-
-      if (uploadError) {
+      let publicUrl: string;
+      try {
+        publicUrl = await uploadMediaFile('profile-pictures', `${user.id}/avatar`, file, { upsert: true });
+      } catch (uploadError) {
         toast({
           variant: 'destructive',
           title: 'Upload Error',
@@ -103,12 +100,8 @@ export function useProfile() {
         return { error: uploadError };
       }
 
-      const { data: urlData } = supabase.storage
-        .from('profile-pictures')
-        .getPublicUrl(fileName);
-
       const profileUpdateResult = await updateProfile({
-        profile_pic_url: urlData.publicUrl,
+        profile_pic_url: publicUrl,
       });
 
       return profileUpdateResult;
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export type ReportTargetType = 'post' | 'comment' | 'direct_message' | 'group_message';
+
+export type ReportReason =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'violence'
+  | 'sexual_content'
+  | 'self_harm'
+  | 'misinformation'
+  | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Ads, scams or the same thing posted over and over' },
+  { value: 'harassment', label: 'Harassment or bullying', description: 'Targeting, threatening or humiliating someone' },
+  { value: 'hate_speech', label: 'Hate speech', description: 'Attacks on people for who they are' },
+  { value: 'violence', label: 'Violence', description: 'Threats or glorifying violence' },
+  { value: 'sexual_content', label: 'Sexual content', description: 'Nudity or sexual material' },
+  { value: 'self_harm', label: 'Self-harm', description: 'Someone may be at risk of hurting themselves' },
+  { value: 'misinformation', label: 'False information', description: 'Misleading claims presented as fact' },
+  { value: 'other', label: 'Something else', description: 'Tell us what is wrong below' },
+];
+
+export const reportReasonLabel = (reason: string) =>
+  REPORT_REASONS.find(r => r.value === reason)?.label ?? reason;
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'post',
+  comment: 'comment',
+  direct_message: 'message',
+  group_message: 'group message',
+};
+
+export const useReports = () => {
+  const [submitting, setSubmitting] = useState(false);
+
+  const reportContent = async (
+    targetType: ReportTargetType,
+    targetId: string,
+    reason: ReportReason,
+    details?: string
+  ) => {
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('report_content', {
+        target_kind: targetType,
+        target_content_id: targetId,
+        report_reason: reason,
+        report_details: details?.trim() || undefined,
+      });
+
+      const result = data as { success?: boolean; error?: string; already_reported?: boolean } | null;
+
+      if (error || !result?.success) {
+        console.error('Error reporting content:', error || result?.error);
+        toast.error(result?.error || 'Failed to send report');
+        return false;
+      }
+
+      toast.success(
+        result.already_reported
+          ? `You've already reported this ${REPORT_TARGET_LABELS[targetType]}`
+          : 'Thanks — our moderators will review it'
+      );
+      return true;
+    } catch (error) {
+      console.error('Error in reportContent:', error);
+      toast.error('Failed to send report');
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return { reportContent, submitting };
+};
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Post } from '@/hooks/usePosts';
+
+// The current user's posts waiting to be published
+export const useScheduledPosts = () => {
+  const { user } = useAuth();
+  const [scheduledPosts, setScheduledPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchScheduledPosts = async () => {
+    if (!user) {
+      setScheduledPosts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('*')
+        .eq('author_id', user.id)
+        .eq('is_published', false)
+        .not('scheduled_time', 'is', null)
+        .order('scheduled_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching scheduled posts:', error);
+        toast.error('Failed to load scheduled posts');
+        return;
+      }
+
+      setScheduledPosts(data || []);
+    } catch (error) {
+      console.error('Error in fetchScheduledPosts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Edit the content and/or move the publish time
+  const updateScheduledPost = async (postId: string, updates: { content?: string; scheduledTime?: Date }) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('posts')
+        .update({
+          ...(updates.content !== undefined && { content: updates.content.trim() }),
+          ...(updates.scheduledTime && { scheduled_time: updates.scheduledTime.toISOString() }),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', postId)
+        .eq('is_published', false);
+
+      if (error) {
+        console.error('Error updating scheduled post:', error);
+        toast.error('Failed to update scheduled post');
+        return false;
+      }
+
+      await fetchScheduledPosts();
+      toast.success('Scheduled post updated');
+      return true;
+    } catch (error) {
+      console.error('Error in updateScheduledPost:', error);
+      toast.error('Failed to update scheduled post');
+      return false;
+    }
+  };
+
+  // Skip the wait and publish right away
+  const publishNow = async (postId: string) => {
+    if (!user) return false;
+
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('posts')
+        .update({ is_published: true, created_at: now, updated_at: now })
+        .eq('id', postId)
+        .eq('is_published', false);
+
+      if (error) {
+        console.error('Error publishing post:', error);
+        toast.error('Failed to publish post');
+        return false;
+      }
+
+      setScheduledPosts(prev => prev.filter(post => post.id !== postId));
+      toast.success('Post published!');
+      return true;
+    } catch (error) {
+      console.error('Error in publishNow:', error);
+      toast.error('Failed to publish post');
+      return false;
+    }
+  };
+
+  // Cancelling a scheduled post deletes it
+  const cancelScheduledPost = async (postId: string) => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('posts')
+        .delete()
+        .eq('id', postId)
+        .eq('is_published', false);
+
+      if (error) {
+        console.error('Error cancelling scheduled post:', error);
+        toast.error('Failed to cancel scheduled post');
+        return false;
+      }
+
+      setScheduledPosts(prev => prev.filter(post => post.id !== postId));
+      toast.success('Scheduled post cancelled');
+      return true;
+    } catch (error) {
+      console.error('Error in cancelScheduledPost:', error);
+      toast.error('Failed to cancel scheduled post');
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    fetchScheduledPosts();
+
+    if (!user) return;
+
+    // Picks up posts scheduled from the composer and posts the job publishes
+    const channel = supabase
+      .channel(`scheduled-posts-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'posts',
+          filter: `author_id=eq.${user.id}`,
+        },
+        () => {
+          fetchScheduledPosts();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return {
+    scheduledPosts,
+    loading,
+    updateScheduledPost,
+    publishNow,
+    cancelScheduledPost,
+    refreshScheduledPosts: fetchScheduledPosts
+  };
+};
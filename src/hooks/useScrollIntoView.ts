@@ -0,0 +1,11 @@
+import { useEffect } from 'react';
+
+// Scroll a deep-linked element (a mentioned post, comment or message) into
+// view once it has rendered
+export const useScrollIntoView = (elementId: string | null, ready: boolean) => {
+  useEffect(() => {
+    if (!elementId || !ready) return;
+
+    document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [elementId, ready]);
+};
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TrendingTag {
+  tag: string;
+  post_count: number;
+}
+
+// Most used #tags over the last few days, counted over posts the user can see
+export const useTrendingTags = (sinceDays = 3, limit = 5) => {
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTrendingTags = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_trending_tags', {
+        since_days: sinceDays,
+        tag_limit: limit
+      });
+
+      if (error) {
+        console.error('Error fetching trending tags:', error);
+        return;
+      }
+
+      setTags(data || []);
+    } catch (error) {
+      console.error('Error in fetchTrendingTags:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrendingTags();
+  }, [sinceDays, limit]);
+
+  return {
+    tags,
+    loading,
+    refreshTrendingTags: fetchTrendingTags
+  };
+};
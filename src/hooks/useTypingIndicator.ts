@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface TypingUser {
+  id: string;
+  name: string;
+}
+
+interface TypingPayload {
+  user_id: string;
+  name: string;
+  typing: boolean;
+}
+
+// A typist re-announces themselves at most this often
+const TYPING_THROTTLE_MS = 2000;
+// and is dropped when nothing arrives from them for this long, e.g. after
+// closing the tab mid-sentence
+const TYPING_TIMEOUT_MS = 5000;
+
+// Scope for a direct conversation, the same from either side
+export const directTypingScope = (userId: string, friendId: string) =>
+  `dm:${[userId, friendId].sort().join(':')}`;
+
+// Who else is typing in a chat, e.g. `group:<id>`. Typing is only broadcast
+// over a private realtime channel, never stored. The server sends it on the
+// typist's behalf, so names can't be faked. Call notifyTyping as the draft
+// changes and stopTyping once it's sent
+export const useTypingIndicator = (scope: string | null) => {
+  const { user } = useAuth();
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const lastSent = useRef(0);
+
+  useEffect(() => {
+    if (!user || !scope) return;
+
+    const timeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const removeTypist = (userId: string) => {
+      clearTimeout(timeouts.get(userId));
+      timeouts.delete(userId);
+      setTypingUsers(prev => prev.filter(typist => typist.id !== userId));
+    };
+
+    const channel = supabase
+      .channel(`typing:${scope}`, { config: { private: true } })
+      .on('broadcast', { event: 'typing' }, ({ payload }: { payload: TypingPayload }) => {
+        // The user's own other tabs
+        if (payload.user_id === user.id) return;
+
+        if (!payload.typing) {
+          removeTypist(payload.user_id);
+          return;
+        }
+
+        clearTimeout(timeouts.get(payload.user_id));
+        timeouts.set(payload.user_id, setTimeout(() => removeTypist(payload.user_id), TYPING_TIMEOUT_MS));
+        setTypingUsers(prev =>
+          prev.some(typist => typist.id === payload.user_id)
+            ? prev
+            : [...prev, { id: payload.user_id, name: payload.name }]
+        );
+      })
+      .subscribe();
+
+    return () => {
+      timeouts.forEach(clearTimeout);
+      setTypingUsers([]);
+      lastSent.current = 0;
+      supabase.removeChannel(channel);
+    };
+  }, [user, scope]);
+
+  const broadcast = useCallback(async (typing: boolean) => {
+    if (!user || !scope) return;
+
+    const { data, error } = await supabase.rpc('broadcast_typing', {
+      typing_scope: scope,
+      is_typing: typing,
+    });
+
+    const result = data as { success?: boolean; error?: string } | null;
+    if (error || !result?.success) {
+      console.error('Error broadcasting typing:', error || result?.error);
+    }
+  }, [user, scope]);
+
+  const stopTyping = useCallback(() => {
+    if (!lastSent.current) return;
+    lastSent.current = 0;
+    broadcast(false);
+  }, [broadcast]);
+
+  const notifyTyping = useCallback((draft: string) => {
+    if (!draft.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastSent.current < TYPING_THROTTLE_MS) return;
+    lastSent.current = now;
+    broadcast(true);
+  }, [broadcast, stopTyping]);
+
+  return { typingUsers, notifyTyping, stopTyping };
+};
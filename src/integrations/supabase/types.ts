@@ -14,6 +14,162 @@ export type Database = {
   }
   public: {
     Tables: {
+      bookmark_collections: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmark_collections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bookmarks: {
+        Row: {
+          collection_id: string | null
+          created_at: string | null
+          id: string
+          post_id: string | null
+          user_id: string
+        }
+        Insert: {
+          collection_id?: string | null
+          created_at?: string | null
+          id?: string
+          post_id?: string | null
+          user_id: string
+        }
+        Update: {
+          collection_id?: string | null
+          created_at?: string | null
+          id?: string
+          post_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "bookmark_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      club_applications: {
+        Row: {
+          answers: Json | null
+          club_id: string | null
+          created_at: string | null
+          id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string | null
+          user_id: string | null
+        }
+        Insert: {
+          answers?: Json | null
+          club_id?: string | null
+          created_at?: string | null
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          answers?: Json | null
+          club_id?: string | null
+          created_at?: string | null
+          id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "club_applications_club_id_fkey"
+            columns: ["club_id"]
+            isOneToOne: false
+            referencedRelation: "clubs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "club_applications_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "club_applications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       club_members: {
         Row: {
           club_id: string | null
@@ -55,31 +211,37 @@ export type Database = {
       }
       clubs: {
         Row: {
+          application_questions: Json | null
           banner_url: string | null
           created_at: string | null
           created_by: string | null
           description: string | null
           id: string
+          join_policy: string | null
           name: string
           profile_pic_url: string | null
           updated_at: string | null
         }
         Insert: {
+          application_questions?: Json | null
           banner_url?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           id?: string
+          join_policy?: string | null
           name: string
           profile_pic_url?: string | null
           updated_at?: string | null
         }
         Update: {
+          application_questions?: Json | null
           banner_url?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           id?: string
+          join_policy?: string | null
           name?: string
           profile_pic_url?: string | null
           updated_at?: string | null
@@ -99,6 +261,7 @@ export type Database = {
           author_id: string | null
           content: string
           created_at: string | null
+          hidden_at: string | null
           id: string
           parent_comment_id: string | null
           post_id: string | null
@@ -108,6 +271,7 @@ export type Database = {
           author_id?: string | null
           content: string
           created_at?: string | null
+          hidden_at?: string | null
           id?: string
           parent_comment_id?: string | null
           post_id?: string | null
@@ -117,6 +281,7 @@ export type Database = {
           author_id?: string | null
           content?: string
           created_at?: string | null
+          hidden_at?: string | null
           id?: string
           parent_comment_id?: string | null
           post_id?: string | null
@@ -192,7 +357,9 @@ export type Database = {
         Row: {
           content: string | null
           created_at: string | null
+          deleted_at: string | null
           edited_at: string | null
+          hidden_at: string | null
           id: string
           is_read: boolean | null
           media_urls: string[] | null
@@ -202,7 +369,9 @@ export type Database = {
         Insert: {
           content?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           edited_at?: string | null
+          hidden_at?: string | null
           id?: string
           is_read?: boolean | null
           media_urls?: string[] | null
@@ -212,7 +381,9 @@ export type Database = {
         Update: {
           content?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           edited_at?: string | null
+          hidden_at?: string | null
           id?: string
           is_read?: boolean | null
           media_urls?: string[] | null
@@ -236,8 +407,177 @@ export type Database = {
           },
         ]
       }
+      event_attendance: {
+        Row: {
+          checked_in_at: string | null
+          checked_in_by: string | null
+          event_id: string | null
+          id: string
+          method: string
+          user_id: string | null
+        }
+        Insert: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          event_id?: string | null
+          id?: string
+          method: string
+          user_id?: string | null
+        }
+        Update: {
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          event_id?: string | null
+          id?: string
+          method?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_attendance_checked_in_by_fkey"
+            columns: ["checked_in_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendance_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_attendance_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_checkin_secrets: {
+        Row: {
+          created_at: string | null
+          event_id: string
+          secret: string
+        }
+        Insert: {
+          created_at?: string | null
+          event_id: string
+          secret?: string
+        }
+        Update: {
+          created_at?: string | null
+          event_id?: string
+          secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_checkin_secrets_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_rsvps: {
+        Row: {
+          created_at: string | null
+          event_id: string | null
+          id: string
+          responded_at: string | null
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          event_id?: string | null
+          id?: string
+          responded_at?: string | null
+          status: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          event_id?: string | null
+          id?: string
+          responded_at?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_rsvps_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_rsvps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_series: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          frequency: string
+          id: string
+          occurrence_count: number | null
+          organizer_id: string
+          organizer_type: string
+          repeat_interval: number
+          time_zone: string
+          until_date: string | null
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          frequency: string
+          id?: string
+          occurrence_count?: number | null
+          organizer_id: string
+          organizer_type: string
+          repeat_interval?: number
+          time_zone?: string
+          until_date?: string | null
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          frequency?: string
+          id?: string
+          occurrence_count?: number | null
+          organizer_id?: string
+          organizer_type?: string
+          repeat_interval?: number
+          time_zone?: string
+          until_date?: string | null
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_series_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       events: {
         Row: {
+          cancelled_at: string | null
+          capacity: number | null
           created_at: string | null
           created_by: string | null
           description: string | null
@@ -245,13 +585,19 @@ export type Database = {
           event_type: string | null
           id: string
           image_url: string | null
+          location: string | null
           name: string
           organizer_id: string | null
           organizer_type: string | null
+          original_start_date: string | null
+          sequence: number
+          series_id: string | null
           start_date: string | null
           updated_at: string | null
         }
         Insert: {
+          cancelled_at?: string | null
+          capacity?: number | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
@@ -259,13 +605,19 @@ export type Database = {
           event_type?: string | null
           id?: string
           image_url?: string | null
+          location?: string | null
           name: string
           organizer_id?: string | null
           organizer_type?: string | null
+          original_start_date?: string | null
+          sequence?: number
+          series_id?: string | null
           start_date?: string | null
           updated_at?: string | null
         }
         Update: {
+          cancelled_at?: string | null
+          capacity?: number | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
@@ -273,9 +625,13 @@ export type Database = {
           event_type?: string | null
           id?: string
           image_url?: string | null
+          location?: string | null
           name?: string
           organizer_id?: string | null
           organizer_type?: string | null
+          original_start_date?: string | null
+          sequence?: number
+          series_id?: string | null
           start_date?: string | null
           updated_at?: string | null
         }
@@ -287,6 +643,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "event_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
       group_members: {
@@ -328,6 +691,45 @@ export type Database = {
           },
         ]
       }
+      group_read_cursors: {
+        Row: {
+          group_id: string
+          last_read_at: string
+          last_read_message_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          group_id: string
+          last_read_at: string
+          last_read_message_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          group_id?: string
+          last_read_at?: string
+          last_read_message_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_read_cursors_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_read_cursors_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       groups: {
         Row: {
           created_at: string | null
@@ -366,12 +768,120 @@ export type Database = {
           },
         ]
       }
+      link_previews: {
+        Row: {
+          description: string | null
+          fetched_at: string
+          image_url: string | null
+          site_name: string | null
+          status: string
+          title: string | null
+          url: string
+        }
+        Insert: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          status?: string
+          title?: string | null
+          url: string
+        }
+        Update: {
+          description?: string | null
+          fetched_at?: string
+          image_url?: string | null
+          site_name?: string | null
+          status?: string
+          title?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      moderation_actions: {
+        Row: {
+          action: string
+          content_hidden: boolean
+          created_at: string | null
+          id: string
+          moderator_id: string | null
+          note: string | null
+          suspended_until: string | null
+          target_id: string
+          target_type: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          content_hidden?: boolean
+          created_at?: string | null
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          suspended_until?: string | null
+          target_id: string
+          target_type: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          content_hidden?: boolean
+          created_at?: string | null
+          id?: string
+          moderator_id?: string | null
+          note?: string | null
+          suspended_until?: string | null
+          target_id?: string
+          target_type?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_moderator_id_fkey"
+            columns: ["moderator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderators: {
+        Row: {
+          created_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderators_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           content: string | null
           created_at: string | null
           id: string
           is_read: boolean | null
+          link: string | null
           related_id: string | null
           type: string | null
           user_id: string | null
@@ -381,6 +891,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_read?: boolean | null
+          link?: string | null
           related_id?: string | null
           type?: string | null
           user_id?: string | null
@@ -390,6 +901,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           is_read?: boolean | null
+          link?: string | null
           related_id?: string | null
           type?: string | null
           user_id?: string | null
@@ -404,6 +916,132 @@ export type Database = {
           },
         ]
       }
+      poll_options: {
+        Row: {
+          id: string
+          label: string
+          poll_id: string
+          position: number
+          vote_count: number
+        }
+        Insert: {
+          id?: string
+          label: string
+          poll_id: string
+          position: number
+          vote_count?: number
+        }
+        Update: {
+          id?: string
+          label?: string
+          poll_id?: string
+          position?: number
+          vote_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string | null
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          option_id: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          option_id?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_option_id_fkey"
+            columns: ["option_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          allows_multiple: boolean
+          closes_at: string | null
+          created_at: string | null
+          created_by: string
+          group_message_id: string | null
+          id: string
+          is_anonymous: boolean
+          post_id: string | null
+          voter_count: number
+        }
+        Insert: {
+          allows_multiple?: boolean
+          closes_at?: string | null
+          created_at?: string | null
+          created_by: string
+          group_message_id?: string | null
+          id?: string
+          is_anonymous?: boolean
+          post_id?: string | null
+          voter_count?: number
+        }
+        Update: {
+          allows_multiple?: boolean
+          closes_at?: string | null
+          created_at?: string | null
+          created_by?: string
+          group_message_id?: string | null
+          id?: string
+          is_anonymous?: boolean
+          post_id?: string | null
+          voter_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "polls_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_interactions: {
         Row: {
           created_at: string | null
@@ -443,6 +1081,64 @@ export type Database = {
           },
         ]
       }
+      post_revisions: {
+        Row: {
+          content: string
+          id: string
+          post_id: string
+          replaced_at: string | null
+          written_at: string
+        }
+        Insert: {
+          content: string
+          id?: string
+          post_id: string
+          replaced_at?: string | null
+          written_at: string
+        }
+        Update: {
+          content?: string
+          id?: string
+          post_id?: string
+          replaced_at?: string | null
+          written_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_tags: {
+        Row: {
+          created_at: string | null
+          post_id: string
+          tag: string
+        }
+        Insert: {
+          created_at?: string | null
+          post_id: string
+          tag: string
+        }
+        Update: {
+          created_at?: string | null
+          post_id?: string
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_tags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_visibility: {
         Row: {
           id: string
@@ -501,9 +1197,12 @@ export type Database = {
           author_id: string | null
           content: string
           created_at: string | null
+          edited_at: string | null
+          hidden_at: string | null
           id: string
           is_published: boolean | null
           media_urls: string[] | null
+          post_type: string
           scheduled_time: string | null
           updated_at: string | null
           visibility: string | null
@@ -512,9 +1211,12 @@ export type Database = {
           author_id?: string | null
           content: string
           created_at?: string | null
+          edited_at?: string | null
+          hidden_at?: string | null
           id?: string
           is_published?: boolean | null
           media_urls?: string[] | null
+          post_type?: string
           scheduled_time?: string | null
           updated_at?: string | null
           visibility?: string | null
@@ -523,9 +1225,12 @@ export type Database = {
           author_id?: string | null
           content?: string
           created_at?: string | null
+          edited_at?: string | null
+          hidden_at?: string | null
           id?: string
           is_published?: boolean | null
           media_urls?: string[] | null
+          post_type?: string
           scheduled_time?: string | null
           updated_at?: string | null
           visibility?: string | null
@@ -585,6 +1290,73 @@ export type Database = {
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          action_id: string | null
+          content_snapshot: string | null
+          created_at: string | null
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          status: string
+          target_author_id: string | null
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          action_id?: string | null
+          content_snapshot?: string | null
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          status?: string
+          target_author_id?: string | null
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          action_id?: string | null
+          content_snapshot?: string | null
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          status?: string
+          target_author_id?: string | null
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "moderation_actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_target_author_id_fkey"
+            columns: ["target_author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           assigned_by: string | null
@@ -652,6 +1424,51 @@ export type Database = {
           },
         ]
       }
+      user_sanctions: {
+        Row: {
+          action_id: string | null
+          created_at: string | null
+          ends_at: string | null
+          id: string
+          kind: string
+          reason: string | null
+          user_id: string
+        }
+        Insert: {
+          action_id?: string | null
+          created_at?: string | null
+          ends_at?: string | null
+          id?: string
+          kind: string
+          reason?: string | null
+          user_id: string
+        }
+        Update: {
+          action_id?: string | null
+          created_at?: string | null
+          ends_at?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sanctions_action_id_fkey"
+            columns: ["action_id"]
+            isOneToOne: false
+            referencedRelation: "moderation_actions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_sanctions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workspaces: {
         Row: {
           created_at: string | null
@@ -705,8 +1522,118 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_club_member: {
+        Args: { target_club_id: string; target_user_id: string }
+        Returns: Json
+      }
+      broadcast_typing: {
+        Args: { is_typing: boolean; typing_scope: string }
+        Returns: Json
+      }
+      cast_poll_vote: {
+        Args: { option_ids?: string[]; target_poll_id: string }
+        Returns: Json
+      }
+      check_in_with_code: {
+        Args: { checkin_code: string; target_event_id: string }
+        Returns: Json
+      }
+      create_post: {
+        Args: {
+          audience?: string
+          audience_club_ids?: string[]
+          audience_group_ids?: string[]
+          audience_user_ids?: string[]
+          media?: string[]
+          poll_allows_multiple?: boolean
+          poll_closes_at?: string
+          poll_is_anonymous?: boolean
+          poll_options?: string[]
+          post_content: string
+          publish_at?: string
+        }
+        Returns: Json
+      }
+      create_recurring_event: {
+        Args: {
+          event_capacity?: number
+          event_description?: string
+          event_location?: string
+          event_name: string
+          first_end?: string
+          first_start: string
+          org_id: string
+          org_type: string
+          repeat_count?: number
+          repeat_frequency: string
+          repeat_interval?: number
+          repeat_until?: string
+          repeat_weekdays?: number[]
+          time_zone: string
+        }
+        Returns: Json
+      }
+      get_calendar_feed_token: {
+        Args: { regenerate?: boolean }
+        Returns: Json
+      }
+      get_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          last_message_at: string
+          last_message_content: string
+          last_message_deleted: boolean
+          last_message_has_media: boolean
+          last_message_id: string
+          last_message_sender_id: string
+          partner_id: string
+          partner_name: string
+          partner_online: boolean
+          partner_pic: string
+          partner_username: string
+          unread_count: number
+        }[]
+      }
+      get_event_checkin_code: {
+        Args: { target_event_id: string }
+        Returns: Json
+      }
+      get_group_unread_count: {
+        Args: { group_uuid: string; user_uuid: string }
+        Returns: number
+      }
+      get_group_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          group_id: string
+          unread_count: number
+        }[]
+      }
+      get_ranked_feed: {
+        Args: { as_of?: string; page_offset?: number; page_size?: number }
+        Returns: {
+          post_id: string
+          score: number
+        }[]
+      }
+      get_report_context: {
+        Args: { target_report_id: string }
+        Returns: Json
+      }
+      get_trending_tags: {
+        Args: { since_days?: number; tag_limit?: number }
+        Returns: {
+          post_count: number
+          tag: string
+        }[]
+      }
       get_user_feed: {
-        Args: { user_id?: string }
+        Args: {
+          before_created_at?: string
+          before_id?: string
+          page_size?: number
+          user_id?: string
+        }
         Returns: {
           author_id: string
           author_name: string
@@ -717,6 +1644,64 @@ export type Database = {
           post_id: string
         }[]
       }
+      manual_check_in: {
+        Args: { target_event_id: string; target_user_id: string }
+        Returns: Json
+      }
+      mark_conversation_read: {
+        Args: { partner_user_id: string }
+        Returns: Json
+      }
+      mark_group_read: {
+        Args: { target_group_id: string; up_to_message_id?: string }
+        Returns: Json
+      }
+      report_content: {
+        Args: {
+          report_details?: string
+          report_reason: string
+          target_content_id: string
+          target_kind: string
+        }
+        Returns: Json
+      }
+      resolve_report: {
+        Args: {
+          hide_content?: boolean
+          moderator_note?: string
+          resolution: string
+          suspend_days?: number
+          target_report_id: string
+        }
+        Returns: Json
+      }
+      review_club_application: {
+        Args: { application_id: string; decision: string }
+        Returns: Json
+      }
+      rsvp_event: {
+        Args: { new_status: string; target_event_id: string }
+        Returns: Json
+      }
+      send_group_poll: {
+        Args: {
+          allows_multiple?: boolean
+          closes_at?: string
+          is_anonymous?: boolean
+          option_labels: string[]
+          question: string
+          target_group_id: string
+        }
+        Returns: Json
+      }
+      set_club_member_role: {
+        Args: { new_role: string; target_club_id: string; target_user_id: string }
+        Returns: Json
+      }
+      set_post_reaction: {
+        Args: { reaction?: string; target_post_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,31 @@
+type CsvValue = string | number | null | undefined;
+
+// Text that spreadsheets would run as a formula, e.g. a name like
+// =HYPERLINK(...). Numbers are left alone so negatives stay numeric
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote fields containing separators, quotes or newlines (RFC 4180).
+// User-entered text that looks like a formula is prefixed with ' and quoted
+// first, so it opens as plain text
+const escapeCsvValue = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]) {
+  // Leading BOM so Excel opens UTF-8 names correctly
+  const blob = new Blob(['\uFEFF' + toCsv(headers, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
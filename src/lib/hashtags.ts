@@ -0,0 +1,27 @@
+// Mirrors extract_hashtags() in the database: an # that doesn't follow a word
+// character, with at least one letter so "#1" isn't treated as a topic
+const HASHTAG_PATTERN = /(^|[^A-Za-z0-9_&])#([A-Za-z0-9_]+)/g;
+
+export type HashtagPart =
+  | { type: 'text'; text: string }
+  | { type: 'tag'; text: string; tag: string };
+
+export const normalizeTag = (tag: string) => tag.replace(/^#/, '').toLowerCase();
+
+export function splitHashtags(text: string): HashtagPart[] {
+  const parts: HashtagPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const name = match[2];
+    if (!/[A-Za-z]/.test(name) || name.length > 50) continue;
+
+    const start = match.index! + match[1].length;
+    if (start > last) parts.push({ type: 'text', text: text.slice(last, start) });
+    parts.push({ type: 'tag', text: `#${name}`, tag: normalizeTag(name) });
+    last = start + name.length + 1;
+  }
+
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts;
+}
@@ -0,0 +1,167 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Widths an uploaded photo is resized to. Only the full variant's URL is
+// stored; the others sit next to it and are found by name. Photos narrower
+// than a variant aren't scaled up, so every file name also records the
+// photo's own width
+export const IMAGE_VARIANTS = [
+  { name: 'thumb', width: 320 },
+  { name: 'medium', width: 960 },
+  { name: 'full', width: 2048 },
+] as const;
+
+export type ImageVariantName = typeof IMAGE_VARIANTS[number]['name'];
+
+// Photos are decoded and redrawn on a canvas, which drops their EXIF data,
+// GPS location included. These are the types every browser can decode. GIFs
+// are uploaded as they are so they keep animating; other image types (TIFF,
+// HEIC, ...) would keep their metadata that way, so they're refused
+const PROCESSABLE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+];
+
+const VARIANT_SUFFIX = /-(\d+)w-(thumb|medium|full)\.(webp|jpg)$/;
+
+export const isProcessableImage = (file: File) => PROCESSABLE_TYPES.includes(file.type.toLowerCase());
+
+const refusedImageError = (file: File) => new Error(`${file.name} can't be uploaded. Try a JPEG or PNG instead.`);
+
+const isRefusedImage = (file: File) => {
+  const type = file.type.toLowerCase();
+  return type.startsWith('image/') && type !== 'image/gif' && !PROCESSABLE_TYPES.includes(type);
+};
+
+interface ImageVariant {
+  name: ImageVariantName;
+  blob: Blob;
+  extension: 'webp' | 'jpg';
+}
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+// Every variant of a photo, upright and without metadata, and the photo's
+// own width. A photo the browser can't decode is refused rather than
+// uploaded with its metadata
+const resizeImage = async (file: File): Promise<{ width: number; variants: ImageVariant[] }> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw refusedImageError(file);
+  }
+
+  try {
+    const variants: ImageVariant[] = [];
+
+    for (const { name, width } of IMAGE_VARIANTS) {
+      const scale = Math.min(1, width / bitmap.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Your browser can\'t process images');
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+      // Browsers that can't encode WebP hand back a PNG instead
+      let blob = await encodeCanvas(canvas, 'image/webp', 0.82);
+      let extension: ImageVariant['extension'] = 'webp';
+      if (!blob || blob.type !== 'image/webp') {
+        blob = await encodeCanvas(canvas, 'image/jpeg', 0.85);
+        extension = 'jpg';
+      }
+      if (!blob) throw new Error(`Couldn't process ${file.name}`);
+
+      variants.push({ name, blob, extension });
+    }
+
+    return { width: bitmap.width, variants };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Uploads a file to `${basePath}.<ext>` and returns its public URL. Photos
+// are uploaded as resized variants instead, at
+// `${basePath}-<width>w-<variant>.<ext>`, and the URL returned is the full
+// variant's. Only GIFs and files that aren't images are uploaded as they are
+export const uploadMediaFile = async (
+  bucket: string,
+  basePath: string,
+  file: File,
+  options: { upsert?: boolean } = {}
+) => {
+  const storage = supabase.storage.from(bucket);
+
+  if (isRefusedImage(file)) {
+    throw refusedImageError(file);
+  }
+
+  if (!isProcessableImage(file)) {
+    const { data, error } = await storage.upload(`${basePath}.${file.name.split('.').pop()}`, file, {
+      upsert: options.upsert,
+    });
+    if (error) throw error;
+    return storage.getPublicUrl(data.path).data.publicUrl;
+  }
+
+  const { width, variants } = await resizeImage(file);
+  const results = await Promise.all(
+    variants.map(variant =>
+      storage.upload(`${basePath}-${width}w-${variant.name}.${variant.extension}`, variant.blob, {
+        contentType: variant.blob.type,
+        upsert: options.upsert,
+      })
+    )
+  );
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  const full = variants.find(variant => variant.name === 'full')!;
+  return storage.getPublicUrl(`${basePath}-${width}w-full.${full.extension}`).data.publicUrl;
+};
+
+// The URL of another size of an uploaded photo. Older uploads were stored as
+// a single original, which is returned unchanged
+export const imageVariantUrl = (url: string, name: ImageVariantName) =>
+  VARIANT_SUFFIX.test(url) ? url.replace(VARIANT_SUFFIX, `-$1w-${name}.$3`) : url;
+
+// Every stored file behind a media URL, e.g. to delete them all
+export const imageVariantUrls = (url: string) =>
+  VARIANT_SUFFIX.test(url) ? IMAGE_VARIANTS.map(variant => imageVariantUrl(url, variant.name)) : [url];
+
+// Removes uploaded files, every variant of a photo included, by public URL
+export const removeMediaFiles = async (bucket: string, urls: string[]) => {
+  const paths = urls
+    .flatMap(imageVariantUrls)
+    .map(url => url.split(`/${bucket}/`)[1])
+    .filter((path): path is string => !!path)
+    .map(path => decodeURIComponent(path.split('?')[0]));
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(bucket).remove(paths);
+  if (error) throw error;
+};
+
+// A srcset for photos uploaded with variants, undefined for older uploads.
+// Variants that came out the photo's own size are listed once, at that size
+export const imageSrcSet = (url: string) => {
+  const match = url.match(VARIANT_SUFFIX);
+  if (!match) return undefined;
+
+  const photoWidth = Number(match[1]);
+  const widths = new Map<number, string>();
+  IMAGE_VARIANTS.forEach(variant => {
+    const width = Math.min(variant.width, photoWidth);
+    if (!widths.has(width)) widths.set(width, imageVariantUrl(url, variant.name));
+  });
+
+  return [...widths].map(([width, variantUrl]) => `${variantUrl} ${width}w`).join(', ');
+};
@@ -0,0 +1,50 @@
+// http(s) links and bare www. addresses
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+
+export type LinkPart =
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+// Sentence punctuation after a link isn't part of it. A closing bracket is
+// only kept when the link opened one, as in Wikipedia URLs
+const trimLink = (link: string) => {
+  let end = link.length;
+
+  while (end > 0) {
+    const char = link[end - 1];
+    if (/[.,;:!?'*]/.test(char)) {
+      end--;
+    } else if (char === ')' && link.slice(0, end).split('(').length <= link.slice(0, end).split(')').length - 1) {
+      end--;
+    } else {
+      break;
+    }
+  }
+
+  return link.slice(0, end);
+};
+
+export function splitLinks(text: string): LinkPart[] {
+  const parts: LinkPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const link = trimLink(match[0]);
+    if (!link || /^www\.?$/i.test(link)) continue;
+
+    const start = match.index!;
+    if (start > last) parts.push({ type: 'text', text: text.slice(last, start) });
+    parts.push({ type: 'link', text: link, href: /^https?:\/\//i.test(link) ? link : `https://${link}` });
+    last = start + link.length;
+  }
+
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts;
+}
+
+// The link a preview card is shown for: the first one in the text
+export function firstLink(text: string | null | undefined) {
+  if (!text) return null;
+  const part = splitLinks(text).find(p => p.type === 'link');
+  return part?.type === 'link' ? part.href : null;
+}
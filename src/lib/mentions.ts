@@ -0,0 +1,32 @@
+// Mirrors mentioned_user_ids() in the database: an @ that doesn't follow a
+// word character, so email addresses aren't treated as mentions
+const MENTION_PATTERN = /(^|[^A-Za-z0-9_])@([A-Za-z0-9_.-]+)/g;
+
+export type MentionPart =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; username: string };
+
+export function splitMentions(text: string): MentionPart[] {
+  const parts: MentionPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    // Trailing punctuation ends a sentence, not the username
+    const username = match[2].replace(/[.-]+$/, '');
+    if (!username) continue;
+
+    const start = match.index! + match[1].length;
+    if (start > last) parts.push({ type: 'text', text: text.slice(last, start) });
+    parts.push({ type: 'mention', text: `@${username}`, username });
+    last = start + username.length + 1;
+  }
+
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts;
+}
+
+// The partial @username being typed just before the caret, if any
+export function getMentionQuery(textBeforeCaret: string) {
+  const match = textBeforeCaret.match(/(?:^|[^A-Za-z0-9_])@([A-Za-z0-9_.-]*)$/);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,6 @@
+// Senders can edit a message for this long after sending it. The
+// guard_*_message_changes triggers enforce the same window
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export const canEditMessage = (createdAt: string) =>
+  Date.now() - new Date(createdAt).getTime() < MESSAGE_EDIT_WINDOW_MS;
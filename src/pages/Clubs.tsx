@@ -1,45 +1,174 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Header } from "@/components/layout/Header";
 import { NavBar } from "@/components/layout/NavBar";
-import { PostCard, type Post } from "@/components/feed/PostCard";
 import { ClubSidebarLeft } from "@/components/club/ClubSidebarLeft";
 import { ClubSidebarRight } from "@/components/club/ClubSidebarRight";
 import { ClubTabs } from "@/components/club/ClubTabs";
-
-const mockPosts: Post[] = [
-  {
-    id: "c1",
-    author: "Photography Club",
-    initials: "PC",
-    year: "Club",
-    subtitle: "Announcements, Events",
-    text: "Welcome to the Photography Club! Share your work, join events, and collaborate on projects.",
-  },
-];
+import { CreateClubModal } from "@/components/modals/CreateClubModal";
+import { ClubApplicationModal } from "@/components/modals/ClubApplicationModal";
+import { useAuth } from "@/hooks/useAuth";
+import { useClubs, type Club, type ClubJoinPolicy, type ClubMember, type ClubRole } from "@/hooks/useClubs";
 
 export default function Clubs() {
-  const [openCreate] = useState(false); // reserved for future modal
-  const posts = useMemo(() => mockPosts, []);
+  const { clubId } = useParams<{ clubId: string }>();
+  const navigate = useNavigate();
+  const [openCreate, setOpenCreate] = useState(false);
+  const [applyingClub, setApplyingClub] = useState<Club | null>(null);
+  const [selectedClub, setSelectedClub] = useState<Club | null>(null);
+  const [members, setMembers] = useState<ClubMember[]>([]);
+  const { user } = useAuth();
+  const {
+    clubs,
+    discoverClubs,
+    loading,
+    createClub,
+    updateClub,
+    joinClub,
+    applyToClub,
+    withdrawApplication,
+    leaveClub,
+    addMember,
+    setMemberRole,
+    getClub,
+    getClubMembers,
+    isClubMember
+  } = useClubs();
+
+  useEffect(() => {
+    document.title = selectedClub ? `${selectedClub.name} | Clubs | Campus Connect` : "Clubs | Campus Connect";
+  }, [selectedClub]);
+
+  // Default to the first joined club when no club is in the URL
+  useEffect(() => {
+    if (!clubId && !loading && clubs.length > 0) {
+      navigate(`/clubs/${clubs[0].id}`, { replace: true });
+    }
+  }, [clubId, loading, clubs, navigate]);
 
+  // Load the selected club and its roster; re-run when memberships change
   useEffect(() => {
-    document.title = "Clubs | Campus Connect";
-  }, []);
+    if (!clubId) {
+      setSelectedClub(null);
+      setMembers([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadClub = async () => {
+      const [club, clubMembers] = await Promise.all([
+        getClub(clubId),
+        getClubMembers(clubId).catch(() => [] as ClubMember[])
+      ]);
+      if (!cancelled) {
+        setSelectedClub(club);
+        setMembers(clubMembers);
+      }
+    };
+
+    loadClub();
+    return () => {
+      cancelled = true;
+    };
+  }, [clubId, clubs, discoverClubs]);
+
+  const handleCreateClub = async (clubData: {
+    name: string;
+    description: string;
+    join_policy: ClubJoinPolicy;
+    application_questions: string[];
+  }) => {
+    const club = await createClub(clubData);
+    if (club) navigate(`/clubs/${club.id}`);
+    return club;
+  };
+
+  const handleLeaveClub = async () => {
+    if (!selectedClub) return;
+    await leaveClub(selectedClub.id);
+  };
+
+  // Open clubs are joined directly; application clubs go through the form first
+  const handleJoinClub = async (club: Club) => {
+    if (club.join_policy === 'application') {
+      setApplyingClub(club);
+      return;
+    }
+    await joinClub(club.id);
+  };
+
+  const handleWithdrawApplication = async () => {
+    if (!selectedClub) return;
+    await withdrawApplication(selectedClub.id);
+  };
+
+  const reloadMembers = async () => {
+    if (!selectedClub) return;
+    setMembers(await getClubMembers(selectedClub.id));
+  };
+
+  const handleSetMemberRole = async (userId: string, role: ClubRole) => {
+    if (!selectedClub) return;
+    await setMemberRole(selectedClub.id, userId, role);
+    await reloadMembers();
+  };
+
+  const handleAddMember = async (userId: string) => {
+    if (!selectedClub) return;
+    await addMember(selectedClub.id, userId);
+    await reloadMembers();
+  };
 
   return (
     <div>
       <h1 className="sr-only">Clubs — Collaboration, Resources, Events, and Workflows</h1>
-      <Header onOpenCreate={() => {}} />
+      <Header onOpenCreate={() => setOpenCreate(true)} />
       <NavBar />
 
       <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-1 lg:grid-cols-[280px,1fr] xl:grid-cols-[280px,1fr,280px] gap-6">
-        <ClubSidebarLeft />
+        <ClubSidebarLeft
+          clubs={clubs}
+          discoverClubs={discoverClubs}
+          selectedClubId={clubId ?? null}
+          members={members}
+          loading={loading}
+          onSelectClub={(id) => navigate(`/clubs/${id}`)}
+          onJoinClub={handleJoinClub}
+          onCreateClub={() => setOpenCreate(true)}
+        />
 
         <section aria-labelledby="club-content" className="min-w-0">
           <h2 id="club-content" className="sr-only">Club Content</h2>
-          <ClubTabs posts={posts} />
+          {selectedClub ? (
+            <ClubTabs
+              club={selectedClub}
+              posts={[]}
+              members={members}
+              currentUserId={user?.id}
+              onUpdateClub={updateClub}
+              onSetMemberRole={handleSetMemberRole}
+              onAddMember={handleAddMember}
+            />
+          ) : (
+            <div className="rounded-xl border p-8 text-center text-sm text-muted-foreground">
+              {loading
+                ? 'Loading clubs...'
+                : clubId
+                  ? 'This club could not be found.'
+                  : 'Join a club from the sidebar or create your own to get started.'}
+            </div>
+          )}
         </section>
 
-        <ClubSidebarRight />
+        {selectedClub && (
+          <ClubSidebarRight
+            club={selectedClub}
+            isMember={isClubMember(selectedClub.id)}
+            onJoin={() => handleJoinClub(selectedClub)}
+            onWithdraw={handleWithdrawApplication}
+            onLeave={handleLeaveClub}
+          />
+        )}
       </main>
 
       <script
@@ -54,6 +183,19 @@ export default function Clubs() {
           })
         }}
       />
+
+      <CreateClubModal
+        open={openCreate}
+        onOpenChange={setOpenCreate}
+        onCreateClub={handleCreateClub}
+      />
+
+      <ClubApplicationModal
+        club={applyingClub}
+        open={!!applyingClub}
+        onOpenChange={(open) => !open && setApplyingClub(null)}
+        onApply={applyToClub}
+      />
     </div>
   );
 }
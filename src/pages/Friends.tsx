@@ -5,6 +5,9 @@ import { NavBar } from "@/components/layout/NavBar";
 import { FriendsLeftPanel } from "@/components/friends/FriendsLeftPanel";
 import { FriendsRightPanel } from "@/components/friends/FriendsRightPanel";
 import { useFriends, Friend as DatabaseFriend } from "@/hooks/useFriends";
+import { useConversations, conversationPreview, type Conversation } from "@/hooks/useConversations";
+import { useAuth } from "@/hooks/useAuth";
+import { format, isToday, differenceInCalendarDays } from "date-fns";
 
 export interface Friend {
   id: string;
@@ -16,34 +19,71 @@ export interface Friend {
   lastMessage?: string;
   lastMessageTime?: string;
   isOnline: boolean;
+  lastSeen?: string;
   unreadCount?: number;
   avatar?: string;
 }
 
-// Transform database friend to UI friend format
-const transformFriend = (dbFriend: DatabaseFriend): Friend => {
-  const initials = dbFriend.full_name
+const getInitials = (fullName: string) =>
+  fullName
     .split(' ')
     .map(name => name.charAt(0))
     .join('')
     .toUpperCase()
     .slice(0, 2);
 
+// Time of day for today's messages, weekday within the week, date otherwise
+const formatConversationTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  if (isToday(date)) return format(date, 'p');
+  if (differenceInCalendarDays(new Date(), date) < 7) return format(date, 'EEE');
+  return format(date, 'MMM d');
+};
+
+// Transform database friend to UI friend format
+const transformFriend = (dbFriend: DatabaseFriend): Friend => {
   return {
     id: dbFriend.id,
     name: dbFriend.full_name,
-    initials,
+    initials: getInitials(dbFriend.full_name),
     year: dbFriend.year_of_study || 'Unknown',
     branch: dbFriend.branch || 'Unknown',
     skills: dbFriend.skills || [],
     lastMessage: 'Start a conversation',
     lastMessageTime: '',
     isOnline: dbFriend.is_online || false,
+    lastSeen: dbFriend.last_seen || undefined,
     unreadCount: 0,
     avatar: dbFriend.profile_pic_url || undefined
   };
 };
 
+// Conversations come first, latest activity on top, followed by friends
+// who haven't been messaged yet. Partners who are no longer friends keep
+// their conversation
+const buildInbox = (dbFriends: DatabaseFriend[], conversations: Conversation[], userId?: string): Friend[] => {
+  const friendsById = new Map(dbFriends.map(f => [f.id, transformFriend(f)]));
+
+  const inbox = conversations.map(conversation => ({
+    ...(friendsById.get(conversation.partner_id) ?? {
+      id: conversation.partner_id,
+      name: conversation.partner_name,
+      initials: getInitials(conversation.partner_name),
+      year: 'Unknown',
+      branch: 'Unknown',
+      skills: [],
+      isOnline: conversation.partner_online,
+      avatar: conversation.partner_pic || undefined
+    }),
+    lastMessage: conversationPreview(conversation, userId),
+    lastMessageTime: formatConversationTime(conversation.last_message_at),
+    unreadCount: conversation.unread_count
+  }));
+
+  const messaged = new Set(conversations.map(c => c.partner_id));
+  return [...inbox, ...[...friendsById.values()].filter(f => !messaged.has(f.id))];
+};
+
 export interface FriendSuggestion {
   id: string;
   name: string;
@@ -90,10 +130,12 @@ const Friends = () => {
   const [showExplore, setShowExplore] = useState(false);
   const [suggestions] = useState<FriendSuggestion[]>(mockSuggestions);
   const { friends: dbFriends, loading } = useFriends();
+  const { conversations, loading: conversationsLoading } = useConversations();
+  const { user } = useAuth();
   const [searchParams] = useSearchParams();
   
-  // Transform database friends to UI format
-  const friends = dbFriends.map(transformFriend);
+  // Transform database friends and conversations to UI format
+  const friends = buildInbox(dbFriends, conversations, user?.id);
 
   // Handle URL parameter for direct chat navigation
   useEffect(() => {
@@ -118,7 +160,7 @@ const Friends = () => {
       <main className="flex h-[calc(100vh-8rem)]">
         {/* Left Panel - 1/3 width */}
         <div className="w-1/3 border-r border-border bg-background">
-          {loading ? (
+          {loading || conversationsLoading ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-sm text-muted-foreground">Loading friends...</div>
             </div>
@@ -137,6 +179,7 @@ const Friends = () => {
           <FriendsRightPanel
             selectedFriend={selectedFriend}
             showExplore={showExplore}
+            focusMessageId={searchParams.get('message')}
             suggestions={suggestions}
             onBackToChat={() => setShowExplore(false)}
             onSelectFriend={setSelectedFriend}
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Header } from "@/components/layout/Header";
 import { NavBar } from "@/components/layout/NavBar";
 import { GroupSidebar } from "@/components/groups/GroupSidebar";
@@ -20,11 +21,25 @@ const Groups = () => {
   const [selectedWorkspace, setSelectedWorkspace] = useState<string | null>(null);
   const [currentMode, setCurrentMode] = useState<"group" | "workspace">("group");
   const [rightPanelView, setRightPanelView] = useState<"tasks" | "analysis">("tasks");
+  const [searchParams] = useSearchParams();
   
   // Use real hooks for data management
   const { groups } = useGroups();
   const { workspaces, createWorkspace } = useWorkspaces();
 
+  // Handle URL parameters for links to a group or workspace message
+  useEffect(() => {
+    const groupId = searchParams.get('group');
+    const workspaceId = searchParams.get('workspace');
+    if (groupId) {
+      setCurrentMode("group");
+      setSelectedGroup(groupId);
+    } else if (workspaceId) {
+      setCurrentMode("workspace");
+      setSelectedWorkspace(workspaceId);
+    }
+  }, [searchParams]);
+
   const handleModeSwitch = (mode: "group" | "workspace") => {
     setCurrentMode(mode);
     // Reset selections when switching modes
@@ -134,10 +149,12 @@ const Groups = () => {
           {currentMode === "group" ? (
             <GroupChat 
               selectedGroup={selectedGroup} 
+              focusMessageId={searchParams.get('message')}
             />
           ) : (
             <WorkspaceChat 
               selectedWorkspace={selectedWorkspace}
+              focusMessageId={searchParams.get('message')}
             />
           )}
         </section>
@@ -1,46 +1,39 @@
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Header } from "@/components/layout/Header";
 import { NavBar } from "@/components/layout/NavBar";
 import { SidebarLeft } from "@/components/layout/SidebarLeft";
 import { SidebarRight } from "@/components/layout/SidebarRight";
-import { PostCard, type Post } from "@/components/feed/PostCard";
+import { PostCard, toPostCardPost } from "@/components/feed/PostCard";
 import { PostSkeleton } from "@/components/feed/PostSkeleton";
+import { FeedLoadMore } from "@/components/feed/FeedLoadMore";
+import { NewPostsPill } from "@/components/feed/NewPostsPill";
 import { CreatePostModal } from "@/components/modals/CreatePostModal";
+import { ScheduledPostsModal } from "@/components/modals/ScheduledPostsModal";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Clock } from "lucide-react";
 import { SignatureMoment } from "@/components/SignatureMoment";
-import { usePosts } from "@/hooks/usePosts";
+import { useFeed, usePost, type FeedMode } from "@/hooks/useFeed";
 import { useAuth } from "@/hooks/useAuth";
 
-// Transform database post to UI post format
-const transformPost = (dbPost: any): Post => {
-  const initials = dbPost.author?.full_name
-    ?.split(' ')
-    .map((n: string) => n[0])
-    .join('')
-    .toUpperCase() || 'U';
-
-  const skills = dbPost.author?.skills || [];
-  const subtitle = [
-    dbPost.author?.branch,
-    dbPost.author?.year_of_study,
-    ...skills.slice(0, 2)
-  ].filter(Boolean).join(', ');
-
-  return {
-    id: dbPost.id,
-    author: dbPost.author?.full_name || 'Unknown User',
-    initials,
-    year: dbPost.author?.year_of_study || '',
-    subtitle,
-    text: dbPost.content,
-  };
-};
-
 const Index = () => {
   const [openCreate, setOpenCreate] = useState(false);
-  const { posts: dbPosts, loading } = usePosts();
+  const [openScheduled, setOpenScheduled] = useState(false);
+  const [feedMode, setFeedMode] = useState<FeedMode>('latest');
+  const { posts: dbPosts, loading, hasMore, loadingMore, loadMore, newPosts, showNewPosts } = useFeed(undefined, feedMode);
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  // Set by notification links to a post or one of its comments
+  const linkedPostId = searchParams.get('post');
+  const linkedCommentId = searchParams.get('comment');
 
-  const posts = dbPosts.map(transformPost);
+  // A linked post may be older than the loaded pages; fetch it on its own
+  // and pin it above the feed
+  const linkedPostLoaded = dbPosts.some(p => p.id === linkedPostId);
+  const { post: linkedPost } = usePost(linkedPostId && !loading && !linkedPostLoaded ? linkedPostId : null);
+
+  const posts = dbPosts.map(toPostCardPost);
   
   console.log('Index page - dbPosts count:', dbPosts.length);
   console.log('Index page - transformed posts:', posts);
@@ -58,7 +51,31 @@ const Index = () => {
         <SidebarLeft />
 
         <section aria-labelledby="feed-heading" className="min-w-0">
-          <h2 id="feed-heading" className="text-base font-semibold mb-3">Feed</h2>
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-3">
+              <h2 id="feed-heading" className="text-base font-semibold">Feed</h2>
+              <Tabs value={feedMode} onValueChange={(value) => setFeedMode(value as FeedMode)}>
+                <TabsList className="h-8">
+                  <TabsTrigger value="latest" className="h-6 px-2 text-xs">Latest</TabsTrigger>
+                  <TabsTrigger value="for_you" className="h-6 px-2 text-xs">For you</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+            {user && (
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setOpenScheduled(true)}>
+                <Clock className="h-3 w-3 mr-1" />
+                Scheduled
+              </Button>
+            )}
+          </div>
+          <NewPostsPill count={newPosts.length} onShow={showNewPosts} />
+          {linkedPost && !linkedPostLoaded && (
+            <PostCard
+              post={toPostCardPost(linkedPost)}
+              highlighted
+              focusCommentId={linkedCommentId}
+            />
+          )}
           {loading ? (
             <div className="space-y-4">
               <PostSkeleton />
@@ -71,8 +88,14 @@ const Index = () => {
           ) : (
             <div>
               {posts.map((p) => (
-                <PostCard key={p.id} post={p} />
+                <PostCard
+                  key={p.id}
+                  post={p}
+                  highlighted={p.id === linkedPostId}
+                  focusCommentId={p.id === linkedPostId ? linkedCommentId : null}
+                />
               ))}
+              <FeedLoadMore hasMore={hasMore} loadingMore={loadingMore} onLoadMore={loadMore} />
             </div>
           )}
         </section>
@@ -99,6 +122,8 @@ const Index = () => {
         onOpenChange={setOpenCreate}
         currentUser={user}
       />
+
+      {user && <ScheduledPostsModal open={openScheduled} onOpenChange={setOpenScheduled} />}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Header } from "@/components/layout/Header";
+import { NavBar } from "@/components/layout/NavBar";
+import { SidebarLeft } from "@/components/layout/SidebarLeft";
+import { SidebarRight } from "@/components/layout/SidebarRight";
+import { PostSkeleton } from "@/components/feed/PostSkeleton";
+import { ReportCard } from "@/components/moderation/ReportCard";
+import { CreatePostModal } from "@/components/modals/CreatePostModal";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useIsModerator, useModerationQueue } from "@/hooks/useModeration";
+import { useAuth } from "@/hooks/useAuth";
+
+const Moderation = () => {
+  const [openCreate, setOpenCreate] = useState(false);
+  const [view, setView] = useState<"open" | "resolved">("open");
+  const { user } = useAuth();
+  const { isModerator, loading: checkingModerator } = useIsModerator();
+  const { reports, loading, resolveReport } = useModerationQueue(view, isModerator);
+
+  return (
+    <div>
+      {/* SEO H1 for page intent */}
+      <h1 className="sr-only">Moderation - Campus Connect</h1>
+
+      <Header onOpenCreate={() => setOpenCreate(true)} />
+      <NavBar />
+
+      <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-1 lg:grid-cols-[280px,1fr] xl:grid-cols-[280px,1fr,280px] gap-6">
+        <SidebarLeft />
+
+        <section aria-labelledby="moderation-heading" className="min-w-0">
+          <div className="flex items-center justify-between mb-3">
+            <h2 id="moderation-heading" className="text-base font-semibold">Moderation</h2>
+            {isModerator && (
+              <Tabs value={view} onValueChange={(value) => setView(value as "open" | "resolved")}>
+                <TabsList className="h-8">
+                  <TabsTrigger value="open" className="text-xs">Open</TabsTrigger>
+                  <TabsTrigger value="resolved" className="text-xs">Resolved</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+          </div>
+
+          {checkingModerator || (isModerator && loading) ? (
+            <div className="space-y-4">
+              <PostSkeleton />
+              <PostSkeleton />
+            </div>
+          ) : !isModerator ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">Only moderators can review reports.</p>
+            </div>
+          ) : reports.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">
+                {view === "open" ? 'No open reports. All caught up.' : 'No resolved reports yet.'}
+              </p>
+            </div>
+          ) : (
+            <div>
+              {reports.map((report) => (
+                <ReportCard
+                  key={report.id}
+                  report={report}
+                  onResolve={view === "open" ? resolveReport : undefined}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+
+        <SidebarRight />
+      </main>
+
+      <CreatePostModal
+        open={openCreate}
+        onOpenChange={setOpenCreate}
+        currentUser={user}
+      />
+    </div>
+  );
+};
+
+export default Moderation;
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Header } from "@/components/layout/Header";
+import { NavBar } from "@/components/layout/NavBar";
+import { SidebarLeft } from "@/components/layout/SidebarLeft";
+import { SidebarRight } from "@/components/layout/SidebarRight";
+import { PostSkeleton } from "@/components/feed/PostSkeleton";
+import { SavedPost } from "@/components/feed/SavedPost";
+import { CreatePostModal } from "@/components/modals/CreatePostModal";
+import { CollectionNameModal } from "@/components/modals/CollectionNameModal";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { FolderPlus, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { useAuth } from "@/hooks/useAuth";
+
+const Saved = () => {
+  const [openCreate, setOpenCreate] = useState(false);
+  // null shows every saved post
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [naming, setNaming] = useState<"create" | "rename" | null>(null);
+  const {
+    bookmarks,
+    collections,
+    loading,
+    removeBookmark,
+    moveBookmark,
+    createCollection,
+    renameCollection,
+    deleteCollection
+  } = useBookmarks();
+  const { user } = useAuth();
+
+  const activeCollection = collections.find(c => c.id === activeCollectionId) ?? null;
+  const visibleBookmarks = activeCollection
+    ? bookmarks.filter(b => b.collection_id === activeCollection.id)
+    : bookmarks;
+
+  const countIn = (collectionId: string) => bookmarks.filter(b => b.collection_id === collectionId).length;
+
+  const handleDeleteCollection = async () => {
+    if (!activeCollection) return;
+    if (await deleteCollection(activeCollection.id)) setActiveCollectionId(null);
+  };
+
+  return (
+    <div>
+      {/* SEO H1 for page intent */}
+      <h1 className="sr-only">Saved posts - Campus Connect</h1>
+
+      <Header onOpenCreate={() => setOpenCreate(true)} />
+      <NavBar />
+
+      <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-1 lg:grid-cols-[280px,1fr] xl:grid-cols-[280px,1fr,280px] gap-6">
+        <SidebarLeft />
+
+        <section aria-labelledby="saved-heading" className="min-w-0">
+          <div className="flex items-center justify-between mb-3">
+            <h2 id="saved-heading" className="text-base font-semibold">
+              {activeCollection ? activeCollection.name : 'Saved'}
+            </h2>
+            <div className="flex items-center gap-1">
+              {activeCollection && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" aria-label="Collection options">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setNaming("rename")}>
+                      <Pencil className="mr-2 h-4 w-4" /> Rename collection
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleDeleteCollection} className="text-destructive focus:text-destructive">
+                      <Trash2 className="mr-2 h-4 w-4" /> Delete collection
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setNaming("create")}>
+                <FolderPlus className="h-3 w-3 mr-1" />
+                New collection
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            <Button
+              size="sm"
+              variant={activeCollectionId === null ? "secondary" : "outline"}
+              className="h-7 rounded-full px-3 text-xs"
+              onClick={() => setActiveCollectionId(null)}
+            >
+              All ({bookmarks.length})
+            </Button>
+            {collections.map((collection) => (
+              <Button
+                key={collection.id}
+                size="sm"
+                variant={activeCollectionId === collection.id ? "secondary" : "outline"}
+                className="h-7 rounded-full px-3 text-xs"
+                onClick={() => setActiveCollectionId(collection.id)}
+              >
+                {collection.name} ({countIn(collection.id)})
+              </Button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="space-y-4">
+              <PostSkeleton />
+              <PostSkeleton />
+            </div>
+          ) : visibleBookmarks.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">
+                {activeCollection
+                  ? 'Nothing in this collection yet. File saved posts here from All.'
+                  : 'No saved posts yet. Use the bookmark on a post to save it for later.'}
+              </p>
+            </div>
+          ) : (
+            <div>
+              {visibleBookmarks.map((bookmark) => (
+                <SavedPost
+                  key={bookmark.id}
+                  bookmark={bookmark}
+                  collections={collections}
+                  onMove={moveBookmark}
+                  onRemove={removeBookmark}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+
+        <SidebarRight />
+      </main>
+
+      <CollectionNameModal
+        open={naming !== null}
+        onOpenChange={(open) => !open && setNaming(null)}
+        title={naming === "rename" ? "Rename Collection" : "New Collection"}
+        initialName={naming === "rename" ? activeCollection?.name : ""}
+        submitLabel={naming === "rename" ? "Save" : "Create"}
+        onSubmit={async (name) => {
+          if (naming === "rename" && activeCollection) {
+            return renameCollection(activeCollection.id, name);
+          }
+          const created = await createCollection(name);
+          if (created) setActiveCollectionId(created.id);
+          return !!created;
+        }}
+      />
+
+      <CreatePostModal
+        open={openCreate}
+        onOpenChange={setOpenCreate}
+        currentUser={user}
+      />
+    </div>
+  );
+};
+
+export default Saved;
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Header } from "@/components/layout/Header";
+import { NavBar } from "@/components/layout/NavBar";
+import { SidebarLeft } from "@/components/layout/SidebarLeft";
+import { SidebarRight } from "@/components/layout/SidebarRight";
+import { PostCard, toPostCardPost } from "@/components/feed/PostCard";
+import { PostSkeleton } from "@/components/feed/PostSkeleton";
+import { FeedLoadMore } from "@/components/feed/FeedLoadMore";
+import { NewPostsPill } from "@/components/feed/NewPostsPill";
+import { CreatePostModal } from "@/components/modals/CreatePostModal";
+import { ArrowLeft, Hash } from "lucide-react";
+import { useFeed } from "@/hooks/useFeed";
+import { useAuth } from "@/hooks/useAuth";
+import { normalizeTag } from "@/lib/hashtags";
+
+const Tag = () => {
+  const { tag: rawTag = "" } = useParams<{ tag: string }>();
+  const tag = normalizeTag(rawTag);
+  const [openCreate, setOpenCreate] = useState(false);
+  const { posts: dbPosts, loading, hasMore, loadingMore, loadMore, newPosts, showNewPosts } = useFeed(tag);
+  const { user } = useAuth();
+
+  const posts = dbPosts.map(toPostCardPost);
+
+  return (
+    <div>
+      {/* SEO H1 for page intent */}
+      <h1 className="sr-only">#{tag} - Campus Connect</h1>
+
+      <Header onOpenCreate={() => setOpenCreate(true)} />
+      <NavBar />
+
+      <main className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-1 lg:grid-cols-[280px,1fr] xl:grid-cols-[280px,1fr,280px] gap-6">
+        <SidebarLeft />
+
+        <section aria-labelledby="tag-heading" className="min-w-0">
+          <div className="flex items-center gap-2 mb-3">
+            <Link to="/" className="text-muted-foreground hover:text-foreground" aria-label="Back to feed">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <h2 id="tag-heading" className="text-base font-semibold flex items-center">
+              <Hash className="h-4 w-4" />
+              {tag}
+            </h2>
+          </div>
+          <NewPostsPill count={newPosts.length} onShow={showNewPosts} />
+          {loading ? (
+            <div className="space-y-4">
+              <PostSkeleton />
+              <PostSkeleton />
+            </div>
+          ) : posts.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">No posts tagged #{tag} yet.</p>
+            </div>
+          ) : (
+            <div>
+              {posts.map((p) => (
+                <PostCard key={p.id} post={p} />
+              ))}
+              <FeedLoadMore hasMore={hasMore} loadingMore={loadingMore} onLoadMore={loadMore} />
+            </div>
+          )}
+        </section>
+
+        <SidebarRight />
+      </main>
+
+      <CreatePostModal
+        open={openCreate}
+        onOpenChange={setOpenCreate}
+        currentUser={user}
+      />
+    </div>
+  );
+};
+
+export default Tag;
@@ -0,0 +1,267 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stable UIDs let calendar apps match updates and cancellations to what they already imported
+const UID_DOMAIN = 'cohort-connect';
+
+// How far back the feed reaches, so recent history stays visible
+const FEED_LOOKBACK_DAYS = 30;
+
+// RSVP changes raise SEQUENCE by the seconds from here to the response, so
+// it only goes up and still fits the 32-bit integers clients store it in
+const RSVP_SEQUENCE_EPOCH = Date.UTC(2026, 0, 1);
+
+interface EventRow {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  sequence: number | null;
+  cancelled_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+interface RsvpRow {
+  status: string;
+  responded_at: string | null;
+  events: EventRow;
+}
+
+interface TaskRow {
+  id: string;
+  name: string;
+  description: string | null;
+  due_date: string | null;
+  status: string | null;
+  updated_at: string | null;
+  workspaces: { name: string } | null;
+}
+
+// RFC 5545 text escaping
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+
+// Fold lines longer than 75 octets, continuing with a leading space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// All timestamps are emitted in UTC so no VTIMEZONE definitions are needed
+const formatUtc = (iso: string) =>
+  new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+const buildCalendar = (name: string, components: string[][]) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Campus Connect//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...components.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Clients ignore changes that don't raise SEQUENCE, so the attendee's own
+// RSVP changes (declining turns the event CANCELLED) count as well as the
+// organizer's edits
+const eventSequence = (event: EventRow, respondedAt?: string | null) => {
+  const rsvpSequence = respondedAt
+    ? Math.max(0, Math.floor((new Date(respondedAt).getTime() - RSVP_SEQUENCE_EPOCH) / 1000))
+    : 0;
+  return (event.sequence ?? 0) + rsvpSequence;
+};
+
+const eventComponent = (event: EventRow, rsvp?: Omit<RsvpRow, 'events'>) => {
+  const start = event.start_date as string;
+  // Events without an end default to one hour
+  const end = event.end_date || new Date(new Date(start).getTime() + 60 * 60 * 1000).toISOString();
+  const rsvpStatus = rsvp?.status;
+  const cancelled = !!event.cancelled_at || rsvpStatus === 'not_going';
+  const lastModified = [event.updated_at, rsvp?.responded_at]
+    .filter((date): date is string => !!date)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0];
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(new Date().toISOString())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SEQUENCE:${eventSequence(event, rsvp?.responded_at)}`,
+    `SUMMARY:${escapeText(event.name)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : rsvpStatus === 'going' || !rsvpStatus ? 'CONFIRMED' : 'TENTATIVE'}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.created_at) lines.push(`CREATED:${formatUtc(event.created_at)}`);
+  if (lastModified) lines.push(`LAST-MODIFIED:${formatUtc(lastModified)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Task due dates are calendar dates, so they become all-day events
+const taskComponent = (task: TaskRow) => {
+  const due = task.due_date as string;
+  const done = task.status === 'completed';
+  const description = [task.workspaces?.name && `Workspace: ${task.workspaces.name}`, task.description]
+    .filter(Boolean)
+    .join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(new Date().toISOString())}`,
+    `DTSTART;VALUE=DATE:${formatDate(due)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(due))}`,
+    `SUMMARY:${escapeText(`${done ? '✓ ' : ''}Due: ${task.name}`)}`,
+    'TRANSP:TRANSPARENT',
+    'STATUS:CONFIRMED',
+  ];
+
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (task.updated_at) lines.push(`LAST-MODIFIED:${formatUtc(task.updated_at)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const calendarResponse = (body: string, filename: string, download: boolean) =>
+  new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${filename}"`,
+      'Cache-Control': 'no-cache',
+    },
+  });
+
+const errorResponse = (message: string, status: number) =>
+  new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" }
+    }
+  );
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const eventId = url.searchParams.get('event');
+    const token = url.searchParams.get('token');
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Single event download: ?event=<id>
+    if (eventId) {
+      const { data: event, error } = await supabase
+        .from('events')
+        .select('id, name, description, location, start_date, end_date, sequence, cancelled_at, created_at, updated_at')
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!event || !event.start_date) {
+        return errorResponse('Event not found', 404);
+      }
+
+      return calendarResponse(buildCalendar(event.name, [eventComponent(event)]), `event-${event.id}.ics`, true);
+    }
+
+    // Subscribable feed: ?token=<feed token>
+    if (!token) {
+      return errorResponse('Missing event or token parameter', 400);
+    }
+
+    const { data: feedToken, error: tokenError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (tokenError) throw tokenError;
+    if (!feedToken) {
+      return errorResponse('Invalid calendar feed token', 404);
+    }
+
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [{ data: rsvps, error: rsvpError }, { data: tasks, error: taskError }] = await Promise.all([
+      supabase
+        .from('event_rsvps')
+        .select('status, responded_at, events!inner(id, name, description, location, start_date, end_date, sequence, cancelled_at, created_at, updated_at)')
+        .eq('user_id', feedToken.user_id)
+        .gte('events.start_date', since),
+      supabase
+        .from('tasks')
+        .select('id, name, description, due_date, status, updated_at, workspaces:workspace_id(name)')
+        .eq('assigned_to', feedToken.user_id)
+        .not('due_date', 'is', null)
+        .gte('due_date', since.slice(0, 10))
+    ]);
+
+    if (rsvpError) throw rsvpError;
+    if (taskError) throw taskError;
+
+    // Declined events stay in the feed as CANCELLED so clients drop them
+    const components = [
+      ...(rsvps || []).map((r: RsvpRow) => eventComponent(r.events, r)),
+      ...(tasks || []).map((t: TaskRow) => taskComponent(t)),
+    ];
+
+    return calendarResponse(buildCalendar('Campus Connect', components), 'campus-connect.ics', false);
+  } catch (error) {
+    console.error('Function error:', error);
+    return errorResponse(error.message, 500);
+  }
+});
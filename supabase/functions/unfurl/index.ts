@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeUrl, unfurl, UnfurlError, type LinkPreview } from "./unfurl.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Previews are refreshed weekly; failures are retried after an hour
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 60 * 60 * 1000;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const toPreview = (row: LinkPreview): LinkPreview => ({
+  url: row.url,
+  title: row.title,
+  description: row.description,
+  image_url: row.image_url,
+  site_name: row.site_name,
+});
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let url: string;
+  try {
+    const body = await req.json();
+    url = normalizeUrl(String(body?.url ?? ''));
+  } catch (error) {
+    const status = error instanceof UnfurlError ? error.status : 400;
+    return json({ data: null, error: error instanceof Error ? error.message : 'Invalid request' }, status);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: cached, error: cacheError } = await supabase
+    .from('link_previews')
+    .select('url, title, description, image_url, site_name, status, fetched_at')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (cacheError) {
+    console.error('Cache lookup error:', cacheError);
+  }
+
+  if (cached) {
+    const age = Date.now() - new Date(cached.fetched_at).getTime();
+    if (age < (cached.status === 'ok' ? PREVIEW_TTL_MS : FAILED_TTL_MS)) {
+      return cached.status === 'ok'
+        ? json({ data: toPreview(cached), error: null })
+        : json({ data: null, error: 'No preview available' });
+    }
+  }
+
+  try {
+    const preview = await unfurl(url);
+
+    const { error } = await supabase
+      .from('link_previews')
+      .upsert({ ...preview, url, status: 'ok', fetched_at: new Date().toISOString() });
+    if (error) console.error('Cache write error:', error);
+
+    return json({ data: { ...preview, url }, error: null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Couldn\'t fetch the page';
+    console.error('Unfurl error:', url, message);
+
+    // Refused addresses aren't cached: they'll be refused again anyway
+    if (!(error instanceof UnfurlError) || error.status !== 403) {
+      const { error: writeError } = await supabase
+        .from('link_previews')
+        .upsert({
+          url,
+          title: null,
+          description: null,
+          image_url: null,
+          site_name: null,
+          status: 'failed',
+          fetched_at: new Date().toISOString(),
+        });
+      if (writeError) console.error('Cache write error:', writeError);
+    }
+
+    // A link without a preview isn't an error for the client
+    return json({ data: null, error: message });
+  }
+});
@@ -0,0 +1,117 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { isPrivateAddress, pinnedFetch, unfurl, UnfurlError, type PinnedFetcher } from "./unfurl.ts";
+
+const PAGE = `<html><head>
+<meta property="og:title" content="Stub page">
+<meta property="og:site_name" content="Stub">
+</head></html>`;
+
+// A local site that records the Host header of each request. /redirect
+// sends the client on to a private address
+const startStub = () => {
+  const hosts: string[] = [];
+  const controller = new AbortController();
+  const server = Deno.serve(
+    { hostname: '127.0.0.1', port: 0, signal: controller.signal, onListen: () => {} },
+    (req) => {
+      hosts.push(req.headers.get('host') ?? '');
+      if (new URL(req.url).pathname === '/redirect') {
+        return new Response(null, { status: 302, headers: { location: 'http://10.0.0.1/admin' } });
+      }
+      return new Response(PAGE, { headers: { 'content-type': 'text/html; charset=utf-8' } });
+    },
+  );
+
+  return {
+    port: server.addr.port,
+    hosts,
+    close: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+};
+
+// Sends requests for public addresses to the stub instead, and records every
+// address the unfurler connects to
+const fakeNetwork = (stubPort: number, publicAddress: string) => {
+  const contacted: string[] = [];
+  const fetcher: PinnedFetcher = (url, address, init) => {
+    contacted.push(address);
+    if (address !== publicAddress) throw new Error(`Connected to ${address}`);
+    const stubUrl = new URL(url);
+    stubUrl.port = String(stubPort);
+    return pinnedFetch(stubUrl, '127.0.0.1', init);
+  };
+  return { fetcher, contacted };
+};
+
+Deno.test('pinnedFetch connects to the given address and sends the original Host', async () => {
+  const stub = startStub();
+  try {
+    const response = await pinnedFetch(new URL(`http://example.test:${stub.port}/page`), '127.0.0.1', {
+      headers: { 'Accept': 'text/html' },
+      signal: new AbortController().signal,
+    });
+
+    assertEquals(response.status, 200);
+    assertEquals(await response.text(), PAGE);
+    assertEquals(stub.hosts, [`example.test:${stub.port}`]);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test('unfurl refuses a redirect to a private address', async () => {
+  const stub = startStub();
+  const fetched: string[] = [];
+  const fetcher: PinnedFetcher = (url, address, init) => {
+    fetched.push(url.toString());
+    return pinnedFetch(url, address, init);
+  };
+
+  try {
+    const error = await assertRejects(
+      () => unfurl(`http://127.0.0.1:${stub.port}/redirect`, { fetcher, allowedHosts: [`127.0.0.1:${stub.port}`] }),
+      UnfurlError,
+    );
+
+    assertEquals(error.status, 403);
+    assertEquals(fetched, [`http://127.0.0.1:${stub.port}/redirect`]);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test('unfurl connects to the checked address when the DNS answer changes', async () => {
+  const stub = startStub();
+  const publicAddress = '93.184.216.34';
+  const { fetcher, contacted } = fakeNetwork(stub.port, publicAddress);
+  // Public for the check, private for anything that looks it up again
+  const lookups: string[] = [];
+  const resolveHost = (hostname: string) => {
+    lookups.push(hostname);
+    return Promise.resolve(lookups.length === 1 ? [publicAddress] : ['127.0.0.1']);
+  };
+
+  try {
+    const preview = await unfurl('http://rebind.example/', { fetcher, resolveHost });
+
+    assertEquals(preview.title, 'Stub page');
+    assertEquals(lookups, ['rebind.example']);
+    assertEquals(contacted, [publicAddress]);
+    assertEquals(stub.hosts, [`rebind.example:${stub.port}`]);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test('isPrivateAddress sees through IPv6 forms of IPv4 addresses', () => {
+  assertEquals(isPrivateAddress('::7f00:1'), true);
+  assertEquals(isPrivateAddress('::127.0.0.1'), true);
+  assertEquals(isPrivateAddress('::ffff:10.0.0.1'), true);
+  assertEquals(isPrivateAddress('2002:7f00:1::'), true);
+  assertEquals(isPrivateAddress('2002:a9fe:a9fe::1'), true);
+  assertEquals(isPrivateAddress('2002:5db8:d822::1'), false);
+  assertEquals(isPrivateAddress('2606:4700::1111'), false);
+});
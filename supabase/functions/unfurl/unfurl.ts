@@ -0,0 +1,432 @@
+// Fetches a page and reads its Open Graph metadata. Kept apart from the
+// request handler so the fetcher and DNS lookup can be swapped out, e.g. for
+// a local stub server in tests (see unfurl.test.ts)
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export interface PinnedRequestInit {
+  headers: Record<string, string>;
+  signal: AbortSignal;
+}
+
+// Sends a GET for url to address, the IP that passed the address checks,
+// instead of resolving the hostname again
+export type PinnedFetcher = (url: URL, address: string, init: PinnedRequestInit) => Promise<Response>;
+
+export interface UnfurlOptions {
+  fetcher?: PinnedFetcher;
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  // host[:port] entries exempt from the private address check, such as a
+  // stub server on localhost. Only tests pass this; the deployed function
+  // never does
+  allowedHosts?: string[];
+  timeoutMs?: number;
+}
+
+export class UnfurlError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message);
+  }
+}
+
+const MAX_REDIRECTS = 3;
+const MAX_BYTES = 512 * 1024;
+const DEFAULT_TIMEOUT_MS = 5000;
+const USER_AGENT = 'CampusConnectBot/1.0 (+link previews)';
+
+const BLOCKED_HOSTNAMES = /^(localhost|.*\.localhost|.*\.local|.*\.internal|metadata\.google\.internal)$/i;
+
+const parseIPv4 = (address: string) => {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  return octets.every(o => o <= 255) ? octets : null;
+};
+
+const isPrivateIPv4 = ([a, b, c]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  (a === 198 && b === 51 && c === 100) ||
+  (a === 203 && b === 0 && c === 113) ||
+  a >= 224;
+
+// Expands an IPv6 address into its eight 16-bit groups
+const parseIPv6 = (address: string) => {
+  let value = address.toLowerCase();
+
+  // A trailing dotted quad (e.g. ::ffff:10.0.0.1) becomes two groups
+  const quad = value.match(/(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (quad) {
+    const octets = parseIPv4(quad[1]);
+    if (!octets) return null;
+    value = value.slice(0, -quad[1].length) +
+      ((octets[0] << 8) | octets[1]).toString(16) + ':' + ((octets[2] << 8) | octets[3]).toString(16);
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map(g => parseInt(g, 16));
+};
+
+const isPrivateIPv6 = (groups: number[]) => {
+  const [first] = groups;
+  const allZeroUntil = (n: number) => groups.slice(0, n).every(g => g === 0);
+
+  const embeddedIPv4 = (high: number, low: number) => isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+
+  // :: and ::1
+  if (allZeroUntil(7) && groups[7] <= 1) return true;
+  // IPv4-compatible (::a.b.c.d), IPv4-mapped (::ffff:a.b.c.d) and NAT64
+  // (64:ff9b::a.b.c.d) addresses end in an IPv4 address
+  if (allZeroUntil(6) || (allZeroUntil(5) && groups[5] === 0xffff) || (first === 0x64 && groups[1] === 0xff9b)) {
+    return embeddedIPv4(groups[6], groups[7]);
+  }
+  // 6to4 (2002:a.b.c.d::/48) routes to the IPv4 address in its prefix
+  if (first === 0x2002 && embeddedIPv4(groups[1], groups[2])) return true;
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && groups[1] === 0x0db8) // documentation
+  );
+};
+
+export const isPrivateAddress = (address: string) => {
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+
+  const v6 = parseIPv6(address.replace(/^\[|\]$/g, ''));
+  // Anything we can't parse is treated as unsafe
+  return v6 ? isPrivateIPv6(v6) : true;
+};
+
+const defaultResolveHost = async (hostname: string) => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+};
+
+// The cache key for a URL: http(s) only, no credentials, no fragment
+export const normalizeUrl = (raw: string) => {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new UnfurlError('Invalid URL', 400);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError('Only http and https links can be previewed', 400);
+  }
+  if (url.username || url.password) {
+    throw new UnfurlError('Links with credentials can\'t be previewed', 400);
+  }
+
+  url.hash = '';
+  return url.toString();
+};
+
+// Refuses anything that points inside our network: internal hostnames,
+// private or reserved IP literals, and names that resolve to them. Ports
+// other than the defaults are refused too. Returns the address to connect
+// to: the request must go where the check looked, or a DNS rebinding
+// attack could answer the second lookup with a private address
+const resolvePublicAddress = async (url: URL, options: UnfurlOptions) => {
+  const allowed = options.allowedHosts?.includes(url.host) ?? false;
+
+  if (!allowed && url.port && url.port !== '80' && url.port !== '443') {
+    throw new UnfurlError('This address can\'t be previewed', 403);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!allowed && BLOCKED_HOSTNAMES.test(hostname)) {
+    throw new UnfurlError('This address can\'t be previewed', 403);
+  }
+
+  const isLiteral = !!parseIPv4(hostname) || hostname.includes(':');
+  const addresses = isLiteral ? [hostname] : await (options.resolveHost ?? defaultResolveHost)(hostname);
+
+  if (addresses.length === 0) {
+    throw new UnfurlError('Couldn\'t find that site', 404);
+  }
+  if (!allowed && addresses.some(isPrivateAddress)) {
+    throw new UnfurlError('This address can\'t be previewed', 403);
+  }
+
+  return addresses[0];
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// One byte per character, so string offsets are byte offsets
+const latin1 = new TextDecoder('latin1');
+
+// Joins a chunked body; a body cut off at the size limit keeps what arrived
+const dechunk = (data: Uint8Array) => {
+  const text = latin1.decode(data);
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const lineEnd = text.indexOf('\r\n', offset);
+    if (lineEnd < 0) break;
+    const size = parseInt(text.slice(offset, lineEnd), 16);
+    if (!size) break;
+
+    const start = lineEnd + 2;
+    parts.push(data.subarray(start, Math.min(start + size, data.length)));
+    offset = start + size + 2;
+  }
+
+  return concatBytes(parts);
+};
+
+// Statuses whose responses can't have a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// The default fetcher: a minimal HTTP/1.1 GET over a connection to the
+// checked address. fetch can't be pointed at an address, and would resolve
+// the hostname itself. TLS is still verified against the hostname, and
+// bodies are read up to MAX_BYTES
+export const pinnedFetch: PinnedFetcher = async (url, address, { headers, signal }) => {
+  const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+  let conn: Deno.Conn = await Deno.connect({ hostname: address, port });
+  const close = () => {
+    try {
+      conn.close();
+    } catch {
+      // Already closed
+    }
+  };
+  signal.addEventListener('abort', close, { once: true });
+
+  try {
+    if (url.protocol === 'https:') {
+      conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: url.hostname.replace(/^\[|\]$/g, '') });
+    }
+
+    const request = [
+      `GET ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      'Accept-Encoding: identity',
+      'Connection: close',
+      '',
+      '',
+    ].join('\r\n');
+
+    const bytes = new TextEncoder().encode(request);
+    for (let written = 0; written < bytes.length;) {
+      written += await conn.write(bytes.subarray(written));
+    }
+
+    const buffer = new Uint8Array(16 * 1024);
+    const received: Uint8Array[] = [];
+    let total = 0;
+    let headerEnd = -1;
+
+    const readMore = async () => {
+      const n = await conn.read(buffer);
+      if (n === null) return false;
+      received.push(buffer.slice(0, n));
+      total += n;
+      return true;
+    };
+
+    while (headerEnd < 0) {
+      if (!await readMore()) throw new Error('Connection closed before the response headers');
+      headerEnd = latin1.decode(concatBytes(received)).indexOf('\r\n\r\n');
+      if (headerEnd < 0 && total > 64 * 1024) throw new Error('Response headers too large');
+    }
+
+    const [statusLine, ...headerLines] = latin1.decode(concatBytes(received)).slice(0, headerEnd).split('\r\n');
+    const status = Number(statusLine.split(' ')[1]);
+    const responseHeaders = new Headers();
+    for (const line of headerLines) {
+      const colon = line.indexOf(':');
+      if (colon > 0) responseHeaders.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+    }
+
+    // Redirects are followed by the caller, so their bodies aren't needed
+    if (NULL_BODY_STATUSES.includes(status) || (status >= 300 && status < 400)) {
+      return new Response(null, { status, headers: responseHeaders });
+    }
+
+    const contentLength = Number(responseHeaders.get('content-length') ?? NaN);
+    const bodyLimit = headerEnd + 4 + Math.min(Number.isNaN(contentLength) ? Infinity : contentLength, MAX_BYTES + 16 * 1024);
+    while (total < bodyLimit && await readMore()) {
+      // Read until the connection closes or the limit is reached
+    }
+
+    let body = concatBytes(received).subarray(headerEnd + 4, bodyLimit);
+    if (/chunked/i.test(responseHeaders.get('transfer-encoding') ?? '')) body = dechunk(body);
+
+    return new Response(body, { status, headers: responseHeaders });
+  } finally {
+    signal.removeEventListener('abort', close);
+    close();
+  }
+};
+
+// Reads at most MAX_BYTES so a huge page can't exhaust the function
+const readLimited = async (response: Response) => {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (total < MAX_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  await reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(Math.min(total, MAX_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+    if (offset >= bytes.length) break;
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const clean = (value: string | undefined, maxLength: number) => {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+// Pulls og:*, twitter:* and plain <meta name="description"> tags, falling
+// back to <title>
+export const parseMetadata = (html: string, pageUrl: string): LinkPreview => {
+  const meta = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const match of tag.matchAll(/([a-zA-Z:_-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? '');
+    }
+
+    const key = (attributes.get('property') || attributes.get('name'))?.toLowerCase();
+    const content = attributes.get('content');
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  let imageUrl: string | null = null;
+  const rawImage = meta.get('og:image') || meta.get('og:image:url') || meta.get('twitter:image');
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') imageUrl = resolved.toString();
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title: clean(meta.get('og:title') || meta.get('twitter:title') || titleTag, 200),
+    description: clean(meta.get('og:description') || meta.get('twitter:description') || meta.get('description'), 300),
+    image_url: imageUrl,
+    site_name: clean(meta.get('og:site_name'), 100) ?? new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+};
+
+// Fetches the page, following up to MAX_REDIRECTS redirects by hand so every
+// hop gets the same address checks
+export const unfurl = async (rawUrl: string, options: UnfurlOptions = {}): Promise<LinkPreview> => {
+  const fetcher = options.fetcher ?? pinnedFetch;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    let url = new URL(normalizeUrl(rawUrl));
+
+    for (let hop = 0; ; hop++) {
+      const address = await resolvePublicAddress(url, options);
+
+      const response = await fetcher(url, address, {
+        signal: controller.signal,
+        headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml' },
+      });
+
+      if (response.status >= 300 && response.status < 400) {
+        await response.body?.cancel();
+        const location = response.headers.get('location');
+        if (!location || hop >= MAX_REDIRECTS) throw new UnfurlError('Too many redirects');
+        url = new URL(normalizeUrl(new URL(location, url).toString()));
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new UnfurlError(`The site responded with ${response.status}`);
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+        await response.body?.cancel();
+        throw new UnfurlError('Not a web page');
+      }
+
+      return parseMetadata(await readLimited(response), url.toString());
+    }
+  } catch (error) {
+    if (error instanceof UnfurlError) throw error;
+    if (controller.signal.aborted) throw new UnfurlError('The site took too long to respond', 504);
+    throw new UnfurlError('Couldn\'t fetch the page', 502);
+  } finally {
+    clearTimeout(timeout);
+  }
+};
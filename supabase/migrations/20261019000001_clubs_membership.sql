@@ -0,0 +1,65 @@
+-- Wire up the clubs subsystem: membership visibility, leaving clubs and
+-- automatic president membership for club creators
+
+-- Helper function to avoid RLS recursion on club_members
+create or replace function public.is_club_member(cid uuid, uid uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.club_members cm
+    where cm.club_id = cid and cm.user_id = uid
+  );
+$$;
+
+-- Clubs are public, so their rosters are too (needed for member counts in discovery)
+DROP POLICY IF EXISTS "Club members are viewable by club members" ON club_members;
+CREATE POLICY "Club members are viewable by everyone"
+ON club_members FOR SELECT
+USING (true);
+
+-- Users can only join as a plain member; elevated roles are assigned by the creator trigger
+DROP POLICY IF EXISTS "Users can join clubs" ON club_members;
+CREATE POLICY "Users can join clubs"
+ON club_members FOR INSERT
+WITH CHECK (auth.uid() = user_id AND role = 'member');
+
+-- Presidents have to hand the role to another member before they can leave
+DROP POLICY IF EXISTS "Users can leave clubs" ON club_members;
+CREATE POLICY "Users can leave clubs"
+ON club_members FOR DELETE
+USING (auth.uid() = user_id AND role <> 'president');
+
+CREATE POLICY "Club creators can delete their clubs"
+ON clubs FOR DELETE
+USING (auth.uid() = created_by);
+
+-- Add the creator as president whenever a club is created
+CREATE OR REPLACE FUNCTION public.handle_new_club()
+RETURNS TRIGGER
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.club_members (club_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'president')
+    ON CONFLICT (club_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_club_created ON public.clubs;
+CREATE TRIGGER on_club_created
+  AFTER INSERT ON public.clubs
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_club();
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_club_members_club ON club_members(club_id);
+CREATE INDEX IF NOT EXISTS idx_club_members_user ON club_members(user_id);
+
+-- Enable realtime for club membership changes
+ALTER TABLE public.club_members REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.club_members;
@@ -0,0 +1,272 @@
+-- Club join policies, application forms and the club role hierarchy
+
+-- Step 1: Join policy and application form on clubs
+ALTER TABLE public.clubs
+ADD COLUMN IF NOT EXISTS join_policy VARCHAR(20) DEFAULT 'open' CHECK (join_policy IN ('open', 'application', 'invite_only')),
+ADD COLUMN IF NOT EXISTS application_questions JSONB DEFAULT '[]'::jsonb;
+
+-- Step 2: Restrict club_members.role to the hierarchy
+-- (president > officer > member > alumni)
+UPDATE public.club_members SET role = 'officer' WHERE role IN ('admin', 'moderator');
+UPDATE public.club_members SET role = 'member' WHERE role IS NULL OR role NOT IN ('president', 'officer', 'member', 'alumni');
+
+ALTER TABLE public.club_members
+ADD CONSTRAINT club_members_role_check CHECK (role IN ('president', 'officer', 'member', 'alumni'));
+
+-- Step 3: Create club_applications table
+CREATE TABLE IF NOT EXISTS public.club_applications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    club_id UUID REFERENCES clubs(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+    answers JSONB DEFAULT '[]'::jsonb,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES profiles(id),
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one pending application per user and club
+CREATE UNIQUE INDEX IF NOT EXISTS idx_club_applications_pending
+ON club_applications(club_id, user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_club_applications_club ON club_applications(club_id, status);
+
+ALTER TABLE club_applications ENABLE ROW LEVEL SECURITY;
+
+-- Helper: rank of a role in the hierarchy (higher is more senior)
+create or replace function public.club_role_rank(member_role text)
+returns integer
+language sql
+immutable
+as $$
+  select case member_role
+    when 'president' then 4
+    when 'officer' then 3
+    when 'member' then 2
+    when 'alumni' then 1
+    else 0
+  end;
+$$;
+
+-- Helper: is the user a president or officer of the club
+create or replace function public.is_club_officer(cid uuid, uid uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.club_members cm
+    where cm.club_id = cid and cm.user_id = uid
+    and cm.role in ('president', 'officer')
+  );
+$$;
+
+-- Only open clubs can be joined directly
+DROP POLICY IF EXISTS "Users can join clubs" ON club_members;
+CREATE POLICY "Users can join open clubs"
+ON club_members FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND role = 'member' AND
+  club_id IN (SELECT id FROM clubs WHERE join_policy = 'open')
+);
+
+-- Officers can update club settings alongside the creator
+DROP POLICY IF EXISTS "Club creators can update their clubs" ON clubs;
+CREATE POLICY "Club officers can update their clubs"
+ON clubs FOR UPDATE
+USING (auth.uid() = created_by OR public.is_club_officer(id, auth.uid()));
+
+-- RLS Policies for club_applications
+CREATE POLICY "Applicants and club officers can view applications"
+ON club_applications FOR SELECT
+USING (
+  user_id = auth.uid() OR
+  public.is_club_officer(club_id, auth.uid())
+);
+
+CREATE POLICY "Users can apply to application-based clubs"
+ON club_applications FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND status = 'pending' AND
+  club_id IN (SELECT id FROM clubs WHERE join_policy = 'application') AND
+  NOT public.is_club_member(club_id, auth.uid())
+);
+
+CREATE POLICY "Applicants can withdraw pending applications"
+ON club_applications FOR DELETE
+USING (auth.uid() = user_id AND status = 'pending');
+
+-- Approve or reject an application; adds the member and notifies the applicant
+CREATE OR REPLACE FUNCTION review_club_application(
+  application_id UUID,
+  decision VARCHAR
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  app RECORD;
+  club_name TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF decision NOT IN ('approved', 'rejected') THEN
+    RETURN json_build_object('success', false, 'error', 'Decision must be approved or rejected');
+  END IF;
+
+  SELECT * INTO app FROM club_applications WHERE id = application_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Application not found');
+  END IF;
+
+  IF NOT is_club_officer(app.club_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Only club officers can review applications');
+  END IF;
+
+  IF app.status <> 'pending' THEN
+    RETURN json_build_object('success', false, 'error', 'Application has already been reviewed');
+  END IF;
+
+  UPDATE club_applications
+  SET status = decision, reviewed_by = current_user_id, reviewed_at = NOW()
+  WHERE id = application_id;
+
+  IF decision = 'approved' THEN
+    INSERT INTO club_members (club_id, user_id, role)
+    VALUES (app.club_id, app.user_id, 'member')
+    ON CONFLICT (club_id, user_id) DO NOTHING;
+  END IF;
+
+  SELECT name INTO club_name FROM clubs WHERE id = app.club_id;
+
+  INSERT INTO notifications (user_id, type, content, related_id)
+  VALUES (
+    app.user_id,
+    'club_application',
+    CASE WHEN decision = 'approved'
+      THEN 'Your application to ' || club_name || ' was approved. Welcome aboard!'
+      ELSE 'Your application to ' || club_name || ' was not accepted this time.'
+    END,
+    app.club_id
+  );
+
+  RETURN json_build_object('success', true, 'status', decision);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Officers add members directly (used for invite-only clubs)
+CREATE OR REPLACE FUNCTION add_club_member(
+  target_club_id UUID,
+  target_user_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  club_name TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT is_club_officer(target_club_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Only club officers can add members');
+  END IF;
+
+  IF is_club_member(target_club_id, target_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'User is already a member of this club');
+  END IF;
+
+  INSERT INTO club_members (club_id, user_id, role)
+  VALUES (target_club_id, target_user_id, 'member');
+
+  SELECT name INTO club_name FROM clubs WHERE id = target_club_id;
+
+  INSERT INTO notifications (user_id, type, content, related_id)
+  VALUES (target_user_id, 'club_invite', 'You were added to ' || club_name, target_club_id);
+
+  RETURN json_build_object('success', true, 'message', 'Member added successfully');
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Change a member's role; actors can only manage members ranked below them
+-- and can only grant roles ranked below their own (presidents may hand over
+-- the presidency, which demotes them to officer)
+CREATE OR REPLACE FUNCTION set_club_member_role(
+  target_club_id UUID,
+  target_user_id UUID,
+  new_role VARCHAR
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  actor_role TEXT;
+  target_role TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF club_role_rank(new_role) = 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown role');
+  END IF;
+
+  SELECT role INTO actor_role FROM club_members
+  WHERE club_id = target_club_id AND user_id = current_user_id;
+
+  SELECT role INTO target_role FROM club_members
+  WHERE club_id = target_club_id AND user_id = target_user_id;
+
+  IF target_role IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User is not a member of this club');
+  END IF;
+
+  IF club_role_rank(actor_role) < 3 OR club_role_rank(actor_role) <= club_role_rank(target_role) THEN
+    RETURN json_build_object('success', false, 'error', 'Not authorized to change this member''s role');
+  END IF;
+
+  IF new_role = 'president' AND actor_role = 'president' THEN
+    UPDATE club_members SET role = 'officer'
+    WHERE club_id = target_club_id AND user_id = current_user_id;
+  ELSIF club_role_rank(new_role) >= club_role_rank(actor_role) THEN
+    RETURN json_build_object('success', false, 'error', 'Cannot grant a role equal to or above your own');
+  END IF;
+
+  UPDATE club_members SET role = new_role
+  WHERE club_id = target_club_id AND user_id = target_user_id;
+
+  RETURN json_build_object('success', true, 'role', new_role);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Enable realtime for the application queue
+ALTER TABLE public.club_applications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.club_applications;
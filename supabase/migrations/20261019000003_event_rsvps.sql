@@ -0,0 +1,218 @@
+-- Event management: organizer permissions, RSVPs, capacity and waitlist
+
+-- Step 1: Capacity and location on events (NULL capacity means unlimited)
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS location TEXT,
+ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity > 0);
+
+UPDATE public.events SET organizer_type = 'user', organizer_id = created_by
+WHERE organizer_type IS NULL OR organizer_type NOT IN ('user', 'club', 'group');
+
+ALTER TABLE public.events
+ADD CONSTRAINT events_organizer_type_check CHECK (organizer_type IN ('user', 'club', 'group'));
+
+CREATE INDEX IF NOT EXISTS idx_events_start_date ON events(start_date);
+CREATE INDEX IF NOT EXISTS idx_events_organizer ON events(organizer_type, organizer_id);
+
+-- Step 2: Create event_rsvps table
+CREATE TABLE IF NOT EXISTS public.event_rsvps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('going', 'maybe', 'not_going', 'waitlisted')),
+    responded_at TIMESTAMPTZ DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_event ON event_rsvps(event_id, status, responded_at);
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_user ON event_rsvps(user_id, status);
+
+ALTER TABLE event_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- Helper: can the user create or manage events for this organizer
+create or replace function public.can_organize_event(org_type text, org_id uuid, uid uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select case org_type
+    when 'user' then org_id = uid
+    when 'club' then public.is_club_officer(org_id, uid)
+    when 'group' then public.is_member(org_id, uid)
+    else false
+  end;
+$$;
+
+-- Only organizers may create events on behalf of a club or group
+DROP POLICY IF EXISTS "Users can create events" ON events;
+CREATE POLICY "Organizers can create events"
+ON events FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by AND
+  public.can_organize_event(organizer_type, organizer_id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Event creators can update their events" ON events;
+CREATE POLICY "Organizers can update events"
+ON events FOR UPDATE
+USING (
+  auth.uid() = created_by OR
+  public.can_organize_event(organizer_type, organizer_id, auth.uid())
+);
+
+CREATE POLICY "Organizers can delete events"
+ON events FOR DELETE
+USING (
+  auth.uid() = created_by OR
+  public.can_organize_event(organizer_type, organizer_id, auth.uid())
+);
+
+-- RSVPs are public so attendee counts work; changes go through rsvp_event()
+CREATE POLICY "Event RSVPs are viewable by everyone"
+ON event_rsvps FOR SELECT
+USING (true);
+
+-- Move waitlisted attendees into free spots, oldest first, and notify them
+CREATE OR REPLACE FUNCTION promote_event_waitlist(target_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_capacity INTEGER;
+  event_name TEXT;
+  going_count INTEGER;
+  promoted_count INTEGER := 0;
+  next_rsvp RECORD;
+BEGIN
+  SELECT capacity, name INTO event_capacity, event_name FROM events WHERE id = target_event_id;
+
+  SELECT COUNT(*) INTO going_count FROM event_rsvps
+  WHERE event_id = target_event_id AND status = 'going';
+
+  FOR next_rsvp IN
+    SELECT id, user_id FROM event_rsvps
+    WHERE event_id = target_event_id AND status = 'waitlisted'
+    ORDER BY responded_at ASC
+  LOOP
+    EXIT WHEN event_capacity IS NOT NULL AND going_count >= event_capacity;
+
+    UPDATE event_rsvps SET status = 'going', responded_at = NOW() WHERE id = next_rsvp.id;
+
+    INSERT INTO notifications (user_id, type, content, related_id)
+    VALUES (next_rsvp.user_id, 'event_waitlist_promoted', 'A spot opened up — you''re now going to ' || event_name, target_event_id);
+
+    going_count := going_count + 1;
+    promoted_count := promoted_count + 1;
+  END LOOP;
+
+  RETURN promoted_count;
+END;
+$$;
+
+-- Only reachable through rsvp_event() and the capacity trigger
+REVOKE EXECUTE ON FUNCTION promote_event_waitlist(uuid) FROM PUBLIC, anon, authenticated;
+
+-- RSVP to an event; "going" beyond capacity lands on the waitlist
+CREATE OR REPLACE FUNCTION rsvp_event(
+  target_event_id UUID,
+  new_status VARCHAR
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  target_event RECORD;
+  previous_status TEXT;
+  final_status TEXT;
+  going_count INTEGER;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF new_status NOT IN ('going', 'maybe', 'not_going') THEN
+    RETURN json_build_object('success', false, 'error', 'Status must be going, maybe or not_going');
+  END IF;
+
+  -- Lock the event row so concurrent RSVPs can't overbook it
+  SELECT * INTO target_event FROM events WHERE id = target_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Event not found');
+  END IF;
+
+  IF COALESCE(target_event.end_date, target_event.start_date) < NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'This event has already ended');
+  END IF;
+
+  SELECT status INTO previous_status FROM event_rsvps
+  WHERE event_id = target_event_id AND user_id = current_user_id;
+
+  final_status := new_status;
+
+  IF new_status = 'going' AND previous_status IS DISTINCT FROM 'going' THEN
+    SELECT COUNT(*) INTO going_count FROM event_rsvps
+    WHERE event_id = target_event_id AND status = 'going';
+
+    IF target_event.capacity IS NOT NULL AND going_count >= target_event.capacity THEN
+      final_status := 'waitlisted';
+    END IF;
+  END IF;
+
+  -- Staying on the waitlist keeps the original place in the queue
+  IF final_status = 'waitlisted' AND previous_status = 'waitlisted' THEN
+    RETURN json_build_object('success', true, 'status', final_status);
+  END IF;
+
+  INSERT INTO event_rsvps (event_id, user_id, status)
+  VALUES (target_event_id, current_user_id, final_status)
+  ON CONFLICT (event_id, user_id)
+  DO UPDATE SET status = EXCLUDED.status, responded_at = NOW();
+
+  IF previous_status = 'going' AND final_status <> 'going' THEN
+    PERFORM promote_event_waitlist(target_event_id);
+  END IF;
+
+  RETURN json_build_object('success', true, 'status', final_status);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Raising or removing the capacity lets waitlisted attendees in
+CREATE OR REPLACE FUNCTION public.handle_event_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.capacity IS NULL OR NEW.capacity > COALESCE(OLD.capacity, 0) THEN
+    PERFORM promote_event_waitlist(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_event_capacity_changed ON public.events;
+CREATE TRIGGER on_event_capacity_changed
+  AFTER UPDATE OF capacity ON public.events
+  FOR EACH ROW
+  WHEN (OLD.capacity IS DISTINCT FROM NEW.capacity)
+  EXECUTE FUNCTION public.handle_event_capacity_change();
+
+-- Enable realtime for live attendee counts
+ALTER TABLE public.events REPLICA IDENTITY FULL;
+ALTER TABLE public.event_rsvps REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.events;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_rsvps;
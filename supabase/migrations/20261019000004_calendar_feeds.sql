@@ -0,0 +1,131 @@
+-- Calendar export: revision tracking and cancellation for events,
+-- plus per-user tokens for the subscribable calendar feed
+
+-- Step 1: SEQUENCE and cancellation support on events
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS sequence INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+-- Calendar clients only apply an update when its SEQUENCE goes up, so bump it
+-- whenever something attendees see in their calendar changes
+CREATE OR REPLACE FUNCTION public.bump_event_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+  THEN
+    NEW.sequence := OLD.sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_events_sequence ON public.events;
+CREATE TRIGGER bump_events_sequence
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_event_sequence();
+
+-- Let attendees know when an event they responded to is cancelled
+CREATE OR REPLACE FUNCTION public.handle_event_cancelled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.cancelled_at IS NOT NULL AND OLD.cancelled_at IS NULL THEN
+    INSERT INTO notifications (user_id, type, content, related_id)
+    SELECT user_id, 'event_cancelled', NEW.name || ' has been cancelled', NEW.id
+    FROM event_rsvps
+    WHERE event_id = NEW.id AND status IN ('going', 'maybe', 'waitlisted');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_event_cancelled ON public.events;
+CREATE TRIGGER on_event_cancelled
+  AFTER UPDATE OF cancelled_at ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_event_cancelled();
+
+-- Cancelled events no longer accept RSVPs (declining is still allowed)
+CREATE OR REPLACE FUNCTION public.check_event_open_for_rsvp()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'not_going' AND EXISTS (
+    SELECT 1 FROM events WHERE id = NEW.event_id AND cancelled_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This event has been cancelled';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_event_rsvp_open ON public.event_rsvps;
+CREATE TRIGGER check_event_rsvp_open
+  BEFORE INSERT OR UPDATE ON public.event_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_event_open_for_rsvp();
+
+-- Step 2: Create calendar_feed_tokens table
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token"
+ON calendar_feed_tokens FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Return the user's feed token, creating it on first use; regenerating
+-- invalidates every calendar subscribed with the old URL
+CREATE OR REPLACE FUNCTION get_calendar_feed_token(regenerate BOOLEAN DEFAULT false)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  feed_token TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  SELECT token INTO feed_token FROM calendar_feed_tokens WHERE user_id = current_user_id;
+
+  IF feed_token IS NULL OR regenerate THEN
+    feed_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+    INSERT INTO calendar_feed_tokens (user_id, token)
+    VALUES (current_user_id, feed_token)
+    ON CONFLICT (user_id)
+    DO UPDATE SET token = EXCLUDED.token, created_at = NOW();
+  END IF;
+
+  RETURN json_build_object('success', true, 'token', feed_token);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_due ON tasks(assigned_to, due_date);
@@ -0,0 +1,248 @@
+-- QR-code event check-in: per-event signing secrets, signed attendee codes
+-- and attendance records
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Step 1: Signing secrets, one per event. RLS is enabled without policies so
+-- secrets are only reachable from the SECURITY DEFINER functions below
+CREATE TABLE IF NOT EXISTS public.event_checkin_secrets (
+    event_id UUID PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE event_checkin_secrets ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO event_checkin_secrets (event_id)
+SELECT id FROM events
+ON CONFLICT (event_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.handle_new_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO event_checkin_secrets (event_id) VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_event_created ON public.events;
+CREATE TRIGGER on_event_created
+  AFTER INSERT ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_event();
+
+-- Step 2: Create event_attendance table
+CREATE TABLE IF NOT EXISTS public.event_attendance (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+    checked_in_by UUID REFERENCES profiles(id),
+    method VARCHAR(10) NOT NULL CHECK (method IN ('qr', 'manual')),
+    checked_in_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(event_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_attendance_event ON event_attendance(event_id, checked_in_at);
+CREATE INDEX IF NOT EXISTS idx_event_attendance_user ON event_attendance(user_id);
+
+ALTER TABLE event_attendance ENABLE ROW LEVEL SECURITY;
+
+-- Helper: can the user run check-in for this event
+create or replace function public.can_manage_event(eid uuid, uid uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.events e
+    where e.id = eid
+    and (e.created_by = uid or public.can_organize_event(e.organizer_type, e.organizer_id, uid))
+  );
+$$;
+
+-- Attendees see their own record; organizers see the full list
+CREATE POLICY "Attendees and organizers can view attendance"
+ON event_attendance FOR SELECT
+USING (
+  user_id = auth.uid() OR
+  public.can_manage_event(event_id, auth.uid())
+);
+
+-- Signature over event and attendee, truncated to keep QR codes small
+create or replace function public.event_checkin_signature(eid uuid, uid uuid)
+returns text
+language sql
+security definer
+set search_path = public
+as $$
+  select substr(encode(extensions.hmac(eid::text || ':' || uid::text, s.secret, 'sha256'), 'hex'), 1, 32)
+  from public.event_checkin_secrets s
+  where s.event_id = eid;
+$$;
+
+-- Signatures must never be handed out directly over the API
+REVOKE EXECUTE ON FUNCTION public.event_checkin_signature(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Issue the caller's check-in code for an event they're going to.
+-- Format: ccin.<event_id>.<user_id>.<signature>
+CREATE OR REPLACE FUNCTION get_event_checkin_code(target_event_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  rsvp_status TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  SELECT status INTO rsvp_status FROM event_rsvps
+  WHERE event_id = target_event_id AND user_id = current_user_id;
+
+  IF rsvp_status IS DISTINCT FROM 'going' THEN
+    RETURN json_build_object('success', false, 'error', 'Only confirmed attendees get a check-in code');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'code', 'ccin.' || target_event_id || '.' || current_user_id || '.' || event_checkin_signature(target_event_id, current_user_id)
+  );
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Shared by QR and manual check-in; rejects duplicates
+CREATE OR REPLACE FUNCTION record_event_attendance(
+  target_event_id UUID,
+  target_user_id UUID,
+  check_in_method VARCHAR
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  existing_check_in TIMESTAMPTZ;
+  attendee_name TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT can_manage_event(target_event_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Only event organizers can check attendees in');
+  END IF;
+
+  SELECT full_name INTO attendee_name FROM profiles WHERE id = target_user_id;
+
+  IF attendee_name IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Attendee not found');
+  END IF;
+
+  SELECT checked_in_at INTO existing_check_in FROM event_attendance
+  WHERE event_id = target_event_id AND user_id = target_user_id;
+
+  IF existing_check_in IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', attendee_name || ' is already checked in',
+      'duplicate', true,
+      'user_id', target_user_id,
+      'full_name', attendee_name,
+      'checked_in_at', existing_check_in
+    );
+  END IF;
+
+  INSERT INTO event_attendance (event_id, user_id, checked_in_by, method)
+  VALUES (target_event_id, target_user_id, current_user_id, check_in_method)
+  RETURNING checked_in_at INTO existing_check_in;
+
+  RETURN json_build_object(
+    'success', true,
+    'user_id', target_user_id,
+    'full_name', attendee_name,
+    'checked_in_at', existing_check_in
+  );
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Only reachable through check_in_with_code() and manual_check_in()
+REVOKE EXECUTE ON FUNCTION record_event_attendance(uuid, uuid, varchar) FROM PUBLIC, anon, authenticated;
+
+-- Validate a scanned code for the event being checked in
+CREATE OR REPLACE FUNCTION check_in_with_code(
+  target_event_id UUID,
+  checkin_code TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parts TEXT[];
+  code_event_id UUID;
+  code_user_id UUID;
+BEGIN
+  parts := string_to_array(trim(checkin_code), '.');
+
+  IF COALESCE(array_length(parts, 1), 0) <> 4 OR parts[1] <> 'ccin' THEN
+    RETURN json_build_object('success', false, 'error', 'Not a valid check-in code');
+  END IF;
+
+  BEGIN
+    code_event_id := parts[2]::uuid;
+    code_user_id := parts[3]::uuid;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN json_build_object('success', false, 'error', 'Not a valid check-in code');
+  END;
+
+  IF code_event_id <> target_event_id THEN
+    RETURN json_build_object('success', false, 'error', 'This code is for a different event');
+  END IF;
+
+  IF event_checkin_signature(code_event_id, code_user_id) IS DISTINCT FROM parts[4] THEN
+    RETURN json_build_object('success', false, 'error', 'Check-in code signature is invalid');
+  END IF;
+
+  RETURN record_event_attendance(code_event_id, code_user_id, 'qr');
+END;
+$$;
+
+-- Organizers check someone in by hand (forgotten phone, walk-ins)
+CREATE OR REPLACE FUNCTION manual_check_in(
+  target_event_id UUID,
+  target_user_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN record_event_attendance(target_event_id, target_user_id, 'manual');
+END;
+$$;
+
+-- Enable realtime so every scanner sees check-ins as they happen
+ALTER TABLE public.event_attendance REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_attendance;
@@ -0,0 +1,203 @@
+-- Recurring events: a series stores the recurrence rule and every occurrence
+-- is its own events row, so RSVPs, capacity, check-in and cancellation all
+-- work per occurrence
+
+-- Step 1: Create event_series table
+CREATE TABLE IF NOT EXISTS public.event_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organizer_type VARCHAR(20) NOT NULL CHECK (organizer_type IN ('user', 'club', 'group')),
+    organizer_id UUID NOT NULL,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+    repeat_interval INTEGER NOT NULL DEFAULT 1 CHECK (repeat_interval BETWEEN 1 AND 12),
+    weekdays SMALLINT[] NOT NULL DEFAULT '{}' CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+    until_date DATE,
+    occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count BETWEEN 1 AND 100),
+    time_zone TEXT NOT NULL DEFAULT 'UTC',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+
+-- Series are created through create_recurring_event()
+CREATE POLICY "Event series are viewable by everyone"
+ON event_series FOR SELECT
+USING (true);
+
+-- Step 2: Link occurrences to their series. original_start_date is the slot
+-- the rule generated, so a moved occurrence still knows where it came from
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES event_series(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS original_start_date TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_series_occurrence ON events(series_id, original_start_date);
+
+-- Expand a recurrence rule into occurrence start times. The rule is evaluated
+-- in the organizer's time zone so a 6pm meeting stays at 6pm across DST
+-- changes. Weekdays use 0 = Sunday, matching JavaScript's getDay(). A rule
+-- without a start or time zone has no occurrences
+CREATE OR REPLACE FUNCTION public.expand_event_recurrence(
+  first_start TIMESTAMPTZ,
+  repeat_frequency VARCHAR,
+  repeat_interval INTEGER,
+  repeat_weekdays SMALLINT[],
+  repeat_until DATE,
+  repeat_count INTEGER,
+  time_zone TEXT
+)
+RETURNS SETOF TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  local_start TIMESTAMP := first_start AT TIME ZONE time_zone;
+  week_start TIMESTAMP := date_trunc('day', local_start) - extract(dow FROM local_start)::INTEGER * INTERVAL '1 day';
+  start_time INTERVAL := local_start - date_trunc('day', local_start);
+  max_count INTEGER := LEAST(COALESCE(repeat_count, 100), 100);
+  days SMALLINT[];
+  candidates TIMESTAMP[];
+  candidate TIMESTAMP;
+  emitted INTEGER := 0;
+  step INTEGER := 0;
+BEGIN
+  IF first_start IS NULL OR time_zone IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT array_agg(DISTINCT d ORDER BY d) INTO days FROM unnest(repeat_weekdays) d;
+  days := COALESCE(days, ARRAY[extract(dow FROM local_start)::SMALLINT]);
+
+  <<expand>>
+  LOOP
+    candidates := CASE repeat_frequency
+      WHEN 'daily' THEN ARRAY[local_start + step * repeat_interval * INTERVAL '1 day']
+      WHEN 'monthly' THEN ARRAY[local_start + step * repeat_interval * INTERVAL '1 month']
+      ELSE ARRAY(
+        SELECT week_start + (step * repeat_interval * 7 + d) * INTERVAL '1 day' + start_time
+        FROM unnest(days) d
+        ORDER BY d
+      )
+    END;
+
+    FOREACH candidate IN ARRAY candidates LOOP
+      CONTINUE WHEN candidate < local_start;
+      EXIT expand WHEN emitted >= max_count OR candidate::DATE > repeat_until;
+
+      RETURN NEXT candidate AT TIME ZONE time_zone;
+      emitted := emitted + 1;
+    END LOOP;
+
+    step := step + 1;
+  END LOOP;
+END;
+$$;
+
+-- Create a series and all of its occurrences in one go
+CREATE OR REPLACE FUNCTION create_recurring_event(
+  event_name TEXT,
+  org_type VARCHAR,
+  org_id UUID,
+  first_start TIMESTAMPTZ,
+  repeat_frequency VARCHAR,
+  time_zone TEXT,
+  repeat_interval INTEGER DEFAULT 1,
+  repeat_weekdays SMALLINT[] DEFAULT '{}',
+  repeat_until DATE DEFAULT NULL,
+  repeat_count INTEGER DEFAULT NULL,
+  first_end TIMESTAMPTZ DEFAULT NULL,
+  event_description TEXT DEFAULT NULL,
+  event_location TEXT DEFAULT NULL,
+  event_capacity INTEGER DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  new_series_id UUID;
+  created_count INTEGER;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT can_organize_event(org_type, org_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'You can''t create events for this organizer');
+  END IF;
+
+  IF trim(COALESCE(event_name, '')) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Event name is required');
+  END IF;
+
+  IF first_end IS NOT NULL AND first_end <= first_start THEN
+    RETURN json_build_object('success', false, 'error', 'The event must end after it starts');
+  END IF;
+
+  IF repeat_until IS NULL AND repeat_count IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Choose an end date or a number of occurrences');
+  END IF;
+
+  INSERT INTO event_series (
+    organizer_type, organizer_id, created_by, frequency, repeat_interval,
+    weekdays, until_date, occurrence_count, time_zone
+  )
+  VALUES (
+    org_type, org_id, current_user_id, repeat_frequency, COALESCE(repeat_interval, 1),
+    COALESCE(repeat_weekdays, '{}'), repeat_until, repeat_count, time_zone
+  )
+  RETURNING id INTO new_series_id;
+
+  INSERT INTO events (
+    name, description, location, capacity, organizer_type, organizer_id, created_by,
+    start_date, end_date, series_id, original_start_date
+  )
+  SELECT
+    trim(event_name), event_description, event_location, event_capacity, org_type, org_id, current_user_id,
+    occurrence, occurrence + (first_end - first_start), new_series_id, occurrence
+  FROM expand_event_recurrence(
+    first_start, repeat_frequency, COALESCE(repeat_interval, 1), repeat_weekdays,
+    repeat_until, repeat_count, time_zone
+  ) AS occurrence;
+
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+
+  IF created_count = 0 THEN
+    RAISE EXCEPTION 'The recurrence rule doesn''t produce any dates';
+  END IF;
+
+  RETURN json_build_object('success', true, 'series_id', new_series_id, 'occurrences', created_count);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Let attendees know when an event (or one occurrence of a series) moves
+CREATE OR REPLACE FUNCTION public.handle_event_rescheduled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.cancelled_at IS NULL AND NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+    INSERT INTO notifications (user_id, type, content, related_id)
+    SELECT user_id, 'event_rescheduled', NEW.name || ' has moved to a new time', NEW.id
+    FROM event_rsvps
+    WHERE event_id = NEW.id AND status IN ('going', 'maybe', 'waitlisted');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_event_rescheduled ON public.events;
+CREATE TRIGGER on_event_rescheduled
+  AFTER UPDATE OF start_date ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_event_rescheduled();
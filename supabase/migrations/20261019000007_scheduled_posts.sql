@@ -0,0 +1,69 @@
+-- Scheduled posts: unpublished posts with a scheduled_time stay private to
+-- their author until publish_scheduled_posts() flips them to published
+
+-- Step 1: Drafts are only visible to their author
+DROP POLICY IF EXISTS "Posts are viewable by everyone for public posts" ON posts;
+CREATE POLICY "Published posts are viewable by their audience"
+ON posts FOR SELECT
+USING (
+  author_id = auth.uid() OR (
+    is_published = true AND (
+      visibility = 'everyone' OR
+      (visibility = 'friends' AND author_id IN (
+        SELECT CASE
+          WHEN c.requester_id = auth.uid() THEN c.receiver_id
+          ELSE c.requester_id
+        END
+        FROM connections c
+        WHERE c.status = 'accepted'
+        AND (c.requester_id = auth.uid() OR c.receiver_id = auth.uid())
+      ))
+    )
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled ON posts(scheduled_time) WHERE is_published = false;
+
+-- Step 2: Publish every post whose time has come. Posts enter the feed at
+-- their publish time rather than when they were drafted
+CREATE OR REPLACE FUNCTION public.publish_scheduled_posts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  published_count INTEGER;
+BEGIN
+  UPDATE posts
+  SET is_published = true, created_at = NOW(), updated_at = NOW()
+  WHERE is_published = false
+  AND scheduled_time IS NOT NULL
+  AND scheduled_time <= NOW();
+
+  GET DIAGNOSTICS published_count = ROW_COUNT;
+  RETURN published_count;
+END;
+$$;
+
+-- Only the scheduler runs this
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
+
+-- Step 3: Run the publisher every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('publish-scheduled-posts', '* * * * *', 'SELECT public.publish_scheduled_posts()');
+
+-- Enable realtime so published posts reach open feeds and authors' scheduled
+-- lists stay in sync
+ALTER TABLE public.posts REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'posts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.posts;
+  END IF;
+END $$;
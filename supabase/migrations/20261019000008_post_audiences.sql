@@ -0,0 +1,209 @@
+-- Post audiences: "friends" and "specific" (Only For a person, group or club)
+-- visibility, enforced by a single helper shared by RLS and get_user_feed
+
+-- Step 1: Constrain audiences. "specific" posts list their targets in
+-- post_visibility, one target per row
+UPDATE public.posts SET visibility = 'everyone'
+WHERE visibility IS NULL OR visibility NOT IN ('everyone', 'friends', 'specific');
+
+ALTER TABLE public.posts
+ALTER COLUMN visibility SET NOT NULL,
+ADD CONSTRAINT posts_visibility_check CHECK (visibility IN ('everyone', 'friends', 'specific'));
+
+DELETE FROM public.post_visibility
+WHERE num_nonnulls(visible_to_user, visible_to_group, visible_to_club) <> 1;
+
+ALTER TABLE public.post_visibility
+ADD CONSTRAINT post_visibility_single_target CHECK (num_nonnulls(visible_to_user, visible_to_group, visible_to_club) = 1);
+
+CREATE INDEX IF NOT EXISTS idx_post_visibility_post ON post_visibility(post_id);
+
+-- Helper: are two users connected
+create or replace function public.are_friends(a uuid, b uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.connections c
+    where c.status = 'accepted'
+    and ((c.requester_id = a and c.receiver_id = b) or (c.requester_id = b and c.receiver_id = a))
+  );
+$$;
+
+-- Helper: can the user see this post. Authors always see their own posts,
+-- including unpublished ones; everyone else needs a published post aimed at them
+create or replace function public.can_view_post(pid uuid, uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.posts p
+    where p.id = pid
+    and (
+      p.author_id = uid
+      or (p.is_published and (
+        p.visibility = 'everyone'
+        or (p.visibility = 'friends' and public.are_friends(p.author_id, uid))
+        or (p.visibility = 'specific' and exists(
+          select 1 from public.post_visibility pv
+          where pv.post_id = p.id
+          and (
+            pv.visible_to_user = uid
+            or public.is_member(pv.visible_to_group, uid)
+            or public.is_club_member(pv.visible_to_club, uid)
+          )
+        ))
+      ))
+    )
+  );
+$$;
+
+-- Step 2: Enforce audiences on posts and everything hanging off them
+DROP POLICY IF EXISTS "Published posts are viewable by their audience" ON posts;
+CREATE POLICY "Posts are viewable by their audience"
+ON posts FOR SELECT
+USING (public.can_view_post(id, auth.uid()));
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON comments;
+DROP POLICY IF EXISTS "Comments are viewable if post is viewable" ON comments;
+CREATE POLICY "Comments are viewable if post is viewable"
+ON comments FOR SELECT
+USING (public.can_view_post(post_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Authenticated users can create comments" ON comments;
+DROP POLICY IF EXISTS "Users can create comments on viewable posts" ON comments;
+CREATE POLICY "Users can create comments on viewable posts"
+ON comments FOR INSERT
+WITH CHECK (
+  auth.uid() = author_id AND
+  public.can_view_post(post_id, auth.uid())
+);
+
+-- Authors can only aim posts at groups and clubs they belong to
+DROP POLICY IF EXISTS "Users can set visibility for their posts" ON post_visibility;
+CREATE POLICY "Users can set visibility for their posts"
+ON post_visibility FOR INSERT
+WITH CHECK (
+  post_id IN (
+    SELECT id FROM posts WHERE author_id = auth.uid()
+  ) AND
+  (visible_to_group IS NULL OR public.is_member(visible_to_group, auth.uid())) AND
+  (visible_to_club IS NULL OR public.is_club_member(visible_to_club, auth.uid()))
+);
+
+CREATE POLICY "Users can remove visibility from their posts"
+ON post_visibility FOR DELETE
+USING (
+  post_id IN (
+    SELECT id FROM posts WHERE author_id = auth.uid()
+  )
+);
+
+-- Step 3: Create a post and its audience in one transaction, so realtime
+-- subscribers never see a "specific" post before its targets exist
+CREATE OR REPLACE FUNCTION create_post(
+  post_content TEXT,
+  audience VARCHAR DEFAULT 'everyone',
+  media TEXT[] DEFAULT NULL,
+  publish_at TIMESTAMPTZ DEFAULT NULL,
+  audience_user_ids UUID[] DEFAULT '{}',
+  audience_group_ids UUID[] DEFAULT '{}',
+  audience_club_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  new_post_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF trim(COALESCE(post_content, '')) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Post content is required');
+  END IF;
+
+  IF audience = 'specific' AND COALESCE(array_length(audience_user_ids, 1), 0)
+    + COALESCE(array_length(audience_group_ids, 1), 0)
+    + COALESCE(array_length(audience_club_ids, 1), 0) = 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Choose who this post is for');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(audience_group_ids) gid WHERE NOT is_member(gid, current_user_id)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'You can only post to groups you belong to');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(audience_club_ids) cid WHERE NOT is_club_member(cid, current_user_id)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'You can only post to clubs you belong to');
+  END IF;
+
+  INSERT INTO posts (content, author_id, visibility, media_urls, scheduled_time, is_published)
+  VALUES (trim(post_content), current_user_id, audience, media, publish_at, publish_at IS NULL)
+  RETURNING id INTO new_post_id;
+
+  IF audience = 'specific' THEN
+    INSERT INTO post_visibility (post_id, visible_to_user)
+    SELECT new_post_id, uid FROM unnest(audience_user_ids) uid;
+
+    INSERT INTO post_visibility (post_id, visible_to_group)
+    SELECT new_post_id, gid FROM unnest(audience_group_ids) gid;
+
+    INSERT INTO post_visibility (post_id, visible_to_club)
+    SELECT new_post_id, cid FROM unnest(audience_club_ids) cid;
+  END IF;
+
+  RETURN json_build_object('success', true, 'post_id', new_post_id);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 4: The feed function runs as definer, so it has to apply the same
+-- audience rules itself. It is always built for the caller; the argument is
+-- kept so existing callers don't break
+CREATE OR REPLACE FUNCTION get_user_feed(user_id UUID DEFAULT auth.uid())
+RETURNS TABLE (
+  post_id UUID,
+  content TEXT,
+  author_name VARCHAR,
+  author_pic TEXT,
+  author_id UUID,
+  created_at TIMESTAMPTZ,
+  media_urls TEXT[]
+)
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.content,
+    pr.full_name,
+    pr.profile_pic_url,
+    p.author_id,
+    p.created_at,
+    p.media_urls
+  FROM posts p
+  JOIN profiles pr ON p.author_id = pr.id
+  WHERE p.is_published = true
+  AND public.can_view_post(p.id, auth.uid())
+  ORDER BY p.created_at DESC
+  LIMIT 50;
+END;
+$$ LANGUAGE plpgsql;
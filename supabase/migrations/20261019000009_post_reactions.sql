@@ -0,0 +1,80 @@
+-- Post reactions: like, celebrate, insightful and funny, stored in
+-- post_interactions with at most one active reaction per user and post
+
+-- Step 1: One reaction per user and post. Other interaction types (shares)
+-- are unaffected
+DELETE FROM public.post_interactions a
+USING public.post_interactions b
+WHERE a.post_id = b.post_id
+AND a.user_id = b.user_id
+AND a.interaction_type IN ('like', 'celebrate', 'insightful', 'funny')
+AND b.interaction_type IN ('like', 'celebrate', 'insightful', 'funny')
+AND (a.created_at, a.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_post_interactions_one_reaction
+ON post_interactions(post_id, user_id)
+WHERE interaction_type IN ('like', 'celebrate', 'insightful', 'funny');
+
+-- Step 2: Reactions follow the post's audience
+DROP POLICY IF EXISTS "Users can view post interactions" ON post_interactions;
+CREATE POLICY "Interactions are viewable if post is viewable"
+ON post_interactions FOR SELECT
+USING (public.can_view_post(post_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create interactions" ON post_interactions;
+CREATE POLICY "Users can create interactions on viewable posts"
+ON post_interactions FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  public.can_view_post(post_id, auth.uid())
+);
+
+-- Set, change or clear (NULL) the caller's reaction to a post
+CREATE OR REPLACE FUNCTION set_post_reaction(
+  target_post_id UUID,
+  reaction VARCHAR DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF reaction IS NOT NULL AND reaction NOT IN ('like', 'celebrate', 'insightful', 'funny') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown reaction');
+  END IF;
+
+  IF NOT can_view_post(target_post_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Post not found');
+  END IF;
+
+  IF reaction IS NULL THEN
+    DELETE FROM post_interactions
+    WHERE post_id = target_post_id
+    AND user_id = current_user_id
+    AND interaction_type IN ('like', 'celebrate', 'insightful', 'funny');
+  ELSE
+    INSERT INTO post_interactions (post_id, user_id, interaction_type)
+    VALUES (target_post_id, current_user_id, reaction)
+    ON CONFLICT (post_id, user_id) WHERE interaction_type IN ('like', 'celebrate', 'insightful', 'funny')
+    DO UPDATE SET interaction_type = EXCLUDED.interaction_type, created_at = NOW();
+  END IF;
+
+  RETURN json_build_object('success', true, 'reaction', reaction);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Enable realtime for live reaction counts
+ALTER TABLE public.post_interactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.post_interactions;
@@ -0,0 +1,53 @@
+-- Threaded comment replies and comment editing. Replies use the existing
+-- parent_comment_id column; edits are detected from updated_at
+
+-- Step 1: Keep threads consistent. A reply must belong to the same post as
+-- its parent, and editing a comment can only change its content
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_comment_id);
+
+CREATE OR REPLACE FUNCTION validate_comment_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF trim(COALESCE(NEW.content, '')) = '' THEN
+    RAISE EXCEPTION 'Comment cannot be empty';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.post_id IS DISTINCT FROM OLD.post_id OR
+    NEW.author_id IS DISTINCT FROM OLD.author_id OR
+    NEW.parent_comment_id IS DISTINCT FROM OLD.parent_comment_id
+  ) THEN
+    RAISE EXCEPTION 'Only the content of a comment can be edited';
+  END IF;
+
+  IF NEW.parent_comment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = NEW.parent_comment_id
+    AND post_id = NEW.post_id
+  ) THEN
+    RAISE EXCEPTION 'Reply must belong to the same post as its parent';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_comment_thread ON public.comments;
+CREATE TRIGGER validate_comment_thread
+  BEFORE INSERT OR UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_comment_thread();
+
+-- Step 2: Edits are limited to comments the author can still see
+DROP POLICY IF EXISTS "Users can update their own comments" ON comments;
+CREATE POLICY "Users can update their own comments"
+ON comments FOR UPDATE
+USING (auth.uid() = author_id AND public.can_view_post(post_id, auth.uid()))
+WITH CHECK (auth.uid() = author_id);
+
+-- Step 3: Enable realtime so threads update without reopening them
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
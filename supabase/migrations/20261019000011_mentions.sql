@@ -0,0 +1,168 @@
+-- @mentions in posts, comments and chats. Mentions are parsed from the stored
+-- content, so every client gets the same notifications and nobody can be
+-- notified about something they can't open
+
+-- Step 1: Notifications can deep-link to the exact item they are about
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS link TEXT;
+
+-- Helper: users mentioned as @username in body. Mentions already present in
+-- previous_body are skipped, so editing a message only notifies new mentions
+create or replace function public.mentioned_user_ids(body text, previous_body text default null)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id from public.profiles p
+  where lower(p.username) in (
+    select lower(rtrim(m[2], '.-'))
+    from regexp_matches(coalesce(body, ''), '(^|[^A-Za-z0-9_])@([A-Za-z0-9_.-]+)', 'g') m
+  )
+  and lower(p.username) not in (
+    select lower(rtrim(m[2], '.-'))
+    from regexp_matches(coalesce(previous_body, ''), '(^|[^A-Za-z0-9_])@([A-Za-z0-9_.-]+)', 'g') m
+  );
+$$;
+
+-- Step 2: Posts notify once they are published, including scheduled posts
+-- going out later. The trigger is deferred to the end of the transaction:
+-- create_post adds a 'specific' post's audience after inserting the post,
+-- and can_view_post needs those rows
+CREATE OR REPLACE FUNCTION public.handle_post_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_content TEXT;
+BEGIN
+  IF NOT NEW.is_published THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.is_published THEN
+    previous_content := OLD.content;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, content, related_id, link)
+  SELECT uid, 'mention', pr.full_name || ' mentioned you in a post', NEW.id, '/?post=' || NEW.id
+  FROM mentioned_user_ids(NEW.content, previous_content) uid
+  JOIN profiles pr ON pr.id = NEW.author_id
+  WHERE uid <> NEW.author_id
+  AND can_view_post(NEW.id, uid);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_post_mentions ON public.posts;
+CREATE CONSTRAINT TRIGGER on_post_mentions
+  AFTER INSERT OR UPDATE OF content, is_published ON public.posts
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_post_mentions();
+
+CREATE OR REPLACE FUNCTION public.handle_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, content, related_id, link)
+  SELECT uid, 'mention', pr.full_name || ' mentioned you in a comment', NEW.id,
+    '/?post=' || NEW.post_id || '&comment=' || NEW.id
+  FROM mentioned_user_ids(NEW.content, CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END) uid
+  JOIN profiles pr ON pr.id = NEW.author_id
+  WHERE uid <> NEW.author_id
+  AND can_view_post(NEW.post_id, uid);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_mentions ON public.comments;
+CREATE TRIGGER on_comment_mentions
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_comment_mentions();
+
+-- Step 3: Chats only notify people who are part of the conversation
+CREATE OR REPLACE FUNCTION public.handle_direct_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, content, related_id, link)
+  SELECT uid, 'mention', pr.full_name || ' mentioned you in a message', NEW.id,
+    '/friends?chat=' || NEW.sender_id || '&message=' || NEW.id
+  FROM mentioned_user_ids(NEW.content, CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END) uid
+  JOIN profiles pr ON pr.id = NEW.sender_id
+  WHERE uid = NEW.receiver_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_direct_message_mentions ON public.direct_messages;
+CREATE TRIGGER on_direct_message_mentions
+  AFTER INSERT OR UPDATE OF content ON public.direct_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_direct_message_mentions();
+
+CREATE OR REPLACE FUNCTION public.handle_group_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, content, related_id, link)
+  SELECT uid, 'mention', pr.full_name || ' mentioned you in ' || g.name, NEW.id,
+    '/groups?group=' || NEW.group_id || '&message=' || NEW.id
+  FROM mentioned_user_ids(NEW.content, CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END) uid
+  JOIN profiles pr ON pr.id = NEW.sender_id
+  JOIN groups g ON g.id = NEW.group_id
+  WHERE uid <> NEW.sender_id
+  AND is_member(NEW.group_id, uid);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_group_message_mentions ON public.group_messages;
+CREATE TRIGGER on_group_message_mentions
+  AFTER INSERT OR UPDATE OF content ON public.group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_group_message_mentions();
+
+CREATE OR REPLACE FUNCTION public.handle_workspace_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, content, related_id, link)
+  SELECT uid, 'mention', pr.full_name || ' mentioned you in ' || w.name, NEW.id,
+    '/groups?workspace=' || NEW.workspace_id || '&message=' || NEW.id
+  FROM mentioned_user_ids(NEW.content, CASE WHEN TG_OP = 'UPDATE' THEN OLD.content END) uid
+  JOIN profiles pr ON pr.id = NEW.sender_id
+  JOIN workspaces w ON w.id = NEW.workspace_id
+  WHERE uid <> NEW.sender_id
+  AND is_member(w.group_id, uid);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_workspace_message_mentions ON public.workspace_messages;
+CREATE TRIGGER on_workspace_message_mentions
+  AFTER INSERT OR UPDATE OF content ON public.workspace_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_workspace_message_mentions();
@@ -0,0 +1,86 @@
+-- Hashtags: #tags are parsed out of post content into post_tags, lowercased,
+-- so topic pages and trending counts don't depend on how a tag was typed
+
+-- Step 1: Create post_tags table
+CREATE TABLE IF NOT EXISTS public.post_tags (
+  post_id UUID REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  tag VARCHAR(50) NOT NULL CHECK (tag ~ '^[a-z0-9_]+$'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (post_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_tags_tag ON post_tags(tag);
+
+ALTER TABLE post_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tags are only written by the trigger below, and follow the post's audience
+CREATE POLICY "Tags are viewable if post is viewable"
+ON post_tags FOR SELECT
+USING (public.can_view_post(post_id, auth.uid()));
+
+-- Helper: normalized #tags in body. An # that follows a word character (or
+-- an HTML entity) isn't a tag, and tags need at least one letter
+create or replace function public.extract_hashtags(body text)
+returns setof text
+language sql
+immutable
+set search_path = public
+as $$
+  select distinct lower(m[2])
+  from regexp_matches(coalesce(body, ''), '(^|[^A-Za-z0-9_&])#([A-Za-z0-9_]+)', 'g') m
+  where m[2] ~ '[A-Za-z]'
+  and length(m[2]) <= 50;
+$$;
+
+-- Step 2: Keep tags in sync with post content
+CREATE OR REPLACE FUNCTION public.sync_post_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM post_tags
+  WHERE post_id = NEW.id
+  AND tag NOT IN (SELECT extract_hashtags(NEW.content));
+
+  INSERT INTO post_tags (post_id, tag)
+  SELECT NEW.id, t FROM extract_hashtags(NEW.content) t
+  ON CONFLICT (post_id, tag) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_post_tags ON public.posts;
+CREATE TRIGGER on_post_tags
+  AFTER INSERT OR UPDATE OF content ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_tags();
+
+-- Backfill existing posts
+INSERT INTO post_tags (post_id, tag, created_at)
+SELECT p.id, t, p.created_at
+FROM posts p, extract_hashtags(p.content) t
+ON CONFLICT (post_id, tag) DO NOTHING;
+
+-- Step 3: Most used tags across recently published posts the caller can see.
+-- Runs as the caller so RLS applies
+CREATE OR REPLACE FUNCTION get_trending_tags(since_days INTEGER DEFAULT 3, tag_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  tag VARCHAR,
+  post_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT pt.tag, COUNT(*) AS post_count
+  FROM post_tags pt
+  JOIN posts p ON p.id = pt.post_id
+  WHERE p.is_published = true
+  AND p.created_at >= NOW() - make_interval(days => since_days)
+  GROUP BY pt.tag
+  ORDER BY post_count DESC, MAX(p.created_at) DESC
+  LIMIT tag_limit;
+$$;
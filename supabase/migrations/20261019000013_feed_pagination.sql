@@ -0,0 +1,52 @@
+-- Keyset pagination for the home feed. Pages are ordered by (created_at, id)
+-- and continue strictly after the last post of the previous page, so posts
+-- arriving in the meantime don't shift or repeat later pages
+
+-- Step 1: Index matching the feed order
+CREATE INDEX IF NOT EXISTS idx_posts_feed
+ON posts(created_at DESC, id DESC)
+WHERE is_published = true;
+
+-- Step 2: get_user_feed pages with a cursor instead of a fixed LIMIT 50.
+-- Its arguments change, so the old signature is dropped first
+DROP FUNCTION IF EXISTS get_user_feed(UUID);
+
+CREATE OR REPLACE FUNCTION get_user_feed(
+  user_id UUID DEFAULT auth.uid(),
+  before_created_at TIMESTAMPTZ DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  post_id UUID,
+  content TEXT,
+  author_name VARCHAR,
+  author_pic TEXT,
+  author_id UUID,
+  created_at TIMESTAMPTZ,
+  media_urls TEXT[]
+)
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.content,
+    pr.full_name,
+    pr.profile_pic_url,
+    p.author_id,
+    p.created_at,
+    p.media_urls
+  FROM posts p
+  JOIN profiles pr ON p.author_id = pr.id
+  WHERE p.is_published = true
+  AND public.can_view_post(p.id, auth.uid())
+  AND (
+    before_created_at IS NULL OR
+    (p.created_at, p.id) < (before_created_at, COALESCE(before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::UUID))
+  )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,88 @@
+-- "For you" feed: published posts scored for the caller by author affinity,
+-- topic overlap and engagement, decayed by age. The chronological feed
+-- (get_user_feed) is unchanged
+
+-- Helper: a skill, branch or tag reduced to the form tags are stored in
+-- ("Machine Learning" -> machinelearning) so they can be compared
+create or replace function public.normalize_tag(value text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select nullif(lower(regexp_replace(coalesce(value, ''), '[^A-Za-z0-9_]', '', 'g')), '');
+$$;
+
+-- Step 1: Ranked page of post ids. Scores are computed as of as_of, which the
+-- client fixes when the first page loads, so later pages are taken from the
+-- same ordering even as posts age. Only the last 14 days are candidates
+CREATE OR REPLACE FUNCTION get_ranked_feed(
+  as_of TIMESTAMPTZ DEFAULT NOW(),
+  page_offset INTEGER DEFAULT 0,
+  page_size INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  post_id UUID,
+  score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH viewer AS (
+    SELECT id, normalize_tag(branch) AS branch, skills
+    FROM profiles
+    WHERE id = auth.uid()
+  ),
+  interests AS (
+    SELECT normalize_tag(s) AS tag FROM viewer, unnest(viewer.skills) s
+    UNION
+    SELECT branch FROM viewer
+  ),
+  candidates AS (
+    SELECT p.id, p.author_id, p.created_at
+    FROM posts p
+    WHERE p.is_published = true
+    AND p.created_at <= as_of
+    AND p.created_at > as_of - INTERVAL '14 days'
+    AND public.can_view_post(p.id, auth.uid())
+  ),
+  scored AS (
+    SELECT
+      c.id,
+      c.created_at,
+      -- Author affinity: friends, then shared groups and clubs (capped)
+      (CASE WHEN c.author_id <> auth.uid() AND public.are_friends(c.author_id, auth.uid()) THEN 3 ELSE 0 END)
+      + LEAST((
+          SELECT COUNT(*) FROM group_members a
+          JOIN group_members b ON b.group_id = a.group_id
+          WHERE a.user_id = c.author_id AND b.user_id = auth.uid() AND c.author_id <> auth.uid()
+        ), 2)
+      + LEAST((
+          SELECT COUNT(*) FROM club_members a
+          JOIN club_members b ON b.club_id = a.club_id
+          WHERE a.user_id = c.author_id AND b.user_id = auth.uid() AND c.author_id <> auth.uid()
+        ), 2)
+      -- Topics: the post's tags that match the viewer's skills or branch
+      + 1.5 * (
+          SELECT COUNT(*) FROM post_tags pt
+          WHERE pt.post_id = c.id
+          AND pt.tag IN (SELECT tag FROM interests WHERE tag IS NOT NULL)
+        )
+      -- Engagement: reactions, with comments weighted double
+      + ln(1
+          + (SELECT COUNT(*) FROM post_interactions pi WHERE pi.post_id = c.id AND pi.created_at <= as_of)
+          + 2 * (SELECT COUNT(*) FROM comments cm WHERE cm.post_id = c.id AND cm.created_at <= as_of)
+        ) AS relevance
+    FROM candidates c
+  )
+  SELECT
+    s.id,
+    -- Time decay: a post's score halves roughly every day
+    ((1 + s.relevance) * power(0.5, EXTRACT(EPOCH FROM (as_of - s.created_at)) / 86400.0))::DOUBLE PRECISION AS score
+  FROM scored s
+  ORDER BY score DESC, s.created_at DESC, s.id DESC
+  OFFSET GREATEST(page_offset, 0)
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
@@ -0,0 +1,355 @@
+-- Polls: a post or group chat message can carry a poll with 2-10 options,
+-- single or multiple choice, an optional deadline and anonymous voting. The
+-- question is the post or message text. Votes are only written through
+-- cast_poll_vote, which enforces one ballot per user
+
+-- Step 1: Mark posts and group messages that carry a poll
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS post_type VARCHAR(20) NOT NULL DEFAULT 'text'
+CHECK (post_type IN ('text', 'poll'));
+
+ALTER TABLE public.group_messages
+ADD COLUMN IF NOT EXISTS message_type VARCHAR(20) NOT NULL DEFAULT 'text'
+CHECK (message_type IN ('text', 'poll'));
+
+-- Step 2: Create poll tables
+CREATE TABLE IF NOT EXISTS public.polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID UNIQUE REFERENCES posts(id) ON DELETE CASCADE,
+  group_message_id UUID UNIQUE REFERENCES group_messages(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  allows_multiple BOOLEAN NOT NULL DEFAULT FALSE,
+  is_anonymous BOOLEAN NOT NULL DEFAULT FALSE,
+  closes_at TIMESTAMPTZ,
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT polls_single_parent CHECK (num_nonnulls(post_id, group_message_id) = 1)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE NOT NULL,
+  label VARCHAR(100) NOT NULL CHECK (trim(label) <> ''),
+  position SMALLINT NOT NULL,
+  vote_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  poll_id UUID REFERENCES polls(id) ON DELETE CASCADE NOT NULL,
+  option_id UUID REFERENCES poll_options(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_poll_options_poll ON poll_options(poll_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_user ON poll_votes(poll_id, user_id);
+
+-- Helper: can the user see this poll. Follows the post's audience, or
+-- membership of the group the message was sent to
+create or replace function public.can_view_poll(pid uuid, uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.polls pl
+    left join public.group_messages gm on gm.id = pl.group_message_id
+    where pl.id = pid
+    and (
+      (pl.post_id is not null and public.can_view_post(pl.post_id, uid))
+      or (gm.id is not null and public.is_member(gm.group_id, uid))
+    )
+  );
+$$;
+
+-- Step 3: RLS. Polls and options are read-only to clients; who voted for
+-- what is hidden in anonymous polls, except your own ballot
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Polls are viewable with their post or message"
+ON polls FOR SELECT
+USING (public.can_view_poll(id, auth.uid()));
+
+CREATE POLICY "Poll options are viewable with their poll"
+ON poll_options FOR SELECT
+USING (public.can_view_poll(poll_id, auth.uid()));
+
+CREATE POLICY "Poll votes are viewable unless the poll is anonymous"
+ON poll_votes FOR SELECT
+USING (
+  user_id = auth.uid() OR (
+    public.can_view_poll(poll_id, auth.uid()) AND
+    NOT EXISTS (SELECT 1 FROM polls WHERE polls.id = poll_votes.poll_id AND polls.is_anonymous)
+  )
+);
+
+-- Step 4: Attach a poll to a post or message the caller just created.
+-- Raises on invalid input; callers turn that into their error response
+CREATE OR REPLACE FUNCTION public.add_poll(
+  target_post_id UUID,
+  target_group_message_id UUID,
+  option_labels TEXT[],
+  allows_multiple BOOLEAN,
+  is_anonymous BOOLEAN,
+  closes_at TIMESTAMPTZ
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  labels TEXT[];
+  new_poll_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM posts WHERE id = target_post_id AND author_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM group_messages WHERE id = target_group_message_id AND sender_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You can only add polls to your own posts and messages';
+  END IF;
+
+  SELECT array_agg(trim(l) ORDER BY ord) INTO labels
+  FROM unnest(option_labels) WITH ORDINALITY AS o(l, ord)
+  WHERE trim(COALESCE(l, '')) <> '';
+
+  IF COALESCE(array_length(labels, 1), 0) NOT BETWEEN 2 AND 10 THEN
+    RAISE EXCEPTION 'Polls need between 2 and 10 options';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT lower(l)) FROM unnest(labels) l) <> array_length(labels, 1) THEN
+    RAISE EXCEPTION 'Poll options must be different';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(labels) l WHERE length(l) > 100) THEN
+    RAISE EXCEPTION 'Poll options can be at most 100 characters';
+  END IF;
+
+  IF closes_at IS NOT NULL AND closes_at <= NOW() THEN
+    RAISE EXCEPTION 'The poll deadline must be in the future';
+  END IF;
+
+  INSERT INTO polls (post_id, group_message_id, created_by, allows_multiple, is_anonymous, closes_at)
+  VALUES (target_post_id, target_group_message_id, auth.uid(), COALESCE(allows_multiple, false), COALESCE(is_anonymous, false), closes_at)
+  RETURNING id INTO new_poll_id;
+
+  INSERT INTO poll_options (poll_id, label, position)
+  SELECT new_poll_id, l, ord - 1
+  FROM unnest(labels) WITH ORDINALITY AS o(l, ord);
+
+  RETURN new_poll_id;
+END;
+$$;
+
+-- Only reachable through create_post() and send_group_poll()
+REVOKE EXECUTE ON FUNCTION public.add_poll(uuid, uuid, text[], boolean, boolean, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Step 5: create_post can carry a poll. Its arguments change, so the old
+-- signature is dropped first
+DROP FUNCTION IF EXISTS create_post(TEXT, VARCHAR, TEXT[], TIMESTAMPTZ, UUID[], UUID[], UUID[]);
+
+CREATE OR REPLACE FUNCTION create_post(
+  post_content TEXT,
+  audience VARCHAR DEFAULT 'everyone',
+  media TEXT[] DEFAULT NULL,
+  publish_at TIMESTAMPTZ DEFAULT NULL,
+  audience_user_ids UUID[] DEFAULT '{}',
+  audience_group_ids UUID[] DEFAULT '{}',
+  audience_club_ids UUID[] DEFAULT '{}',
+  poll_options TEXT[] DEFAULT NULL,
+  poll_allows_multiple BOOLEAN DEFAULT FALSE,
+  poll_is_anonymous BOOLEAN DEFAULT FALSE,
+  poll_closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  new_post_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF trim(COALESCE(post_content, '')) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Post content is required');
+  END IF;
+
+  IF audience = 'specific' AND COALESCE(array_length(audience_user_ids, 1), 0)
+    + COALESCE(array_length(audience_group_ids, 1), 0)
+    + COALESCE(array_length(audience_club_ids, 1), 0) = 0 THEN
+    RETURN json_build_object('success', false, 'error', 'Choose who this post is for');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(audience_group_ids) gid WHERE NOT is_member(gid, current_user_id)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'You can only post to groups you belong to');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(audience_club_ids) cid WHERE NOT is_club_member(cid, current_user_id)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'You can only post to clubs you belong to');
+  END IF;
+
+  IF poll_options IS NOT NULL AND poll_closes_at IS NOT NULL AND publish_at IS NOT NULL
+    AND poll_closes_at <= publish_at THEN
+    RETURN json_build_object('success', false, 'error', 'The poll deadline must be after the post is published');
+  END IF;
+
+  INSERT INTO posts (content, author_id, visibility, media_urls, scheduled_time, is_published, post_type)
+  VALUES (
+    trim(post_content), current_user_id, audience, media, publish_at, publish_at IS NULL,
+    CASE WHEN poll_options IS NULL THEN 'text' ELSE 'poll' END
+  )
+  RETURNING id INTO new_post_id;
+
+  IF audience = 'specific' THEN
+    INSERT INTO post_visibility (post_id, visible_to_user)
+    SELECT new_post_id, uid FROM unnest(audience_user_ids) uid;
+
+    INSERT INTO post_visibility (post_id, visible_to_group)
+    SELECT new_post_id, gid FROM unnest(audience_group_ids) gid;
+
+    INSERT INTO post_visibility (post_id, visible_to_club)
+    SELECT new_post_id, cid FROM unnest(audience_club_ids) cid;
+  END IF;
+
+  IF poll_options IS NOT NULL THEN
+    PERFORM add_poll(new_post_id, NULL, poll_options, poll_allows_multiple, poll_is_anonymous, poll_closes_at);
+  END IF;
+
+  RETURN json_build_object('success', true, 'post_id', new_post_id);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 6: Send a poll to a group chat; the question is the message text
+CREATE OR REPLACE FUNCTION send_group_poll(
+  target_group_id UUID,
+  question TEXT,
+  option_labels TEXT[],
+  allows_multiple BOOLEAN DEFAULT FALSE,
+  is_anonymous BOOLEAN DEFAULT FALSE,
+  closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  new_message_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT is_member(target_group_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Only group members can start polls');
+  END IF;
+
+  IF trim(COALESCE(question, '')) = '' THEN
+    RETURN json_build_object('success', false, 'error', 'Ask a question');
+  END IF;
+
+  INSERT INTO group_messages (group_id, sender_id, content, message_type)
+  VALUES (target_group_id, current_user_id, trim(question), 'poll')
+  RETURNING id INTO new_message_id;
+
+  PERFORM add_poll(NULL, new_message_id, option_labels, allows_multiple, is_anonymous, closes_at);
+
+  UPDATE groups SET updated_at = NOW() WHERE id = target_group_id;
+
+  RETURN json_build_object('success', true, 'message_id', new_message_id);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 7: Cast, change or retract (empty option_ids) the caller's ballot.
+-- The poll row is locked so concurrent ballots recount one at a time
+CREATE OR REPLACE FUNCTION cast_poll_vote(
+  target_poll_id UUID,
+  option_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  poll_record RECORD;
+  chosen UUID[];
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT can_view_poll(target_poll_id, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Poll not found');
+  END IF;
+
+  SELECT * INTO poll_record FROM polls WHERE id = target_poll_id FOR UPDATE;
+
+  IF poll_record.closes_at IS NOT NULL AND poll_record.closes_at <= NOW() THEN
+    RETURN json_build_object('success', false, 'error', 'This poll has closed');
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT opt), '{}') INTO chosen FROM unnest(option_ids) opt;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(chosen) opt
+    WHERE NOT EXISTS (SELECT 1 FROM poll_options WHERE id = opt AND poll_id = target_poll_id)
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'Invalid poll option');
+  END IF;
+
+  IF NOT poll_record.allows_multiple AND COALESCE(array_length(chosen, 1), 0) > 1 THEN
+    RETURN json_build_object('success', false, 'error', 'Pick a single option');
+  END IF;
+
+  DELETE FROM poll_votes WHERE poll_id = target_poll_id AND user_id = current_user_id;
+
+  INSERT INTO poll_votes (poll_id, option_id, user_id)
+  SELECT target_poll_id, opt, current_user_id FROM unnest(chosen) opt;
+
+  UPDATE poll_options o
+  SET vote_count = (SELECT COUNT(*) FROM poll_votes v WHERE v.option_id = o.id)
+  WHERE o.poll_id = target_poll_id;
+
+  UPDATE polls
+  SET voter_count = (SELECT COUNT(DISTINCT user_id) FROM poll_votes WHERE poll_id = target_poll_id)
+  WHERE id = target_poll_id;
+
+  RETURN json_build_object('success', true);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 8: Live results
+ALTER TABLE polls REPLICA IDENTITY FULL;
+ALTER TABLE poll_options REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE polls;
+ALTER PUBLICATION supabase_realtime ADD TABLE poll_options;
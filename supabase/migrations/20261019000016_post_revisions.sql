@@ -0,0 +1,65 @@
+-- Post editing: each edit to a published post keeps the version it replaced
+-- in post_revisions and stamps posts.edited_at. updated_at can't serve as the
+-- "edited" marker because publishing a scheduled post also bumps it
+
+-- Step 1: Edit stamp and revision table
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.post_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID REFERENCES posts(id) ON DELETE CASCADE NOT NULL,
+  content TEXT NOT NULL,
+  -- When this version was written, and when an edit replaced it
+  written_at TIMESTAMPTZ NOT NULL,
+  replaced_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON post_revisions(post_id, replaced_at DESC);
+
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are only written by the trigger below, and follow the post's audience
+CREATE POLICY "Revisions are viewable if post is viewable"
+ON post_revisions FOR SELECT
+USING (public.can_view_post(post_id, auth.uid()));
+
+-- Step 2: Record the replaced version. Scheduled posts are still drafts, so
+-- editing them before they go out leaves no history
+CREATE OR REPLACE FUNCTION public.handle_post_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF trim(COALESCE(NEW.content, '')) = '' THEN
+    RAISE EXCEPTION 'Post content is required';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content AND OLD.is_published THEN
+    INSERT INTO post_revisions (post_id, content, written_at)
+    VALUES (OLD.id, OLD.content, COALESCE(OLD.edited_at, OLD.created_at, NOW()));
+
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_post_revision ON public.posts;
+CREATE TRIGGER on_post_revision
+  BEFORE UPDATE OF content ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_post_revision();
+
+-- Step 3: Post media is uploaded under posts/<user id>/, so the original
+-- delete policy (which checks the first folder) never matched it
+DROP POLICY IF EXISTS "Allow users to delete own post media" ON storage.objects;
+CREATE POLICY "Allow users to delete own post media" ON storage.objects
+FOR DELETE USING (
+  bucket_id = 'post-media' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    ((storage.foldername(name))[1] = 'posts' AND auth.uid()::text = (storage.foldername(name))[2])
+  )
+);
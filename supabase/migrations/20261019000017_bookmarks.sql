@@ -0,0 +1,79 @@
+-- Saved posts: users bookmark posts and can file them into named private
+-- collections. A bookmark outlives its post (post_id is cleared on delete)
+-- so the saved list can show that the post is gone
+
+-- Step 1: Create tables
+CREATE TABLE IF NOT EXISTS public.bookmark_collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(60) NOT NULL CHECK (trim(name) <> ''),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookmark_collections_name
+ON bookmark_collections(user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS public.bookmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  -- Unfiled when NULL; deleting a collection unfiles its bookmarks
+  collection_id UUID REFERENCES bookmark_collections(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user ON bookmarks(user_id, created_at DESC);
+
+-- Step 2: RLS. Bookmarks and collections are private to their owner
+ALTER TABLE bookmark_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections"
+ON bookmark_collections FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+ON bookmark_collections FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own collections"
+ON bookmark_collections FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+ON bookmark_collections FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own bookmarks"
+ON bookmarks FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only posts the user can see can be saved, into the user's own collections
+CREATE POLICY "Users can bookmark viewable posts"
+ON bookmarks FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id AND
+  public.can_view_post(post_id, auth.uid()) AND
+  (collection_id IS NULL OR EXISTS (
+    SELECT 1 FROM bookmark_collections bc
+    WHERE bc.id = collection_id AND bc.user_id = auth.uid()
+  ))
+);
+
+CREATE POLICY "Users can file their own bookmarks"
+ON bookmarks FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id AND
+  (post_id IS NULL OR public.can_view_post(post_id, auth.uid())) AND
+  (collection_id IS NULL OR EXISTS (
+    SELECT 1 FROM bookmark_collections bc
+    WHERE bc.id = collection_id AND bc.user_id = auth.uid()
+  ))
+);
+
+CREATE POLICY "Users can remove their own bookmarks"
+ON bookmarks FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,620 @@
+-- Content reports and moderation: anyone can report a post, comment, direct
+-- message or group message they can see. Moderators work through the queue
+-- and dismiss the report, hide the content, or warn or suspend its author.
+-- Every decision is kept in moderation_actions as the audit trail, and each
+-- reporter is notified of the outcome. Moderators are added by an admin in
+-- SQL; there is no way to become one from the app
+
+-- Step 1: Moderators
+CREATE TABLE IF NOT EXISTS public.moderators (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Helper: is the user a site moderator
+create or replace function public.is_moderator(uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists(select 1 from public.moderators where user_id = uid);
+$$;
+
+-- Step 2: Hidden content. Hidden rows stay visible to their author only
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+ALTER TABLE public.comments ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+ALTER TABLE public.group_messages ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+
+create or replace function public.can_view_post(pid uuid, uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.posts p
+    where p.id = pid
+    and (
+      p.author_id = uid
+      or (p.is_published and p.hidden_at is null and (
+        p.visibility = 'everyone'
+        or (p.visibility = 'friends' and public.are_friends(p.author_id, uid))
+        or (p.visibility = 'specific' and exists(
+          select 1 from public.post_visibility pv
+          where pv.post_id = p.id
+          and (
+            pv.visible_to_user = uid
+            or public.is_member(pv.visible_to_group, uid)
+            or public.is_club_member(pv.visible_to_club, uid)
+          )
+        ))
+      ))
+    )
+  );
+$$;
+
+-- Helper: is the comment, or any comment above it in its thread, hidden
+create or replace function public.is_comment_thread_hidden(cid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with recursive thread as (
+    select id, parent_comment_id, hidden_at from public.comments where id = cid
+    union all
+    select c.id, c.parent_comment_id, c.hidden_at
+    from public.comments c
+    join thread t on c.id = t.parent_comment_id
+  )
+  select exists(select 1 from thread where hidden_at is not null);
+$$;
+
+-- Replies under a hidden comment are hidden along with it, except from
+-- their own authors
+DROP POLICY IF EXISTS "Comments are viewable if post is viewable" ON comments;
+CREATE POLICY "Comments are viewable if post is viewable"
+ON comments FOR SELECT
+USING (
+  public.can_view_post(post_id, auth.uid()) AND
+  (
+    auth.uid() = author_id OR
+    (hidden_at IS NULL AND NOT public.is_comment_thread_hidden(parent_comment_id))
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view their own messages" ON direct_messages;
+CREATE POLICY "Users can view their own messages"
+ON direct_messages FOR SELECT
+USING (
+  (auth.uid() = sender_id OR auth.uid() = receiver_id) AND
+  (hidden_at IS NULL OR auth.uid() = sender_id)
+);
+
+DROP POLICY IF EXISTS "Group members and creators can view group messages" ON group_messages;
+CREATE POLICY "Group members and creators can view group messages"
+ON group_messages FOR SELECT
+USING (
+  (
+    group_id IN (
+      SELECT group_id FROM group_members WHERE user_id = auth.uid()
+    )
+    OR
+    group_id IN (
+      SELECT id FROM groups WHERE created_by = auth.uid()
+    )
+  ) AND
+  (hidden_at IS NULL OR auth.uid() = sender_id)
+);
+
+-- Authors can edit their own rows, so stop them from un-hiding them
+CREATE OR REPLACE FUNCTION public.protect_hidden_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at AND NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can hide or restore content';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_post_hidden_at ON posts;
+CREATE TRIGGER protect_post_hidden_at
+BEFORE UPDATE OF hidden_at ON posts
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+DROP TRIGGER IF EXISTS protect_comment_hidden_at ON comments;
+CREATE TRIGGER protect_comment_hidden_at
+BEFORE UPDATE OF hidden_at ON comments
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+DROP TRIGGER IF EXISTS protect_direct_message_hidden_at ON direct_messages;
+CREATE TRIGGER protect_direct_message_hidden_at
+BEFORE UPDATE OF hidden_at ON direct_messages
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+DROP TRIGGER IF EXISTS protect_group_message_hidden_at ON group_messages;
+CREATE TRIGGER protect_group_message_hidden_at
+BEFORE UPDATE OF hidden_at ON group_messages
+FOR EACH ROW EXECUTE FUNCTION public.protect_hidden_at();
+
+-- Hiding a comment mustn't mark it as edited, so its updated_at only moves
+-- when the text changes
+DROP TRIGGER IF EXISTS update_comments_updated_at ON comments;
+CREATE TRIGGER update_comments_updated_at
+BEFORE UPDATE OF content ON comments
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Create report, audit and sanction tables
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderator_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('dismiss', 'hide', 'warn', 'suspend')),
+  target_type VARCHAR(20) NOT NULL,
+  target_id UUID NOT NULL,
+  target_user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  -- Warnings and suspensions can hide the content in the same decision
+  content_hidden BOOLEAN NOT NULL DEFAULT FALSE,
+  suspended_until TIMESTAMPTZ,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  target_type VARCHAR(20) NOT NULL
+    CHECK (target_type IN ('post', 'comment', 'direct_message', 'group_message')),
+  -- Not a foreign key: the report outlives content its author deletes
+  target_id UUID NOT NULL,
+  target_author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  -- The text as it was reported, in case it is edited or deleted later
+  content_snapshot TEXT,
+  reason VARCHAR(30) NOT NULL CHECK (reason IN (
+    'spam', 'harassment', 'hate_speech', 'violence',
+    'sexual_content', 'self_harm', 'misinformation', 'other'
+  )),
+  details TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  -- Every open report on the same content is closed by one action
+  action_id UUID REFERENCES moderation_actions(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(reporter_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(target_type, target_id);
+
+CREATE TABLE IF NOT EXISTS public.user_sanctions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('warning', 'suspension')),
+  action_id UUID REFERENCES moderation_actions(id) ON DELETE SET NULL,
+  reason TEXT,
+  -- Only suspensions end
+  ends_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((kind = 'suspension') = (ends_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_user ON user_sanctions(user_id, ends_at);
+
+-- Step 4: RLS. Everything here is written through the functions below
+ALTER TABLE moderators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sanctions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators are viewable by themselves and other moderators"
+ON moderators FOR SELECT
+USING (auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Reporters and moderators can view reports"
+ON reports FOR SELECT
+USING (auth.uid() = reporter_id OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Moderators can view the audit trail"
+ON moderation_actions FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+CREATE POLICY "Users can view their own sanctions"
+ON user_sanctions FOR SELECT
+USING (auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+-- Step 5: Suspended users can't post, comment, send messages, react or
+-- vote, and can't edit what they've already written
+CREATE OR REPLACE FUNCTION public.prevent_suspended_writes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  suspended_until TIMESTAMPTZ;
+BEGIN
+  SELECT MAX(ends_at) INTO suspended_until
+  FROM user_sanctions
+  WHERE user_id = auth.uid() AND kind = 'suspension' AND ends_at > NOW();
+
+  IF suspended_until IS NOT NULL THEN
+    RAISE EXCEPTION 'Your account is suspended until %', to_char(suspended_until, 'Mon DD, YYYY HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_suspended_posts ON posts;
+CREATE TRIGGER prevent_suspended_posts
+BEFORE INSERT OR UPDATE OF content, media_urls ON posts
+FOR EACH ROW EXECUTE FUNCTION public.prevent_suspended_writes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_comments ON comments;
+CREATE TRIGGER prevent_suspended_comments
+BEFORE INSERT OR UPDATE OF content ON comments
+FOR EACH ROW EXECUTE FUNCTION public.prevent_suspended_writes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_direct_messages ON direct_messages;
+CREATE TRIGGER prevent_suspended_direct_messages
+BEFORE INSERT OR UPDATE OF content, media_urls ON direct_messages
+FOR EACH ROW EXECUTE FUNCTION public.prevent_suspended_writes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_group_messages ON group_messages;
+CREATE TRIGGER prevent_suspended_group_messages
+BEFORE INSERT OR UPDATE OF content, media_urls ON group_messages
+FOR EACH ROW EXECUTE FUNCTION public.prevent_suspended_writes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_post_interactions ON post_interactions;
+CREATE TRIGGER prevent_suspended_post_interactions
+BEFORE INSERT OR UPDATE OF interaction_type ON post_interactions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_suspended_writes();
+
+DROP TRIGGER IF EXISTS prevent_suspended_poll_votes ON poll_votes;
+CREATE TRIGGER prevent_suspended_poll_votes
+BEFORE INSERT OR UPDATE OF option_id ON poll_votes
+FOR EACH ROW EXECUTE FUNCTION public.prevent_suspended_writes();
+
+-- Step 6: Report content the user can see. Direct messages can only be
+-- reported by their recipient
+CREATE OR REPLACE FUNCTION report_content(
+  target_kind VARCHAR,
+  target_content_id UUID,
+  report_reason VARCHAR,
+  report_details TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  content_author_id UUID;
+  snapshot TEXT;
+  new_report_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF target_kind = 'post' THEN
+    SELECT author_id, content INTO content_author_id, snapshot
+    FROM posts
+    WHERE id = target_content_id AND can_view_post(id, current_user_id);
+  ELSIF target_kind = 'comment' THEN
+    SELECT author_id, content INTO content_author_id, snapshot
+    FROM comments
+    WHERE id = target_content_id AND hidden_at IS NULL AND can_view_post(post_id, current_user_id);
+  ELSIF target_kind = 'direct_message' THEN
+    SELECT sender_id, content INTO content_author_id, snapshot
+    FROM direct_messages
+    WHERE id = target_content_id AND receiver_id = current_user_id AND hidden_at IS NULL;
+  ELSIF target_kind = 'group_message' THEN
+    SELECT sender_id, content INTO content_author_id, snapshot
+    FROM group_messages
+    WHERE id = target_content_id AND hidden_at IS NULL AND is_member(group_id, current_user_id);
+  ELSE
+    RETURN json_build_object('success', false, 'error', 'Unknown content type');
+  END IF;
+
+  IF content_author_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Content not found');
+  END IF;
+
+  IF content_author_id = current_user_id THEN
+    RETURN json_build_object('success', false, 'error', 'You can''t report your own content');
+  END IF;
+
+  INSERT INTO reports (reporter_id, target_type, target_id, target_author_id, content_snapshot, reason, details)
+  VALUES (current_user_id, target_kind, target_content_id, content_author_id, snapshot, report_reason, NULLIF(trim(report_details), ''))
+  ON CONFLICT (reporter_id, target_type, target_id) DO NOTHING
+  RETURNING id INTO new_report_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'report_id', new_report_id,
+    'already_reported', new_report_id IS NULL
+  );
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 7: The reported content with what was around it: the surrounding
+-- comments on the post, or the surrounding messages in the conversation
+CREATE OR REPLACE FUNCTION get_report_context(target_report_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  context_size CONSTANT INT := 5;
+  report_record RECORD;
+  target RECORD;
+  parent_post JSON;
+  group_name TEXT;
+  items JSON;
+BEGIN
+  IF NOT is_moderator(auth.uid()) THEN
+    RETURN json_build_object('success', false, 'error', 'Only moderators can review reports');
+  END IF;
+
+  SELECT * INTO report_record FROM reports WHERE id = target_report_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Report not found');
+  END IF;
+
+  IF report_record.target_type = 'post' THEN
+    SELECT json_agg(row_to_json(ctx)) INTO items FROM (
+      SELECT p.id, p.content, p.media_urls, p.created_at, p.hidden_at, pr.full_name AS author_name, true AS is_target
+      FROM posts p
+      LEFT JOIN profiles pr ON pr.id = p.author_id
+      WHERE p.id = report_record.target_id
+    ) ctx;
+
+  ELSIF report_record.target_type = 'comment' THEN
+    SELECT * INTO target FROM comments WHERE id = report_record.target_id;
+
+    IF FOUND THEN
+      SELECT row_to_json(ctx) INTO parent_post FROM (
+        SELECT p.id, p.content, p.created_at, pr.full_name AS author_name
+        FROM posts p
+        LEFT JOIN profiles pr ON pr.id = p.author_id
+        WHERE p.id = target.post_id
+      ) ctx;
+
+      SELECT json_agg(row_to_json(ctx) ORDER BY ctx.created_at) INTO items FROM (
+        (
+          SELECT c.id, c.content, NULL::TEXT[] AS media_urls, c.created_at, c.hidden_at, pr.full_name AS author_name, false AS is_target
+          FROM comments c
+          LEFT JOIN profiles pr ON pr.id = c.author_id
+          WHERE c.post_id = target.post_id AND c.created_at < target.created_at
+          ORDER BY c.created_at DESC
+          LIMIT context_size
+        )
+        UNION ALL
+        (
+          SELECT c.id, c.content, NULL::TEXT[], c.created_at, c.hidden_at, pr.full_name, c.id = target.id
+          FROM comments c
+          LEFT JOIN profiles pr ON pr.id = c.author_id
+          WHERE c.post_id = target.post_id AND c.created_at >= target.created_at
+          ORDER BY c.created_at
+          LIMIT context_size + 1
+        )
+      ) ctx;
+    END IF;
+
+  ELSIF report_record.target_type = 'direct_message' THEN
+    SELECT * INTO target FROM direct_messages WHERE id = report_record.target_id;
+
+    IF FOUND THEN
+      SELECT json_agg(row_to_json(ctx) ORDER BY ctx.created_at) INTO items FROM (
+        (
+          SELECT m.id, m.content, m.media_urls, m.created_at, m.hidden_at, pr.full_name AS author_name, false AS is_target
+          FROM direct_messages m
+          LEFT JOIN profiles pr ON pr.id = m.sender_id
+          WHERE ((m.sender_id = target.sender_id AND m.receiver_id = target.receiver_id)
+            OR (m.sender_id = target.receiver_id AND m.receiver_id = target.sender_id))
+          AND m.created_at < target.created_at
+          ORDER BY m.created_at DESC
+          LIMIT context_size
+        )
+        UNION ALL
+        (
+          SELECT m.id, m.content, m.media_urls, m.created_at, m.hidden_at, pr.full_name, m.id = target.id
+          FROM direct_messages m
+          LEFT JOIN profiles pr ON pr.id = m.sender_id
+          WHERE ((m.sender_id = target.sender_id AND m.receiver_id = target.receiver_id)
+            OR (m.sender_id = target.receiver_id AND m.receiver_id = target.sender_id))
+          AND m.created_at >= target.created_at
+          ORDER BY m.created_at
+          LIMIT context_size + 1
+        )
+      ) ctx;
+    END IF;
+
+  ELSIF report_record.target_type = 'group_message' THEN
+    SELECT * INTO target FROM group_messages WHERE id = report_record.target_id;
+
+    IF FOUND THEN
+      SELECT name INTO group_name FROM groups WHERE id = target.group_id;
+
+      SELECT json_agg(row_to_json(ctx) ORDER BY ctx.created_at) INTO items FROM (
+        (
+          SELECT m.id, m.content, m.media_urls, m.created_at, m.hidden_at, pr.full_name AS author_name, false AS is_target
+          FROM group_messages m
+          LEFT JOIN profiles pr ON pr.id = m.sender_id
+          WHERE m.group_id = target.group_id AND m.created_at < target.created_at
+          ORDER BY m.created_at DESC
+          LIMIT context_size
+        )
+        UNION ALL
+        (
+          SELECT m.id, m.content, m.media_urls, m.created_at, m.hidden_at, pr.full_name, m.id = target.id
+          FROM group_messages m
+          LEFT JOIN profiles pr ON pr.id = m.sender_id
+          WHERE m.group_id = target.group_id AND m.created_at >= target.created_at
+          ORDER BY m.created_at
+          LIMIT context_size + 1
+        )
+      ) ctx;
+    END IF;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'parent_post', parent_post,
+    'group_name', group_name,
+    'items', COALESCE(items, '[]'::json)
+  );
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 8: Resolve a report. Closes every open report on the same content,
+-- records the decision and notifies the reporters (and a sanctioned author)
+CREATE OR REPLACE FUNCTION resolve_report(
+  target_report_id UUID,
+  resolution VARCHAR,
+  moderator_note TEXT DEFAULT NULL,
+  hide_content BOOLEAN DEFAULT FALSE,
+  suspend_days INT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  report_record RECORD;
+  should_hide BOOLEAN;
+  suspension_end TIMESTAMPTZ;
+  new_action_id UUID;
+  content_label TEXT;
+  outcome TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF NOT is_moderator(current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'Only moderators can resolve reports');
+  END IF;
+
+  IF resolution NOT IN ('dismiss', 'hide', 'warn', 'suspend') THEN
+    RETURN json_build_object('success', false, 'error', 'Unknown resolution');
+  END IF;
+
+  SELECT * INTO report_record FROM reports WHERE id = target_report_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Report not found');
+  END IF;
+
+  IF report_record.status <> 'open' THEN
+    RETURN json_build_object('success', false, 'error', 'This report has already been resolved');
+  END IF;
+
+  IF resolution IN ('warn', 'suspend') AND report_record.target_author_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'The author''s account no longer exists');
+  END IF;
+
+  IF resolution = 'suspend' THEN
+    IF suspend_days IS NULL OR suspend_days < 1 THEN
+      RETURN json_build_object('success', false, 'error', 'Choose how long to suspend for');
+    END IF;
+    suspension_end := NOW() + make_interval(days => suspend_days);
+  END IF;
+
+  should_hide := resolution = 'hide' OR (resolution IN ('warn', 'suspend') AND hide_content);
+
+  IF should_hide THEN
+    IF report_record.target_type = 'post' THEN
+      UPDATE posts SET hidden_at = NOW() WHERE id = report_record.target_id AND hidden_at IS NULL;
+    ELSIF report_record.target_type = 'comment' THEN
+      UPDATE comments SET hidden_at = NOW() WHERE id = report_record.target_id AND hidden_at IS NULL;
+    ELSIF report_record.target_type = 'direct_message' THEN
+      UPDATE direct_messages SET hidden_at = NOW() WHERE id = report_record.target_id AND hidden_at IS NULL;
+    ELSE
+      UPDATE group_messages SET hidden_at = NOW() WHERE id = report_record.target_id AND hidden_at IS NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO moderation_actions (
+    moderator_id, action, target_type, target_id, target_user_id,
+    content_hidden, suspended_until, note
+  )
+  VALUES (
+    current_user_id, resolution, report_record.target_type, report_record.target_id,
+    report_record.target_author_id, should_hide, suspension_end, NULLIF(trim(moderator_note), '')
+  )
+  RETURNING id INTO new_action_id;
+
+  content_label := replace(report_record.target_type, '_', ' ');
+
+  IF resolution IN ('warn', 'suspend') THEN
+    INSERT INTO user_sanctions (user_id, kind, action_id, reason, ends_at)
+    VALUES (
+      report_record.target_author_id,
+      CASE WHEN resolution = 'suspend' THEN 'suspension' ELSE 'warning' END,
+      new_action_id,
+      NULLIF(trim(moderator_note), ''),
+      suspension_end
+    );
+
+    INSERT INTO notifications (user_id, type, content, related_id)
+    VALUES (
+      report_record.target_author_id,
+      CASE WHEN resolution = 'suspend' THEN 'account_suspended' ELSE 'moderation_warning' END,
+      CASE WHEN resolution = 'suspend'
+        THEN 'Your account has been suspended until ' || to_char(suspension_end, 'Mon DD, YYYY') || ' for a ' || content_label || ' that broke the community guidelines'
+        ELSE 'You received a warning for a ' || content_label || ' that broke the community guidelines'
+      END || COALESCE(': ' || NULLIF(trim(moderator_note), ''), ''),
+      new_action_id
+    );
+  END IF;
+
+  -- Reporters only learn whether action was taken, not what it was
+  outcome := CASE
+    WHEN resolution = 'dismiss' THEN 'it doesn''t break the community guidelines'
+    ELSE 'action has been taken. Thanks for letting us know'
+  END;
+
+  WITH closed AS (
+    UPDATE reports
+    SET status = CASE WHEN resolution = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+        action_id = new_action_id,
+        resolved_at = NOW()
+    WHERE target_type = report_record.target_type
+    AND target_id = report_record.target_id
+    AND status = 'open'
+    RETURNING id, reporter_id
+  )
+  INSERT INTO notifications (user_id, type, content, related_id)
+  SELECT reporter_id, 'report_resolved', 'We reviewed the ' || content_label || ' you reported: ' || outcome, id
+  FROM closed;
+
+  RETURN json_build_object('success', true, 'action_id', new_action_id);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
@@ -0,0 +1,23 @@
+-- Link previews: the unfurl edge function reads Open Graph metadata for
+-- links in posts and messages and caches it here, so a link is fetched once
+-- rather than by every viewer. Failed fetches are cached too, briefly, so a
+-- dead link isn't retried on every render. Rows are only written by the
+-- function, with the service role
+
+-- Step 1: Create table
+CREATE TABLE IF NOT EXISTS public.link_previews (
+  url TEXT PRIMARY KEY,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'failed')),
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: RLS. Previews hold nothing private, but only signed-in users read them
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view link previews"
+ON link_previews FOR SELECT
+USING (auth.uid() IS NOT NULL);
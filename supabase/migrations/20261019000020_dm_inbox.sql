@@ -0,0 +1,114 @@
+-- Direct message inbox: one row per conversation partner with the latest
+-- message and the number of unread messages from them. Receivers mark
+-- conversations read through an RPC, since the update policy on
+-- direct_messages only lets senders change their own messages
+
+-- Step 1: Indexes for the per-conversation lookups
+CREATE INDEX IF NOT EXISTS idx_direct_messages_sender
+ON direct_messages(sender_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_direct_messages_receiver
+ON direct_messages(receiver_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_direct_messages_unread
+ON direct_messages(receiver_id, sender_id) WHERE is_read = FALSE;
+
+-- Step 2: The caller's conversations, latest activity first. Runs as the
+-- caller so RLS applies, e.g. messages hidden by a moderator only count
+-- for their sender
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  partner_id UUID,
+  partner_name TEXT,
+  partner_username TEXT,
+  partner_pic TEXT,
+  partner_online BOOLEAN,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_has_media BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMPTZ,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH threads AS (
+    SELECT
+      dm.*,
+      CASE WHEN dm.sender_id = auth.uid() THEN dm.receiver_id ELSE dm.sender_id END AS partner
+    FROM direct_messages dm
+    WHERE dm.sender_id = auth.uid() OR dm.receiver_id = auth.uid()
+  ),
+  latest AS (
+    SELECT DISTINCT ON (partner) *
+    FROM threads
+    ORDER BY partner, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT partner, COUNT(*) AS unread_count
+    FROM threads
+    WHERE receiver_id = auth.uid() AND is_read = FALSE
+    GROUP BY partner
+  )
+  SELECT
+    l.partner,
+    pr.full_name::TEXT,
+    pr.username::TEXT,
+    pr.profile_pic_url,
+    COALESCE(pr.is_online, FALSE),
+    l.id,
+    l.content,
+    COALESCE(array_length(l.media_urls, 1), 0) > 0,
+    l.sender_id,
+    l.created_at,
+    COALESCE(u.unread_count, 0)
+  FROM latest l
+  JOIN profiles pr ON pr.id = l.partner
+  LEFT JOIN unread u ON u.partner = l.partner
+  ORDER BY l.created_at DESC;
+$$;
+
+-- Step 3: Mark every message from a partner to the caller as read
+CREATE OR REPLACE FUNCTION mark_conversation_read(partner_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  UPDATE direct_messages
+  SET is_read = TRUE
+  WHERE sender_id = partner_user_id
+  AND receiver_id = auth.uid()
+  AND is_read = FALSE;
+
+  GET DIAGNOSTICS marked_count = ROW_COUNT;
+
+  RETURN json_build_object('success', true, 'marked', marked_count);
+EXCEPTION
+  WHEN others THEN
+    RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 4: Enable realtime so inboxes update as messages arrive and are read
+ALTER TABLE public.direct_messages REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'direct_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.direct_messages;
+  END IF;
+END;
+$$;
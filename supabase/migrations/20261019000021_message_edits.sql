@@ -0,0 +1,175 @@
+-- Editing and deleting chat messages. Senders can edit a message for 15
+-- minutes after sending it and delete it for everyone at any time. A
+-- deleted message stays behind as a tombstone: deleted_at is set and its
+-- content and attachments are cleared. Triggers enforce both rules, however
+-- the row is updated
+
+-- Step 1: Tombstones
+ALTER TABLE public.direct_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE public.group_messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Messages are deleted by turning them into tombstones, never removed
+DROP POLICY IF EXISTS "Users can delete their own messages" ON group_messages;
+
+-- Step 2: Edit window and tombstones for direct messages
+CREATE OR REPLACE FUNCTION guard_direct_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL
+      OR NEW.content IS DISTINCT FROM OLD.content
+      OR NEW.media_urls IS DISTINCT FROM OLD.media_urls THEN
+      RAISE EXCEPTION 'Deleted messages can''t be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := NOW();
+    NEW.content := NULL;
+    NEW.media_urls := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content OR NEW.media_urls IS DISTINCT FROM OLD.media_urls THEN
+    IF OLD.created_at < NOW() - INTERVAL '15 minutes' THEN
+      RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+    END IF;
+    IF NULLIF(trim(NEW.content), '') IS NULL AND COALESCE(array_length(NEW.media_urls, 1), 0) = 0 THEN
+      RAISE EXCEPTION 'Messages can''t be empty';
+    END IF;
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_direct_message_changes ON direct_messages;
+CREATE TRIGGER guard_direct_message_changes
+BEFORE UPDATE ON direct_messages
+FOR EACH ROW
+EXECUTE FUNCTION guard_direct_message_changes();
+
+-- Step 3: The same for group messages. A poll's question can't be edited,
+-- since votes were cast on it
+CREATE OR REPLACE FUNCTION guard_group_message_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.deleted_at IS NULL
+      OR NEW.content IS DISTINCT FROM OLD.content
+      OR NEW.media_urls IS DISTINCT FROM OLD.media_urls THEN
+      RAISE EXCEPTION 'Deleted messages can''t be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := NOW();
+    NEW.content := '';
+    NEW.media_urls := '[]'::jsonb;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content OR NEW.media_urls IS DISTINCT FROM OLD.media_urls THEN
+    IF OLD.message_type = 'poll' THEN
+      RAISE EXCEPTION 'Polls can''t be edited';
+    END IF;
+    IF OLD.created_at < NOW() - INTERVAL '15 minutes' THEN
+      RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+    END IF;
+    IF trim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Messages can''t be empty';
+    END IF;
+    NEW.is_edited := TRUE;
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_group_message_changes ON group_messages;
+CREATE TRIGGER guard_group_message_changes
+BEFORE UPDATE ON group_messages
+FOR EACH ROW
+EXECUTE FUNCTION guard_group_message_changes();
+
+-- Step 4: Inbox previews say when the latest message was deleted, and
+-- deleted messages no longer count as unread
+DROP FUNCTION IF EXISTS get_conversations();
+
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  partner_id UUID,
+  partner_name TEXT,
+  partner_username TEXT,
+  partner_pic TEXT,
+  partner_online BOOLEAN,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_has_media BOOLEAN,
+  last_message_deleted BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMPTZ,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH threads AS (
+    SELECT
+      dm.*,
+      CASE WHEN dm.sender_id = auth.uid() THEN dm.receiver_id ELSE dm.sender_id END AS partner
+    FROM direct_messages dm
+    WHERE dm.sender_id = auth.uid() OR dm.receiver_id = auth.uid()
+  ),
+  latest AS (
+    SELECT DISTINCT ON (partner) *
+    FROM threads
+    ORDER BY partner, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT partner, COUNT(*) AS unread_count
+    FROM threads
+    WHERE receiver_id = auth.uid() AND is_read = FALSE AND deleted_at IS NULL
+    GROUP BY partner
+  )
+  SELECT
+    l.partner,
+    pr.full_name::TEXT,
+    pr.username::TEXT,
+    pr.profile_pic_url,
+    COALESCE(pr.is_online, FALSE),
+    l.id,
+    l.content,
+    COALESCE(array_length(l.media_urls, 1), 0) > 0,
+    l.deleted_at IS NOT NULL,
+    l.sender_id,
+    l.created_at,
+    COALESCE(u.unread_count, 0)
+  FROM latest l
+  JOIN profiles pr ON pr.id = l.partner
+  LEFT JOIN unread u ON u.partner = l.partner
+  ORDER BY l.created_at DESC;
+$$;
+
+-- Step 5: Edits and deletions reach open group chats as realtime updates
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'group_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.group_messages;
+  END IF;
+END;
+$$;
@@ -0,0 +1,149 @@
+-- Group read receipts: every member has a read cursor per group, the time
+-- of the latest message they've read. A message has been seen by everyone
+-- whose cursor is at or past it, and a member's unread messages are the
+-- ones after their cursor. Cursors only move forward, through
+-- mark_group_read
+
+-- Step 1: Read cursors
+CREATE TABLE IF NOT EXISTS public.group_read_cursors (
+  group_id UUID REFERENCES groups(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  last_read_at TIMESTAMPTZ NOT NULL,
+  last_read_message_id UUID REFERENCES group_messages(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_read_cursors_user ON group_read_cursors(user_id);
+
+ALTER TABLE group_read_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Members see each other's cursors, which is what "Seen by" is built from.
+-- There are no write policies; cursors move through mark_group_read
+DROP POLICY IF EXISTS "Group members can view read cursors" ON group_read_cursors;
+CREATE POLICY "Group members can view read cursors"
+ON group_read_cursors FOR SELECT
+USING (
+  group_id IN (
+    SELECT group_id FROM group_members WHERE user_id = auth.uid()
+  )
+  OR
+  group_id IN (
+    SELECT id FROM groups WHERE created_by = auth.uid()
+  )
+);
+
+-- Step 2: Move the caller's cursor up to a message, or to the latest
+-- message when none is given ("mark all as read")
+CREATE OR REPLACE FUNCTION mark_group_read(target_group_id UUID, up_to_message_id UUID DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  read_message_id UUID;
+  read_at TIMESTAMPTZ;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members WHERE group_id = target_group_id AND user_id = current_user_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM groups WHERE id = target_group_id AND created_by = current_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'You are not a member of this group');
+  END IF;
+
+  IF up_to_message_id IS NULL THEN
+    SELECT id, created_at INTO read_message_id, read_at
+    FROM group_messages
+    WHERE group_id = target_group_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+  ELSE
+    SELECT id, created_at INTO read_message_id, read_at
+    FROM group_messages
+    WHERE id = up_to_message_id AND group_id = target_group_id;
+  END IF;
+
+  IF read_at IS NULL THEN
+    RETURN json_build_object('success', true, 'last_read_at', NULL);
+  END IF;
+
+  INSERT INTO group_read_cursors (group_id, user_id, last_read_at, last_read_message_id)
+  VALUES (target_group_id, current_user_id, read_at, read_message_id)
+  ON CONFLICT (group_id, user_id) DO UPDATE
+  SET last_read_at = EXCLUDED.last_read_at,
+      last_read_message_id = EXCLUDED.last_read_message_id,
+      updated_at = NOW()
+  WHERE group_read_cursors.last_read_at < EXCLUDED.last_read_at;
+
+  SELECT last_read_at INTO read_at
+  FROM group_read_cursors
+  WHERE group_id = target_group_id AND user_id = current_user_id;
+
+  RETURN json_build_object('success', true, 'last_read_at', read_at);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 3: Unread messages are the ones after the member's cursor, or after
+-- they joined if they haven't read anything yet. Their own, deleted and
+-- hidden messages don't count
+CREATE OR REPLACE FUNCTION get_group_unread_count(group_uuid UUID, user_uuid UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM group_messages m
+  WHERE m.group_id = group_uuid
+  AND m.sender_id <> user_uuid
+  AND m.deleted_at IS NULL
+  AND m.hidden_at IS NULL
+  AND m.created_at > COALESCE(
+    (SELECT last_read_at FROM group_read_cursors WHERE group_id = group_uuid AND user_id = user_uuid),
+    (SELECT joined_at FROM group_members WHERE group_id = group_uuid AND user_id = user_uuid),
+    (SELECT created_at FROM groups WHERE id = group_uuid)
+  );
+$$;
+
+-- The caller's unread count for each of their groups, in one round trip
+CREATE OR REPLACE FUNCTION get_group_unread_counts()
+RETURNS TABLE (
+  group_id UUID,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT g.id, get_group_unread_count(g.id, auth.uid())
+  FROM groups g
+  WHERE g.created_by = auth.uid()
+  OR g.id IN (SELECT gm.group_id FROM group_members gm WHERE gm.user_id = auth.uid());
+$$;
+
+-- Step 4: Enable realtime so "Seen by" updates as members read
+ALTER TABLE public.group_read_cursors REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'group_read_cursors'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.group_read_cursors;
+  END IF;
+END;
+$$;
@@ -0,0 +1,192 @@
+-- Realtime authorization for typing indicators and presence. Both now use
+-- private channels, which only the users allowed by the policies on
+-- realtime.messages can join:
+-- * typing:group:<id>, typing:workspace:<id> and typing:dm:<a>:<b> can be
+--   received by the group's members or the two people in the conversation.
+--   Nobody can broadcast on them from the client; broadcast_typing sends
+--   the caller's own id and name, so a typist can't pretend to be someone else
+-- * presence:<user id> is tracked only by that user's tabs and seen by them
+--   and their friends
+-- Inbox online dots also stop trusting profiles.is_online once last_seen is
+-- stale, for tabs that were closed without saying so
+
+-- Step 1: Who can receive typing on a topic
+create or replace function public.can_see_typing(topic text, uid uuid)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  parts text[];
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+begin
+  parts := string_to_array(topic, ':');
+
+  if parts[1] <> 'typing' then
+    return false;
+  end if;
+
+  if parts[2] = 'group' and array_length(parts, 1) = 3 and parts[3] ~ uuid_pattern then
+    return public.is_member(parts[3]::uuid, uid)
+      or exists(select 1 from groups where id = parts[3]::uuid and created_by = uid);
+  end if;
+
+  if parts[2] = 'workspace' and array_length(parts, 1) = 3 and parts[3] ~ uuid_pattern then
+    return exists(
+      select 1 from workspaces w
+      where w.id = parts[3]::uuid
+      and (public.is_member(w.group_id, uid)
+        or exists(select 1 from groups where id = w.group_id and created_by = uid))
+    );
+  end if;
+
+  if parts[2] = 'dm' and array_length(parts, 1) = 4 then
+    return uid::text in (parts[3], parts[4]);
+  end if;
+
+  return false;
+end;
+$$;
+
+-- Who can see a user's presence: the user and their friends
+create or replace function public.can_see_presence(topic text, uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select topic = 'presence:' || uid::text
+    or (
+      topic ~ '^presence:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      and public.are_friends(substring(topic from 10)::uuid, uid)
+    );
+$$;
+
+-- Step 2: Policies on private channels
+DROP POLICY IF EXISTS "Chat members can receive typing" ON realtime.messages;
+CREATE POLICY "Chat members can receive typing"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND public.can_see_typing(realtime.topic(), auth.uid())
+);
+
+-- Joining needs read access to the channel's broadcasts too, though nothing
+-- is ever broadcast on presence topics
+DROP POLICY IF EXISTS "Friends can see presence" ON realtime.messages;
+CREATE POLICY "Friends can see presence"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND public.can_see_presence(realtime.topic(), auth.uid())
+);
+
+DROP POLICY IF EXISTS "Users can track their own presence" ON realtime.messages;
+CREATE POLICY "Users can track their own presence"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'presence'
+  AND realtime.topic() = 'presence:' || auth.uid()::text
+);
+
+-- Step 3: Tell a chat that the caller is (or stopped) typing. The scope is
+-- the topic without its "typing:" prefix, e.g. group:<id>
+CREATE OR REPLACE FUNCTION broadcast_typing(typing_scope TEXT, is_typing BOOLEAN)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID;
+  typist_name TEXT;
+BEGIN
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'User not authenticated');
+  END IF;
+
+  IF NOT public.can_see_typing('typing:' || typing_scope, current_user_id) THEN
+    RETURN json_build_object('success', false, 'error', 'You are not part of this chat');
+  END IF;
+
+  SELECT full_name INTO typist_name FROM profiles WHERE id = current_user_id;
+
+  PERFORM realtime.send(
+    jsonb_build_object('user_id', current_user_id, 'name', COALESCE(typist_name, 'Someone'), 'typing', is_typing),
+    'typing',
+    'typing:' || typing_scope,
+    true
+  );
+
+  RETURN json_build_object('success', true);
+
+EXCEPTION WHEN others THEN
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Step 4: A partner counts as online only while their tabs keep last_seen
+-- fresh; the app refreshes it every minute while a tab is open
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  partner_id UUID,
+  partner_name TEXT,
+  partner_username TEXT,
+  partner_pic TEXT,
+  partner_online BOOLEAN,
+  last_message_id UUID,
+  last_message_content TEXT,
+  last_message_has_media BOOLEAN,
+  last_message_deleted BOOLEAN,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMPTZ,
+  unread_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH threads AS (
+    SELECT
+      dm.*,
+      CASE WHEN dm.sender_id = auth.uid() THEN dm.receiver_id ELSE dm.sender_id END AS partner
+    FROM direct_messages dm
+    WHERE dm.sender_id = auth.uid() OR dm.receiver_id = auth.uid()
+  ),
+  latest AS (
+    SELECT DISTINCT ON (partner) *
+    FROM threads
+    ORDER BY partner, created_at DESC, id DESC
+  ),
+  unread AS (
+    SELECT partner, COUNT(*) AS unread_count
+    FROM threads
+    WHERE receiver_id = auth.uid() AND is_read = FALSE AND deleted_at IS NULL
+    GROUP BY partner
+  )
+  SELECT
+    l.partner,
+    pr.full_name::TEXT,
+    pr.username::TEXT,
+    pr.profile_pic_url,
+    COALESCE(pr.is_online AND pr.last_seen > NOW() - INTERVAL '3 minutes', FALSE),
+    l.id,
+    l.content,
+    COALESCE(array_length(l.media_urls, 1), 0) > 0,
+    l.deleted_at IS NOT NULL,
+    l.sender_id,
+    l.created_at,
+    COALESCE(u.unread_count, 0)
+  FROM latest l
+  JOIN profiles pr ON pr.id = l.partner
+  LEFT JOIN unread u ON u.partner = l.partner
+  ORDER BY l.created_at DESC;
+$$;